@@ -0,0 +1,82 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { annotations, db, type Transaction } from "../db";
+import { createAnchor, resolveAnchor } from "../epub/anchoring";
+
+/**
+ * Annotation re-anchoring
+ * Annotation offsets point into the chapter HTML they were made on. When that
+ * HTML changes (reprocessing, new versions of a book), annotations are found
+ * again from their anchor. Used by the epub layer and scripts, outside the
+ * HTTP routes.
+ */
+
+/**
+ * Give an anchor to the annotations created before anchors existed, from their
+ * offsets into the chapter HTML they were made on: run it before that HTML
+ * changes. Optionally limited to a book or chapter. Returns the number of
+ * backfilled annotations.
+ */
+export const backfillAnnotationAnchors = async (
+  scope: { bookId?: string; chapterId?: string } = {},
+  tx: typeof db | Transaction = db,
+) => {
+  const missing = await tx.query.annotations.findMany({
+    where: and(
+      isNull(annotations.anchor),
+      scope.bookId ? eq(annotations.bookId, scope.bookId) : undefined,
+      scope.chapterId ? eq(annotations.chapterId, scope.chapterId) : undefined,
+    ),
+    columns: { id: true, chapterId: true, startOffset: true, endOffset: true },
+    with: {
+      chapter: {
+        columns: { htmlContent: true },
+      },
+    },
+  });
+
+  for (const annotation of missing) {
+    const html = annotation.chapter.htmlContent;
+    await tx.update(annotations)
+      .set({ anchor: createAnchor(html, Math.min(annotation.startOffset, html.length), Math.min(annotation.endOffset, html.length)) })
+      .where(eq(annotations.id, annotation.id));
+  }
+  return missing.length;
+};
+
+/**
+ * Re-attach the annotations of a chapter after its HTML changed.
+ * Annotations whose quote can't be found anymore are flagged as orphaned
+ * and keep their previous offsets (clamped to the new content).
+ */
+export const reanchorChapterAnnotations = async (chapterId: string, htmlContent: string, tx: typeof db | Transaction = db) => {
+  const chapterAnnotations = await tx.query.annotations.findMany({
+    where: eq(annotations.chapterId, chapterId),
+  });
+
+  let orphaned = 0;
+  for (const annotation of chapterAnnotations) {
+    const resolved = annotation.anchor ? resolveAnchor(annotation.anchor, htmlContent) : null;
+
+    if (resolved) {
+      await tx.update(annotations)
+        .set({
+          startOffset: resolved.startOffset,
+          endOffset: resolved.endOffset,
+          anchor: resolved.anchor,
+          orphaned: false,
+        })
+        .where(eq(annotations.id, annotation.id));
+    } else {
+      orphaned++;
+      await tx.update(annotations)
+        .set({
+          startOffset: Math.min(annotation.startOffset, htmlContent.length),
+          endOffset: Math.min(annotation.endOffset, htmlContent.length),
+          orphaned: true,
+        })
+        .where(eq(annotations.id, annotation.id));
+    }
+  }
+
+  return { reanchored: chapterAnnotations.length - orphaned, orphaned };
+};
@@ -0,0 +1,218 @@
+import * as fflate from "fflate";
+import type { Annotation, Book, Chapter } from "../db";
+
+/**
+ * Annotation export
+ * Formats a user's annotations of a book for note-taking tools: Markdown
+ * grouped by chapter (Obsidian and the like), a structured JSON dump and
+ * Readwise's CSV import format. A library export zips one file per book.
+ */
+
+export const ANNOTATION_EXPORT_FORMATS = ["markdown", "json", "csv"] as const;
+export type AnnotationExportFormat = typeof ANNOTATION_EXPORT_FORMATS[number];
+
+// Base URL of the reader frontend, for the deep links of exported annotations
+export const APP_URL = (process.env.APP_URL || process.env.CORS_ORIGIN || "http://localhost:5173").replace(/\/+$/, "");
+
+export const FORMAT_EXTENSIONS: Record<AnnotationExportFormat, string> = { markdown: "md", json: "json", csv: "csv" };
+
+export const FORMAT_CONTENT_TYPES: Record<AnnotationExportFormat, string> = {
+  markdown: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+};
+
+export type ExportedBookInfo = Pick<Book, "id" | "title" | "author">;
+
+export type ExportedAnnotation = Pick<Annotation,
+  "id" | "type" | "selectedText" | "noteContent" | "color" | "visibility" | "orphaned" | "anchor" | "createdAt" | "updatedAt"> & {
+  chapter: Pick<Chapter, "spineIndex" | "title">;
+};
+
+export const isAnnotationExportFormat = (value: unknown): value is AnnotationExportFormat =>
+  typeof value === "string" && (ANNOTATION_EXPORT_FORMATS as readonly string[]).includes(value);
+
+/**
+ * Link opening the reader at an annotation
+ */
+export const annotationDeepLink = (bookId: string, spineIndex: number, annotationId: string) =>
+  `${APP_URL}/books/${bookId}/chapters/${spineIndex}?annotation=${annotationId}`;
+
+// Truncated before any suffix, so that the suffix is always kept
+const filenameBase = (title: string) =>
+  title.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, "").replace(/\s+/g, " ").trim().slice(0, 120) || "book";
+
+/**
+ * File name safe on every platform, keeping accented letters
+ */
+export const exportFilename = (title: string, extension: string) => `${filenameBase(title)}.${extension}`;
+
+/**
+ * Content-Disposition header of a download, with an ASCII fallback name
+ */
+export const attachmentDisposition = (filename: string) =>
+  `attachment; filename="${filename.normalize("NFKD").replace(/[^\x20-\x7e]|"/g, "")}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+
+// The anchor keeps the quote of annotations created before selectedText was stored
+const quoteOf = (annotation: ExportedAnnotation) => annotation.selectedText ?? annotation.anchor?.quote.exact ?? null;
+
+const chapterTitle = (chapter: ExportedAnnotation["chapter"]) => chapter.title?.trim() || `Chapter ${chapter.spineIndex + 1}`;
+
+/**
+ * Order annotations as they appear in the book
+ */
+const inReadingOrder = (annotations: ExportedAnnotation[]) => [...annotations].sort((a, b) =>
+  a.chapter.spineIndex - b.chapter.spineIndex
+  || (a.anchor?.position.start ?? 0) - (b.anchor?.position.start ?? 0)
+  || a.createdAt.getTime() - b.createdAt.getTime());
+
+const yamlString = (value: string) => JSON.stringify(value);
+
+/**
+ * Markdown notes: front matter, then every chapter's quotes and notes
+ */
+export function annotationsToMarkdown(book: ExportedBookInfo, annotations: ExportedAnnotation[], exportedAt = new Date()): string {
+  const lines = [
+    "---",
+    `title: ${yamlString(book.title)}`,
+    ...(book.author ? [`author: ${yamlString(book.author)}`] : []),
+    `exported: ${exportedAt.toISOString()}`,
+    "---",
+    "",
+    `# ${book.title}`,
+    "",
+  ];
+  if (book.author) {
+    lines.push(`*${book.author}*`, "");
+  }
+
+  let currentChapter: number | null = null;
+  for (const annotation of inReadingOrder(annotations)) {
+    if (annotation.chapter.spineIndex !== currentChapter) {
+      currentChapter = annotation.chapter.spineIndex;
+      lines.push(`## ${chapterTitle(annotation.chapter)}`, "");
+    }
+
+    const quote = quoteOf(annotation);
+    if (quote?.trim()) {
+      lines.push(...quote.trim().split(/\r?\n/).map(line => `> ${line}`.trimEnd()), "");
+    }
+    if (annotation.noteContent?.trim()) {
+      lines.push(annotation.noteContent.trim(), "");
+    }
+    const details = [
+      annotation.type === "highlight" ? null : annotation.type,
+      annotation.color,
+      annotation.orphaned ? "no longer found in the book" : null,
+    ].filter(Boolean);
+    const link = `[Open in reader](${annotationDeepLink(book.id, annotation.chapter.spineIndex, annotation.id)})`;
+    lines.push(details.length > 0 ? `*${details.join(", ")}* · ${link}` : link, "");
+  }
+
+  if (annotations.length === 0) {
+    lines.push("*No annotations*", "");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Structured dump of a book's annotations
+ */
+export function annotationsToJson(book: ExportedBookInfo, annotations: ExportedAnnotation[], exportedAt = new Date()) {
+  return {
+    exportedAt: exportedAt.toISOString(),
+    book: { id: book.id, title: book.title, author: book.author },
+    annotations: inReadingOrder(annotations).map(annotation => ({
+      id: annotation.id,
+      type: annotation.type,
+      chapter: { spineIndex: annotation.chapter.spineIndex, title: annotation.chapter.title },
+      quote: quoteOf(annotation),
+      note: annotation.noteContent,
+      color: annotation.color,
+      visibility: annotation.visibility,
+      orphaned: annotation.orphaned,
+      position: annotation.anchor?.position ?? null,
+      url: annotationDeepLink(book.id, annotation.chapter.spineIndex, annotation.id),
+      createdAt: annotation.createdAt.toISOString(),
+      updatedAt: annotation.updatedAt.toISOString(),
+    })),
+  };
+}
+
+// Columns of Readwise's CSV import
+export const READWISE_COLUMNS = ["Highlight", "Title", "Author", "URL", "Note", "Location", "Date"] as const;
+
+const csvField = (value: string | number | null) => {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+};
+
+export const toCsv = (rows: Array<Array<string | number | null>>) => rows.map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+
+/**
+ * Readwise CSV rows: one per annotation with a quote (bookmarks don't have one),
+ * located by their rank in reading order
+ */
+export function annotationsToReadwiseRows(book: ExportedBookInfo, annotations: ExportedAnnotation[]) {
+  return inReadingOrder(annotations)
+    .filter(annotation => annotation.type !== "bookmark" && quoteOf(annotation)?.trim())
+    .map((annotation, index) => [
+      quoteOf(annotation)!.trim(),
+      book.title,
+      book.author,
+      annotationDeepLink(book.id, annotation.chapter.spineIndex, annotation.id),
+      annotation.noteContent?.trim() || null,
+      index + 1,
+      // Readwise expects "YYYY-MM-DD HH:MM:SS"
+      annotation.createdAt.toISOString().replace("T", " ").replace(/\.\d{3}Z$/, ""),
+    ]);
+}
+
+export const annotationsToReadwiseCsv = (book: ExportedBookInfo, annotations: ExportedAnnotation[]) =>
+  toCsv([[...READWISE_COLUMNS], ...annotationsToReadwiseRows(book, annotations)]);
+
+/**
+ * Export a book's annotations in a format
+ */
+export function formatAnnotations(format: AnnotationExportFormat, book: ExportedBookInfo, annotations: ExportedAnnotation[], exportedAt = new Date()): string {
+  switch (format) {
+    case "markdown":
+      return annotationsToMarkdown(book, annotations, exportedAt);
+    case "json":
+      return JSON.stringify(annotationsToJson(book, annotations, exportedAt), null, 2);
+    case "csv":
+      return annotationsToReadwiseCsv(book, annotations);
+  }
+}
+
+/**
+ * Zip the exports of several books, one file per book. Readwise imports a
+ * single CSV, so the zip also holds all the books' rows in one file.
+ */
+export function zipLibraryAnnotations(
+  format: AnnotationExportFormat,
+  books: Array<{ book: ExportedBookInfo; annotations: ExportedAnnotation[] }>,
+  exportedAt = new Date()
+): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const files: fflate.Zippable = {};
+  // Reserved for the combined Readwise file
+  const combinedCsv = "readwise-import.csv";
+  const taken = new Set<string>(format === "csv" ? [combinedCsv] : []);
+
+  for (const { book, annotations } of books) {
+    let filename = exportFilename(book.title, FORMAT_EXTENSIONS[format]);
+    for (let i = 2; taken.has(filename.toLowerCase()); i++) {
+      filename = `${filenameBase(book.title)} (${i}).${FORMAT_EXTENSIONS[format]}`;
+    }
+    taken.add(filename.toLowerCase());
+    files[filename] = encoder.encode(formatAnnotations(format, book, annotations, exportedAt));
+  }
+
+  if (format === "csv") {
+    const rows = books.flatMap(({ book, annotations }) => annotationsToReadwiseRows(book, annotations));
+    files[combinedCsv] = encoder.encode(toCsv([[...READWISE_COLUMNS], ...rows]));
+  }
+
+  return fflate.zipSync(files) as Uint8Array<ArrayBuffer>;
+}
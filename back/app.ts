@@ -0,0 +1,30 @@
+import { Hono } from 'hono'
+import { auth } from './auth/auth'
+import { sessionMiddleware, type AuthVariables } from './auth/middleware'
+import annotations from './services/annotations'
+import epub from './services/epub'
+import groups from './services/groups'
+import jobs from './services/jobs'
+import progress from './services/progress'
+import readAlong from './services/read-along'
+import realtime from './services/realtime'
+import search from './services/search'
+import shared from './services/shared'
+
+const app = new Hono<{ Variables: AuthVariables }>()
+
+// better-auth routes (sign-up, sign-in, sign-out, OAuth callbacks...)
+app.on(['GET', 'POST'], '/api/auth/*', (c) => auth.handler(c.req.raw))
+
+app.use('*', sessionMiddleware)
+app.route('/epub', epub)
+app.route('/jobs', jobs)
+app.route('/books', progress)
+app.route('/annotations', annotations)
+app.route('/search', search)
+app.route('/groups', groups)
+app.route('/read-along', readAlong)
+app.route('/shared', shared)
+app.route('/ws', realtime)
+
+export default app
@@ -0,0 +1,128 @@
+import { and, eq, exists, inArray, isNull, or } from "drizzle-orm";
+import { annotations, books, db, groupBooks, groupMembers, type Annotation, type GroupRole } from "../db";
+
+/**
+ * SQL condition matching the books a user may read: they uploaded it, or it is
+ * shared into one of their groups. Callers filter out books in the trash.
+ */
+export function accessibleBooksFilter(userId: string) {
+  const sharedWithUser = db
+    .select({ id: groupBooks.id })
+    .from(groupBooks)
+    .innerJoin(groupMembers, eq(groupBooks.groupId, groupMembers.groupId))
+    .where(and(
+      eq(groupBooks.bookId, books.id),
+      eq(groupMembers.userId, userId),
+    ));
+
+  return or(eq(books.userId, userId), exists(sharedWithUser));
+}
+
+/**
+ * Check whether a user may read a book (chapters, assets, TOC...):
+ * they uploaded it, or it is shared into one of their groups. Books in the trash are hidden.
+ */
+export async function canAccessBook(bookId: string, userId: string): Promise<boolean> {
+  const [book] = await db
+    .select({ id: books.id })
+    .from(books)
+    .where(and(
+      eq(books.id, bookId),
+      isNull(books.deletedAt),
+      accessibleBooksFilter(userId),
+    ))
+    .limit(1);
+  return !!book;
+}
+
+/**
+ * Get a user's role in a group, or null if they aren't a member
+ */
+export async function getGroupRole(groupId: string, userId: string): Promise<GroupRole | null> {
+  const membership = await db.query.groupMembers.findFirst({
+    where: and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId)),
+    columns: { role: true },
+  });
+  return membership?.role ?? null;
+}
+
+const ROLE_RANKS: Record<GroupRole, number> = { reader: 0, moderator: 1, owner: 2 };
+
+/**
+ * Check whether a role is at least as powerful as another one
+ */
+export function hasGroupRole(role: GroupRole | null, minimum: GroupRole): boolean {
+  return role !== null && ROLE_RANKS[role] >= ROLE_RANKS[minimum];
+}
+
+/**
+ * Check whether a member may grant, change or revoke the given role:
+ * owners manage everyone but other owners, moderators only manage readers
+ */
+export function canManageRole(actorRole: GroupRole | null, targetRole: GroupRole): boolean {
+  if (actorRole === "owner") return targetRole !== "owner";
+  if (actorRole === "moderator") return targetRole === "reader";
+  return false;
+}
+
+/**
+ * Check whether a book is shared into a group the user is a member of
+ */
+export async function isBookSharedWithMember(groupId: string, bookId: string, userId: string): Promise<boolean> {
+  const [shared] = await db
+    .select({ id: groupBooks.id })
+    .from(groupBooks)
+    .innerJoin(groupMembers, eq(groupBooks.groupId, groupMembers.groupId))
+    .innerJoin(books, eq(groupBooks.bookId, books.id))
+    .where(and(
+      eq(groupBooks.groupId, groupId),
+      eq(groupBooks.bookId, bookId),
+      eq(groupMembers.userId, userId),
+      isNull(books.deletedAt),
+    ))
+    .limit(1);
+  return !!shared;
+}
+
+/**
+ * Check whether a user may see an annotation: their own, one shared with
+ * a group they belong to while the book is still shared there, or a public
+ * one on a book they can read
+ */
+export async function canViewAnnotation(
+  annotation: Pick<Annotation, "userId" | "bookId" | "visibility" | "groupId">,
+  userId: string
+): Promise<boolean> {
+  if (annotation.userId === userId) return true;
+  if (annotation.visibility === "group" && annotation.groupId) {
+    return isBookSharedWithMember(annotation.groupId, annotation.bookId, userId);
+  }
+  if (annotation.visibility === "public") {
+    return canAccessBook(annotation.bookId, userId);
+  }
+  return false;
+}
+
+/**
+ * SQL condition matching the annotations a user may see (see canViewAnnotation).
+ * Callers must check the user can access the book.
+ */
+export function visibleAnnotationsFilter(userId: string) {
+  const userGroups = db
+    .select({ groupId: groupMembers.groupId })
+    .from(groupMembers)
+    .where(eq(groupMembers.userId, userId));
+  const sharedInGroup = db
+    .select({ id: groupBooks.id })
+    .from(groupBooks)
+    .where(and(
+      eq(groupBooks.groupId, annotations.groupId),
+      eq(groupBooks.bookId, annotations.bookId),
+    ));
+
+  return or(
+    eq(annotations.userId, userId),
+    and(eq(annotations.visibility, "group"), inArray(annotations.groupId, userGroups), exists(sharedInGroup)),
+    eq(annotations.visibility, "public"),
+  );
+}
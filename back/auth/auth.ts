@@ -6,4 +6,22 @@ export const auth = betterAuth({
   database: drizzleAdapter(db, {
         provider: "pg",
     }),
-});
\ No newline at end of file
+  emailAndPassword: {
+    enabled: true,
+  },
+  socialProviders: {
+    // Google sign-in is only enabled when credentials are configured
+    ...(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET
+      ? {
+          google: {
+            clientId: process.env.GOOGLE_CLIENT_ID,
+            clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+          },
+        }
+      : {}),
+  },
+  trustedOrigins: process.env.CORS_ORIGIN ? [process.env.CORS_ORIGIN] : [],
+});
+
+export type AuthUser = typeof auth.$Infer.Session.user;
+export type AuthSession = typeof auth.$Infer.Session.session;
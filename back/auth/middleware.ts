@@ -0,0 +1,30 @@
+import { createMiddleware } from "hono/factory";
+import { auth, type AuthSession, type AuthUser } from "./auth";
+
+/**
+ * Context variables set by the session middleware
+ */
+export type AuthVariables = {
+  user: AuthUser | null;
+  session: AuthSession | null;
+};
+
+/**
+ * Resolve the better-auth session from the request cookies
+ */
+export const sessionMiddleware = createMiddleware<{ Variables: AuthVariables }>(async (c, next) => {
+  const session = await auth.api.getSession({ headers: c.req.raw.headers });
+  c.set("user", session?.user ?? null);
+  c.set("session", session?.session ?? null);
+  await next();
+});
+
+/**
+ * Reject requests without a signed-in user
+ */
+export const requireAuth = createMiddleware<{ Variables: AuthVariables }>(async (c, next) => {
+  if (!c.get("user")) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+  await next();
+});
@@ -13,3 +13,6 @@ export const db = drizzle(client, { schema });
 
 // Export schema for convenience
 export * from './schema';
+
+// Transaction handle passed to db.transaction callbacks
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
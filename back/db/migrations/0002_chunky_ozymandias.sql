@@ -0,0 +1 @@
+ALTER TABLE "books" ADD COLUMN "toc" jsonb;
\ No newline at end of file
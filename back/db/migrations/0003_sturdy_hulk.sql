@@ -0,0 +1,3 @@
+ALTER TABLE "chapters" ALTER COLUMN "chapter_number" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "books" ADD COLUMN "reading_direction" text DEFAULT 'ltr' NOT NULL;--> statement-breakpoint
+ALTER TABLE "chapters" ADD COLUMN "linear" boolean DEFAULT true NOT NULL;
\ No newline at end of file
@@ -0,0 +1,21 @@
+ALTER TABLE "books" ADD COLUMN "user_id" text;--> statement-breakpoint
+-- Books uploaded before sign-in existed belong to the account the operator names with
+-- the app.legacy_books_owner setting, or else to the only account if there is just one
+UPDATE "books" SET "user_id" = coalesce(
+  (SELECT "id" FROM "user" WHERE "id" = nullif(current_setting('app.legacy_books_owner', true), '')),
+  (SELECT "id" FROM "user" WHERE (SELECT count(*) FROM "user") = 1)
+) WHERE "user_id" IS NULL;--> statement-breakpoint
+-- Otherwise stop rather than delete them: the whole migration rolls back
+DO $$
+DECLARE
+  ownerless integer;
+BEGIN
+  SELECT count(*) INTO ownerless FROM "books" WHERE "user_id" IS NULL;
+  IF ownerless > 0 THEN
+    RAISE EXCEPTION '% books were uploaded before accounts existed and have no owner', ownerless
+      USING HINT = format('Sign up the account that should own them, then run ALTER DATABASE %I SET app.legacy_books_owner = ''<user id>'' and migrate again', current_database());
+  END IF;
+END $$;--> statement-breakpoint
+ALTER TABLE "books" ALTER COLUMN "user_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "books" ADD CONSTRAINT "books_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "books_user_id_idx" ON "books" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1,9 @@
+ALTER TABLE "reading_progress" ADD COLUMN "user_id" text;--> statement-breakpoint
+-- Progress saved before sign-in existed belongs to the book's owner
+UPDATE "reading_progress" SET "user_id" = "books"."user_id" FROM "books" WHERE "reading_progress"."book_id" = "books"."id" AND "reading_progress"."user_id" IS NULL;--> statement-breakpoint
+-- Keep the most recent row per book: progress is unique per user and book
+DELETE FROM "reading_progress" WHERE "id" NOT IN (SELECT DISTINCT ON ("user_id", "book_id") "id" FROM "reading_progress" ORDER BY "user_id", "book_id", "last_read_at" DESC);--> statement-breakpoint
+ALTER TABLE "reading_progress" ALTER COLUMN "user_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "reading_progress" ADD COLUMN "chapter_progress" real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "reading_progress" ADD CONSTRAINT "reading_progress_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "reading_progress_user_book_idx" ON "reading_progress" USING btree ("user_id","book_id");
\ No newline at end of file
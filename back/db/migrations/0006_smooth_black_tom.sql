@@ -0,0 +1,9 @@
+ALTER TABLE "annotations" ADD COLUMN "user_id" text;--> statement-breakpoint
+ALTER TABLE "annotations" ADD COLUMN "book_id" uuid;--> statement-breakpoint
+-- Annotations made before sign-in existed belong to the owner of their chapter's book
+UPDATE "annotations" SET "book_id" = "books"."id", "user_id" = "books"."user_id" FROM "chapters" INNER JOIN "books" ON "books"."id" = "chapters"."book_id" WHERE "annotations"."chapter_id" = "chapters"."id";--> statement-breakpoint
+ALTER TABLE "annotations" ALTER COLUMN "user_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "annotations" ALTER COLUMN "book_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "annotations" ADD CONSTRAINT "annotations_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "annotations" ADD CONSTRAINT "annotations_book_id_books_id_fk" FOREIGN KEY ("book_id") REFERENCES "public"."books"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "annotations_user_book_idx" ON "annotations" USING btree ("user_id","book_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "annotations" ADD COLUMN "anchor" jsonb;--> statement-breakpoint
+ALTER TABLE "annotations" ADD COLUMN "orphaned" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "books" ADD COLUMN "search_config" text DEFAULT 'simple' NOT NULL;--> statement-breakpoint
+ALTER TABLE "chapters" ADD COLUMN "plain_text" text;
\ No newline at end of file
@@ -0,0 +1,62 @@
+-- Pick each book's text search configuration from its language
+UPDATE "books" SET "search_config" = CASE lower(split_part(split_part(coalesce("language", ''), '-', 1), '_', 1))
+    WHEN 'ar' THEN 'arabic' WHEN 'hy' THEN 'armenian' WHEN 'eu' THEN 'basque' WHEN 'ca' THEN 'catalan'
+    WHEN 'da' THEN 'danish' WHEN 'nl' THEN 'dutch' WHEN 'en' THEN 'english' WHEN 'fi' THEN 'finnish'
+    WHEN 'fr' THEN 'french' WHEN 'de' THEN 'german' WHEN 'el' THEN 'greek' WHEN 'hi' THEN 'hindi'
+    WHEN 'hu' THEN 'hungarian' WHEN 'id' THEN 'indonesian' WHEN 'ga' THEN 'irish' WHEN 'it' THEN 'italian'
+    WHEN 'lt' THEN 'lithuanian' WHEN 'ne' THEN 'nepali' WHEN 'no' THEN 'norwegian' WHEN 'nb' THEN 'norwegian'
+    WHEN 'nn' THEN 'norwegian' WHEN 'pt' THEN 'portuguese' WHEN 'ro' THEN 'romanian' WHEN 'ru' THEN 'russian'
+    WHEN 'sr' THEN 'serbian' WHEN 'es' THEN 'spanish' WHEN 'sv' THEN 'swedish' WHEN 'ta' THEN 'tamil'
+    WHEN 'tr' THEN 'turkish' WHEN 'yi' THEN 'yiddish'
+    ELSE 'simple'
+END;--> statement-breakpoint
+
+-- Backfill the plain text of existing chapters (new uploads extract it at ingestion)
+UPDATE "chapters" SET "plain_text" = trim(regexp_replace(
+    replace(replace(replace(replace(replace(
+        regexp_replace(
+            regexp_replace("html_content", '<head[^>]*>.*</head>|<style[^>]*>[^<]*</style>', ' ', 'gi'),
+            '<[^>]*>', ' ', 'g'),
+        '&nbsp;', ' '), '&lt;', '<'), '&gt;', '>'), '&quot;', '"'), '&amp;', '&'),
+    '\s+', ' ', 'g'))
+WHERE "plain_text" IS NULL;--> statement-breakpoint
+
+-- Replace the generated english vector over raw HTML with one maintained by a trigger,
+-- since the configuration depends on the book. Only databases set up with
+-- 0001_add_search_and_indexes.sql (not in the journal) have the old column.
+ALTER TABLE "chapters" DROP COLUMN IF EXISTS "search_vector";--> statement-breakpoint
+ALTER TABLE "chapters" ADD COLUMN "search_vector" tsvector;--> statement-breakpoint
+
+CREATE OR REPLACE FUNCTION update_chapter_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_vector = to_tsvector(
+        coalesce((SELECT search_config FROM books WHERE id = NEW.book_id), 'simple')::regconfig,
+        coalesce(NEW.plain_text, '')
+    );
+    RETURN NEW;
+END;
+$$ language 'plpgsql';--> statement-breakpoint
+
+DROP TRIGGER IF EXISTS update_chapters_search_vector ON chapters;--> statement-breakpoint
+CREATE TRIGGER update_chapters_search_vector BEFORE INSERT OR UPDATE OF plain_text, book_id ON chapters
+    FOR EACH ROW EXECUTE FUNCTION update_chapter_search_vector();--> statement-breakpoint
+
+-- Re-index a book's chapters when its configuration changes
+CREATE OR REPLACE FUNCTION update_book_search_vectors()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE chapters SET plain_text = plain_text WHERE book_id = NEW.id;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';--> statement-breakpoint
+
+DROP TRIGGER IF EXISTS update_books_search_vectors ON books;--> statement-breakpoint
+CREATE TRIGGER update_books_search_vectors AFTER UPDATE OF search_config ON books
+    FOR EACH ROW WHEN (OLD.search_config IS DISTINCT FROM NEW.search_config)
+    EXECUTE FUNCTION update_book_search_vectors();--> statement-breakpoint
+
+-- Fill the vectors of existing chapters through the trigger
+UPDATE "chapters" SET "plain_text" = "plain_text";--> statement-breakpoint
+
+CREATE INDEX IF NOT EXISTS "chapters_search_vector_idx" ON "chapters" USING GIN ("search_vector");
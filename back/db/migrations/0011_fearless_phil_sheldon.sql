@@ -0,0 +1,29 @@
+CREATE TABLE "annotation_reactions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"annotation_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"emoji" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "annotation_replies" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"annotation_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"content" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "annotations" ADD COLUMN "visibility" text DEFAULT 'private' NOT NULL;--> statement-breakpoint
+ALTER TABLE "annotations" ADD COLUMN "group_id" uuid;--> statement-breakpoint
+ALTER TABLE "annotations" ADD COLUMN "share_token" text;--> statement-breakpoint
+ALTER TABLE "annotation_reactions" ADD CONSTRAINT "annotation_reactions_annotation_id_annotations_id_fk" FOREIGN KEY ("annotation_id") REFERENCES "public"."annotations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "annotation_reactions" ADD CONSTRAINT "annotation_reactions_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "annotation_replies" ADD CONSTRAINT "annotation_replies_annotation_id_annotations_id_fk" FOREIGN KEY ("annotation_id") REFERENCES "public"."annotations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "annotation_replies" ADD CONSTRAINT "annotation_replies_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "annotation_reactions_unique_idx" ON "annotation_reactions" USING btree ("annotation_id","user_id","emoji");--> statement-breakpoint
+CREATE INDEX "annotation_replies_annotation_id_idx" ON "annotation_replies" USING btree ("annotation_id");--> statement-breakpoint
+ALTER TABLE "annotations" ADD CONSTRAINT "annotations_group_id_reading_groups_id_fk" FOREIGN KEY ("group_id") REFERENCES "public"."reading_groups"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "annotations_group_id_idx" ON "annotations" USING btree ("group_id");--> statement-breakpoint
+ALTER TABLE "annotations" ADD CONSTRAINT "annotations_share_token_unique" UNIQUE("share_token");
\ No newline at end of file
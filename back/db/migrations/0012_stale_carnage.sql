@@ -0,0 +1,17 @@
+CREATE TABLE "read_along_sessions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"group_id" uuid NOT NULL,
+	"book_id" uuid NOT NULL,
+	"leader_id" text NOT NULL,
+	"spine_index" integer DEFAULT 0 NOT NULL,
+	"scroll_position" integer DEFAULT 0 NOT NULL,
+	"chapter_progress" real DEFAULT 0 NOT NULL,
+	"position_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"ended_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "read_along_sessions" ADD CONSTRAINT "read_along_sessions_group_id_reading_groups_id_fk" FOREIGN KEY ("group_id") REFERENCES "public"."reading_groups"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "read_along_sessions" ADD CONSTRAINT "read_along_sessions_book_id_books_id_fk" FOREIGN KEY ("book_id") REFERENCES "public"."books"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "read_along_sessions" ADD CONSTRAINT "read_along_sessions_leader_id_user_id_fk" FOREIGN KEY ("leader_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "read_along_sessions_active_idx" ON "read_along_sessions" USING btree ("group_id","book_id") WHERE "read_along_sessions"."ended_at" is null;
\ No newline at end of file
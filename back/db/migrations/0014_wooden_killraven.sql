@@ -0,0 +1,15 @@
+ALTER TABLE "books" DROP CONSTRAINT "books_isbn_unique";--> statement-breakpoint
+ALTER TABLE "books" ADD COLUMN "unique_identifier" text;--> statement-breakpoint
+ALTER TABLE "books" ADD COLUMN "content_hash" text;--> statement-breakpoint
+ALTER TABLE "books" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "books" ADD COLUMN "previous_version_id" uuid;--> statement-breakpoint
+-- isbn used to hold the first dc:identifier, whatever it was: keep it as the unique identifier
+-- and only keep values that look like an ISBN-13
+UPDATE "books" SET "unique_identifier" = "isbn" WHERE "isbn" IS NOT NULL;--> statement-breakpoint
+UPDATE "books" SET "isbn" = regexp_replace(regexp_replace("isbn", '^(urn:)?isbn:?', '', 'i'), '[\s-]', '', 'g') WHERE "isbn" IS NOT NULL;--> statement-breakpoint
+UPDATE "books" SET "isbn" = NULL WHERE "isbn" !~ '^97[89][0-9]{10}$';--> statement-breakpoint
+ALTER TABLE "books" ADD CONSTRAINT "books_previous_version_id_books_id_fk" FOREIGN KEY ("previous_version_id") REFERENCES "public"."books"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "books_user_isbn_idx" ON "books" USING btree ("user_id","isbn");--> statement-breakpoint
+CREATE INDEX "books_user_unique_identifier_idx" ON "books" USING btree ("user_id","unique_identifier");--> statement-breakpoint
+CREATE INDEX "books_user_content_hash_idx" ON "books" USING btree ("user_id","content_hash");--> statement-breakpoint
+CREATE INDEX "books_previous_version_id_idx" ON "books" USING btree ("previous_version_id");
\ No newline at end of file
@@ -0,0 +1,24 @@
+ALTER TABLE "assets" ADD COLUMN "asset_type" text DEFAULT 'other' NOT NULL;--> statement-breakpoint
+CREATE INDEX "assets_book_type_idx" ON "assets" USING btree ("book_id","asset_type");--> statement-breakpoint
+-- Assets used to be stored as application/octet-stream: recover their type from the extension
+UPDATE "assets" SET "mime_type" = CASE lower(substring("original_path" from '\.([^./]+)$'))
+  WHEN 'jpg' THEN 'image/jpeg'
+  WHEN 'jpeg' THEN 'image/jpeg'
+  WHEN 'png' THEN 'image/png'
+  WHEN 'gif' THEN 'image/gif'
+  WHEN 'webp' THEN 'image/webp'
+  WHEN 'bmp' THEN 'image/bmp'
+  WHEN 'svg' THEN 'image/svg+xml'
+  WHEN 'ttf' THEN 'font/ttf'
+  WHEN 'otf' THEN 'font/otf'
+  WHEN 'woff' THEN 'font/woff'
+  WHEN 'woff2' THEN 'font/woff2'
+  WHEN 'css' THEN 'text/css'
+  ELSE "mime_type"
+END WHERE "mime_type" = 'application/octet-stream';--> statement-breakpoint
+UPDATE "assets" SET "asset_type" = CASE
+  WHEN "mime_type" LIKE 'image/%' THEN 'image'
+  WHEN "mime_type" LIKE 'font/%' THEN 'font'
+  WHEN "mime_type" = 'text/css' THEN 'stylesheet'
+  ELSE 'other'
+END;
@@ -0,0 +1,43 @@
+CREATE TABLE "blobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"hash" text,
+	"s3_key" text NOT NULL,
+	"size" integer,
+	"ref_count" integer DEFAULT 0 NOT NULL,
+	"last_used_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "blobs_hash_unique" UNIQUE("hash"),
+	CONSTRAINT "blobs_s3_key_unique" UNIQUE("s3_key")
+);
+--> statement-breakpoint
+ALTER TABLE "assets" DROP CONSTRAINT "assets_s3_key_unique";--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN "blob_id" uuid;--> statement-breakpoint
+
+-- Existing objects become unshared blobs (their hash is unknown), reusing the asset ids
+INSERT INTO "blobs" ("id", "s3_key", "size") SELECT "id", "s3_key", "file_size" FROM "assets";--> statement-breakpoint
+UPDATE "assets" SET "blob_id" = "id";--> statement-breakpoint
+ALTER TABLE "assets" ALTER COLUMN "blob_id" SET NOT NULL;--> statement-breakpoint
+
+CREATE INDEX "blobs_unused_idx" ON "blobs" USING btree ("ref_count","last_used_at");--> statement-breakpoint
+ALTER TABLE "assets" ADD CONSTRAINT "assets_blob_id_blobs_id_fk" FOREIGN KEY ("blob_id") REFERENCES "public"."blobs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "assets_blob_id_idx" ON "assets" USING btree ("blob_id");--> statement-breakpoint
+ALTER TABLE "assets" DROP COLUMN "s3_key";--> statement-breakpoint
+
+-- Count the assets pointing at each blob, including rows removed by cascades
+CREATE OR REPLACE FUNCTION update_blob_ref_count()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        UPDATE blobs SET ref_count = ref_count + 1 WHERE id = NEW.blob_id;
+    END IF;
+    IF TG_OP IN ('DELETE', 'UPDATE') THEN
+        UPDATE blobs SET ref_count = ref_count - 1 WHERE id = OLD.blob_id;
+    END IF;
+    RETURN NULL;
+END;
+$$ language 'plpgsql';--> statement-breakpoint
+
+CREATE TRIGGER update_assets_blob_ref_count AFTER INSERT OR DELETE OR UPDATE OF blob_id ON assets
+    FOR EACH ROW EXECUTE FUNCTION update_blob_ref_count();--> statement-breakpoint
+
+UPDATE "blobs" SET "ref_count" = (SELECT count(*) FROM "assets" WHERE "assets"."blob_id" = "blobs"."id");
@@ -1,5 +1,7 @@
-import { relations } from 'drizzle-orm';
-import { boolean, index, integer, pgTable, text, timestamp, uuid } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { type AnyPgColumn, boolean, index, integer, jsonb, pgTable, real, text, timestamp, uniqueIndex, uuid } from 'drizzle-orm/pg-core';
+import type { AnnotationAnchor } from '../epub/anchoring';
+import type { TocEntry } from '../epub/epub.model';
 
 
 export const user = pgTable("user", {
@@ -21,25 +23,40 @@ export const user = pgTable("user", {
  */
 export const books = pgTable('books', {
   id: uuid('id').defaultRandom().primaryKey(),
-  // TODO: Add userId reference once Google OAuth is implemented
-  // userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }), // Owner (uploader)
   
   // Metadata
   title: text('title').notNull(),
   author: text('author'),
   publisher: text('publisher'),
   language: text('language'),
-  isbn: text('isbn').unique(),
+  searchConfig: text('search_config').default('simple').notNull(), // Postgres text search configuration matching the language
+  isbn: text('isbn'), // Validated ISBN-13, if the book has one
+  uniqueIdentifier: text('unique_identifier'), // Normalized package unique-identifier (UUID, URN...)
   description: text('description'),
   coverImagePath: text('cover_image_path'), // S3 key for cover image
   
   // EPUB specific
   epubVersion: text('epub_version'),
+  toc: jsonb('toc').$type<TocEntry[]>(), // Table of contents tree from nav/NCX
+  readingDirection: text('reading_direction').default('ltr').notNull(), // 'ltr' or 'rtl', from page-progression-direction
+  contentHash: text('content_hash'), // SHA-256 of the uploaded file
+  
+  // Versions: re-uploading a book can create a new version that takes over progress and annotations
+  version: integer('version').default(1).notNull(),
+  previousVersionId: uuid('previous_version_id').references((): AnyPgColumn => books.id, { onDelete: 'set null' }),
   
   // Timestamps
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+  deletedAt: timestamp('deleted_at'), // Set while the book is in the trash, purged after the retention period
+}, (table) => [
+  index('books_user_id_idx').on(table.userId),
+  index('books_user_isbn_idx').on(table.userId, table.isbn),
+  index('books_user_unique_identifier_idx').on(table.userId, table.uniqueIdentifier),
+  index('books_user_content_hash_idx').on(table.userId, table.contentHash),
+  index('books_previous_version_id_idx').on(table.previousVersionId),
+]);
 
 /**
  * Chapters Table
@@ -50,25 +67,42 @@ export const chapters = pgTable('chapters', {
   bookId: uuid('book_id').notNull().references(() => books.id, { onDelete: 'cascade' }),
   
   // Chapter metadata
-  chapterNumber: integer('chapter_number').notNull(), // User-facing chapter number
+  chapterNumber: integer('chapter_number'), // User-facing chapter number, null for non-linear items
   spineIndex: integer('spine_index').notNull(), // Order in EPUB spine
   title: text('title'), // Chapter title if available
   href: text('href').notNull(), // Original path in EPUB
+  linear: boolean('linear').default(true).notNull(), // false for spine items with linear="no" (footnotes, covers)
   
   // Content
   htmlContent: text('html_content').notNull(),
   wordCount: integer('word_count'),
   
-  // Full-text search (added via migration)
-  // searchVector will be added as a generated column in migration
+  // Full-text search: search_vector (added via migration) is computed by a trigger
+  // from plainText, using the book's searchConfig
+  plainText: text('plain_text'), // Readable text without markup
   
   // Timestamps
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+/**
+ * Blobs Table
+ * Asset contents stored in S3 once per distinct SHA-256, shared by every book using them.
+ * ref_count is maintained by a trigger on assets (added via migration).
+ */
+export const blobs = pgTable('blobs', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  hash: text('hash').unique(), // SHA-256 of the content, null for assets stored before deduplication
+  s3Key: text('s3_key').notNull().unique(), // S3 object key
+  size: integer('size'), // Size in bytes
+  refCount: integer('ref_count').default(0).notNull(), // Number of assets rows pointing at the blob
+  lastUsedAt: timestamp('last_used_at').defaultNow().notNull(), // Stored or reused by an ingestion; unused blobs are deleted after a grace period
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [index('blobs_unused_idx').on(table.refCount, table.lastUsedAt)]);
+
 /**
  * Assets Table
- * Tracks images, fonts, CSS, and other static files stored in S3
+ * Maps the images, fonts, CSS, and other static files of a book to their blobs
  */
 export const assets = pgTable('assets', {
   id: uuid('id').defaultRandom().primaryKey(),
@@ -76,13 +110,17 @@ export const assets = pgTable('assets', {
   
   // File information
   originalPath: text('original_path').notNull(), // Path in original EPUB
-  s3Key: text('s3_key').notNull().unique(), // S3 object key
-  mimeType: text('mime_type').notNull(),
+  blobId: uuid('blob_id').notNull().references(() => blobs.id), // Stored content, possibly shared with other books
+  mimeType: text('mime_type').notNull(), // Manifest media type, corrected from the file's magic bytes
+  assetType: text('asset_type', { enum: ['image', 'font', 'stylesheet', 'other'] }).default('other').notNull(), // Lets readers preload fonts and CSS or list images
   fileSize: integer('file_size'), // Size in bytes
   
   // Timestamps
   uploadedAt: timestamp('uploaded_at').defaultNow().notNull(),
-});
+}, (table) => [
+  index('assets_book_type_idx').on(table.bookId, table.assetType),
+  index('assets_blob_id_idx').on(table.blobId),
+]);
 
 /**
  * Reading Progress Table
@@ -90,19 +128,19 @@ export const assets = pgTable('assets', {
  */
 export const readingProgress = pgTable('reading_progress', {
   id: uuid('id').defaultRandom().primaryKey(),
-  // TODO: Add userId reference once Google OAuth is implemented
-  // userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
   bookId: uuid('book_id').notNull().references(() => books.id, { onDelete: 'cascade' }),
   chapterId: uuid('chapter_id').notNull().references(() => chapters.id, { onDelete: 'cascade' }),
   
   // Progress tracking
   scrollPosition: integer('scroll_position').default(0), // Scroll position within chapter
+  chapterProgress: real('chapter_progress').default(0).notNull(), // Fraction of the current chapter read (0-1)
   progressPercent: integer('progress_percent').default(0), // Overall book progress (0-100)
   
   // Timestamps
-  lastReadAt: timestamp('last_read_at').defaultNow().notNull(),
+  lastReadAt: timestamp('last_read_at').defaultNow().notNull(), // Client timestamp of the reading, used for last-write-wins
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => [uniqueIndex('reading_progress_user_book_idx').on(table.userId, table.bookId)]);
 
 /**
  * Annotations Table
@@ -110,27 +148,188 @@ export const readingProgress = pgTable('reading_progress', {
  */
 export const annotations = pgTable('annotations', {
   id: uuid('id').defaultRandom().primaryKey(),
-  // TODO: Add userId reference once Google OAuth is implemented
-  // userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  bookId: uuid('book_id').notNull().references(() => books.id, { onDelete: 'cascade' }), // Denormalized for book-wide listing
   chapterId: uuid('chapter_id').notNull().references(() => chapters.id, { onDelete: 'cascade' }),
   
   // Annotation type
-  type: text('type').notNull(), // 'highlight', 'note', 'bookmark'
+  type: text('type', { enum: ['highlight', 'note', 'bookmark'] }).notNull(),
   
   // Position information
   startOffset: integer('start_offset').notNull(),
   endOffset: integer('end_offset').notNull(),
   selectedText: text('selected_text'),
+  anchor: jsonb('anchor').$type<AnnotationAnchor>(), // Text quote + position, used to re-attach the annotation when the chapter changes
+  orphaned: boolean('orphaned').default(false).notNull(), // true when the anchor could not be found in the current chapter
   
   // Content
   noteContent: text('note_content'), // User's note if type is 'note'
   color: text('color'), // Highlight color
   
+  // Sharing
+  visibility: text('visibility', { enum: ['private', 'group', 'public'] }).default('private').notNull(),
+  groupId: uuid('group_id').references(() => readingGroups.id, { onDelete: 'set null' }), // Group the annotation is shared with
+  shareToken: text('share_token').unique(), // Token of the public link, set while visibility is 'public'
+  
+  // Timestamps
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('annotations_user_book_idx').on(table.userId, table.bookId),
+  index('annotations_group_id_idx').on(table.groupId),
+]);
+
+/**
+ * Annotation Replies Table
+ * Discussion thread attached to an annotation
+ */
+export const annotationReplies = pgTable('annotation_replies', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  annotationId: uuid('annotation_id').notNull().references(() => annotations.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  content: text('content').notNull(),
+  
+  // Timestamps
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [index('annotation_replies_annotation_id_idx').on(table.annotationId)]);
+
+/**
+ * Annotation Reactions Table
+ * Emoji reactions of users on annotations
+ */
+export const annotationReactions = pgTable('annotation_reactions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  annotationId: uuid('annotation_id').notNull().references(() => annotations.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  emoji: text('emoji').notNull(),
+  
+  // Timestamps
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [uniqueIndex('annotation_reactions_unique_idx').on(table.annotationId, table.userId, table.emoji)]);
+
+/**
+ * Reading Groups Table
+ * Groups of users reading a shared set of books together
+ */
+export const readingGroups = pgTable('reading_groups', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  name: text('name').notNull(),
+  description: text('description'),
+  
   // Timestamps
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+/**
+ * Group Members Table
+ * Membership and role of each user in a group
+ */
+export const groupMembers = pgTable('group_members', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  groupId: uuid('group_id').notNull().references(() => readingGroups.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  role: text('role', { enum: ['owner', 'moderator', 'reader'] }).notNull(),
+  
+  // Timestamps
+  joinedAt: timestamp('joined_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('group_members_group_user_idx').on(table.groupId, table.userId),
+  index('group_members_user_id_idx').on(table.userId),
+]);
+
+/**
+ * Group Books Table
+ * Books shared into a group, readable by all of its members
+ */
+export const groupBooks = pgTable('group_books', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  groupId: uuid('group_id').notNull().references(() => readingGroups.id, { onDelete: 'cascade' }),
+  bookId: uuid('book_id').notNull().references(() => books.id, { onDelete: 'cascade' }),
+  sharedBy: text('shared_by').references(() => user.id, { onDelete: 'set null' }),
+  
+  // Timestamps
+  sharedAt: timestamp('shared_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('group_books_group_book_idx').on(table.groupId, table.bookId),
+  index('group_books_book_id_idx').on(table.bookId),
+]);
+
+/**
+ * Read-Along Sessions Table
+ * A group reading a book together, following the leader's position
+ */
+export const readAlongSessions = pgTable('read_along_sessions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  groupId: uuid('group_id').notNull().references(() => readingGroups.id, { onDelete: 'cascade' }),
+  bookId: uuid('book_id').notNull().references(() => books.id, { onDelete: 'cascade' }),
+  leaderId: text('leader_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  
+  // Leader's position, same model as reading progress
+  spineIndex: integer('spine_index').default(0).notNull(),
+  scrollPosition: integer('scroll_position').default(0).notNull(),
+  chapterProgress: real('chapter_progress').default(0).notNull(),
+  positionAt: timestamp('position_at').defaultNow().notNull(), // Client timestamp of the position, used for last-write-wins
+  
+  // Timestamps
+  startedAt: timestamp('started_at').defaultNow().notNull(),
+  endedAt: timestamp('ended_at'), // null while the session is running
+}, (table) => [
+  // One running session per group and book
+  uniqueIndex('read_along_sessions_active_idx').on(table.groupId, table.bookId).where(sql`${table.endedAt} is null`),
+]);
+
+/**
+ * Group Invites Table
+ * Invite codes users can redeem to join a group
+ */
+export const groupInvites = pgTable('group_invites', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  groupId: uuid('group_id').notNull().references(() => readingGroups.id, { onDelete: 'cascade' }),
+  code: text('code').notNull().unique(),
+  role: text('role', { enum: ['moderator', 'reader'] }).default('reader').notNull(), // Role granted when joining
+  createdBy: text('created_by').references(() => user.id, { onDelete: 'set null' }),
+  
+  // Limits
+  expiresAt: timestamp('expires_at'), // null for invites that never expire
+  maxUses: integer('max_uses'), // null for unlimited uses
+  uses: integer('uses').default(0).notNull(),
+  
+  // Timestamps
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+/**
+ * Jobs Table
+ * Background work queue (EPUB ingestion...), claimed by workers with SKIP LOCKED
+ */
+export const jobs = pgTable('jobs', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  type: text('type').notNull(), // Handler to run, e.g. 'ingest_epub'
+  userId: text('user_id').references(() => user.id, { onDelete: 'cascade' }), // User who can see the job
+  status: text('status', { enum: ['queued', 'running', 'completed', 'failed'] }).default('queued').notNull(),
+  
+  // Job data
+  payload: jsonb('payload').$type<Record<string, unknown>>().notNull(),
+  progress: jsonb('progress').$type<Record<string, unknown>>(), // Reported by the handler while running
+  result: jsonb('result').$type<Record<string, unknown>>(),
+  error: text('error'), // Last failure message
+  
+  // Scheduling
+  attempts: integer('attempts').default(0).notNull(),
+  maxAttempts: integer('max_attempts').default(3).notNull(),
+  runAt: timestamp('run_at').defaultNow().notNull(), // Not picked up before this time (retry backoff)
+  lockedAt: timestamp('locked_at'), // When a worker claimed it
+  
+  // Timestamps
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  finishedAt: timestamp('finished_at'),
+}, (table) => [
+  index('jobs_status_run_at_idx').on(table.status, table.runAt),
+]);
+
 
 export const session = pgTable(
   "session",
@@ -194,6 +393,11 @@ export const verification = pgTable(
 export const userRelations = relations(user, ({ many }) => ({
   sessions: many(session),
   accounts: many(account),
+  books: many(books),
+  readingProgress: many(readingProgress),
+  annotations: many(annotations),
+  groupMemberships: many(groupMembers),
+  jobs: many(jobs),
 }));
 
 export const sessionRelations = relations(session, ({ one }) => ({
@@ -210,16 +414,139 @@ export const accountRelations = relations(account, ({ one }) => ({
   }),
 }))
 
-export const booksRelations = relations(books, ({ many }) => ({
+export const booksRelations = relations(books, ({ one, many }) => ({
+  user: one(user, {
+    fields: [books.userId],
+    references: [user.id],
+  }),
   chapters: many(chapters),
   assets: many(assets),
+  readingProgress: many(readingProgress),
+  annotations: many(annotations),
+  groups: many(groupBooks),
 }))
 
-export const chaptersRelations = relations(chapters, ({ one }) => ({
+export const chaptersRelations = relations(chapters, ({ one, many }) => ({
   book: one(books, {
     fields: [chapters.bookId],
     references: [books.id],
   }),
+  annotations: many(annotations),
+}))
+
+export const readingProgressRelations = relations(readingProgress, ({ one }) => ({
+  user: one(user, {
+    fields: [readingProgress.userId],
+    references: [user.id],
+  }),
+  book: one(books, {
+    fields: [readingProgress.bookId],
+    references: [books.id],
+  }),
+  chapter: one(chapters, {
+    fields: [readingProgress.chapterId],
+    references: [chapters.id],
+  }),
+}))
+
+export const annotationsRelations = relations(annotations, ({ one, many }) => ({
+  user: one(user, {
+    fields: [annotations.userId],
+    references: [user.id],
+  }),
+  book: one(books, {
+    fields: [annotations.bookId],
+    references: [books.id],
+  }),
+  chapter: one(chapters, {
+    fields: [annotations.chapterId],
+    references: [chapters.id],
+  }),
+  group: one(readingGroups, {
+    fields: [annotations.groupId],
+    references: [readingGroups.id],
+  }),
+  replies: many(annotationReplies),
+  reactions: many(annotationReactions),
+}))
+
+export const annotationRepliesRelations = relations(annotationReplies, ({ one }) => ({
+  annotation: one(annotations, {
+    fields: [annotationReplies.annotationId],
+    references: [annotations.id],
+  }),
+  user: one(user, {
+    fields: [annotationReplies.userId],
+    references: [user.id],
+  }),
+}))
+
+export const annotationReactionsRelations = relations(annotationReactions, ({ one }) => ({
+  annotation: one(annotations, {
+    fields: [annotationReactions.annotationId],
+    references: [annotations.id],
+  }),
+  user: one(user, {
+    fields: [annotationReactions.userId],
+    references: [user.id],
+  }),
+}))
+
+export const readingGroupsRelations = relations(readingGroups, ({ many }) => ({
+  members: many(groupMembers),
+  books: many(groupBooks),
+  invites: many(groupInvites),
+}))
+
+export const groupMembersRelations = relations(groupMembers, ({ one }) => ({
+  group: one(readingGroups, {
+    fields: [groupMembers.groupId],
+    references: [readingGroups.id],
+  }),
+  user: one(user, {
+    fields: [groupMembers.userId],
+    references: [user.id],
+  }),
+}))
+
+export const groupBooksRelations = relations(groupBooks, ({ one }) => ({
+  group: one(readingGroups, {
+    fields: [groupBooks.groupId],
+    references: [readingGroups.id],
+  }),
+  book: one(books, {
+    fields: [groupBooks.bookId],
+    references: [books.id],
+  }),
+}))
+
+export const readAlongSessionsRelations = relations(readAlongSessions, ({ one }) => ({
+  group: one(readingGroups, {
+    fields: [readAlongSessions.groupId],
+    references: [readingGroups.id],
+  }),
+  book: one(books, {
+    fields: [readAlongSessions.bookId],
+    references: [books.id],
+  }),
+  leader: one(user, {
+    fields: [readAlongSessions.leaderId],
+    references: [user.id],
+  }),
+}))
+
+export const groupInvitesRelations = relations(groupInvites, ({ one }) => ({
+  group: one(readingGroups, {
+    fields: [groupInvites.groupId],
+    references: [readingGroups.id],
+  }),
+}))
+
+export const jobsRelations = relations(jobs, ({ one }) => ({
+  user: one(user, {
+    fields: [jobs.userId],
+    references: [user.id],
+  }),
 }))
 
 export const assetsRelations = relations(assets, ({ one }) => ({
@@ -227,6 +554,14 @@ export const assetsRelations = relations(assets, ({ one }) => ({
     fields: [assets.bookId],
     references: [books.id],
   }),
+  blob: one(blobs, {
+    fields: [assets.blobId],
+    references: [blobs.id],
+  }),
+}))
+
+export const blobsRelations = relations(blobs, ({ many }) => ({
+  assets: many(assets),
 }))
 
 
@@ -239,9 +574,26 @@ export type NewChapter = typeof chapters.$inferInsert;
 
 export type Asset = typeof assets.$inferSelect;
 export type NewAsset = typeof assets.$inferInsert;
+export type AssetType = Asset['assetType'];
 
 export type ReadingProgress = typeof readingProgress.$inferSelect;
 export type NewReadingProgress = typeof readingProgress.$inferInsert;
 
 export type Annotation = typeof annotations.$inferSelect;
 export type NewAnnotation = typeof annotations.$inferInsert;
+export type AnnotationVisibility = Annotation['visibility'];
+
+export type AnnotationReply = typeof annotationReplies.$inferSelect;
+
+export type ReadingGroup = typeof readingGroups.$inferSelect;
+export type NewReadingGroup = typeof readingGroups.$inferInsert;
+
+export type GroupMember = typeof groupMembers.$inferSelect;
+export type GroupRole = GroupMember['role'];
+
+export type GroupInvite = typeof groupInvites.$inferSelect;
+
+export type ReadAlongSession = typeof readAlongSessions.$inferSelect;
+
+export type Job = typeof jobs.$inferSelect;
+export type JobStatus = Job['status'];
@@ -0,0 +1,229 @@
+/**
+ * Annotation anchoring
+ * Annotations are stored with W3C-style text-quote and text-position selectors
+ * computed over the chapter's text, so they can be re-attached after the
+ * chapter HTML changes (new sanitizer rules, link rewriting, corrected EPUB...).
+ */
+import { decodeCharacterReferences } from "./sanitizer";
+
+export interface TextQuoteSelector {
+  exact: string;   // Selected text
+  prefix: string;  // Text right before the selection
+  suffix: string;  // Text right after the selection
+}
+
+export interface TextPositionSelector {
+  start: number;   // Offsets into the chapter text (not the HTML)
+  end: number;
+}
+
+export interface AnnotationAnchor {
+  quote: TextQuoteSelector;
+  position: TextPositionSelector;
+}
+
+export interface TextProjection {
+  text: string;
+  starts: number[];  // HTML offset where each text character starts
+  ends: number[];    // HTML offset right after each text character
+}
+
+// Characters of context kept on each side of the selection
+const CONTEXT_LENGTH = 32;
+
+// Elements whose content is not part of the readable text
+const SKIPPED_ELEMENTS = new Set(["head", "script", "style"]);
+
+/**
+ * Find the end of the tag starting at `start`, skipping quoted attribute values
+ */
+const findTagEnd = (html: string, start: number): number => {
+  let quote: string | null = null;
+  for (let i = start + 1; i < html.length; i++) {
+    const char = html[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "\"" || char === "'") {
+      quote = char;
+    } else if (char === ">") {
+      return i + 1;
+    }
+  }
+  return html.length;
+};
+
+/**
+ * Project chapter HTML onto its readable text, keeping the HTML range of every
+ * text character so positions can be mapped back and forth
+ */
+export function projectText(html: string): TextProjection {
+  let text = "";
+  const starts: number[] = [];
+  const ends: number[] = [];
+
+  let i = 0;
+  while (i < html.length) {
+    if (html.startsWith("<!--", i)) {
+      const close = html.indexOf("-->", i + 4);
+      i = close === -1 ? html.length : close + 3;
+      continue;
+    }
+
+    if (html[i] === "<" && /[a-zA-Z/!?]/.test(html[i + 1] ?? "")) {
+      const tagEnd = findTagEnd(html, i);
+      const name = html.slice(i + 1, tagEnd).match(/^[a-zA-Z][\w:-]*/)?.[0]?.toLowerCase();
+      const selfClosing = html[tagEnd - 2] === "/";
+      if (name && SKIPPED_ELEMENTS.has(name) && !selfClosing) {
+        const close = html.toLowerCase().indexOf(`</${name}`, tagEnd);
+        i = close === -1 ? html.length : findTagEnd(html, close);
+      } else {
+        i = tagEnd;
+      }
+      continue;
+    }
+
+    if (html[i] === "&") {
+      const reference = html.slice(i).match(/^&(#x[0-9a-f]+|#\d+|[a-z]+);/i)?.[0];
+      if (reference) {
+        const decoded = reference === "&nbsp;" ? " " : decodeCharacterReferences(reference);
+        // Unknown named references are kept verbatim, one character at a time
+        if (decoded !== reference) {
+          for (const unit of decoded.split("")) {
+            text += unit;
+            starts.push(i);
+            ends.push(i + reference.length);
+          }
+          i += reference.length;
+          continue;
+        }
+      }
+    }
+
+    text += html[i];
+    starts.push(i);
+    ends.push(i + 1);
+    i++;
+  }
+
+  return { text, starts, ends };
+}
+
+/**
+ * Readable text of a chapter with whitespace collapsed, as indexed for search
+ */
+export function extractPlainText(html: string): string {
+  return projectText(html).text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Convert an HTML offset to a text offset: the number of text characters before it
+ */
+export const toTextOffset = (projection: TextProjection, htmlOffset: number): number => {
+  let low = 0;
+  let high = projection.starts.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (projection.starts[mid]! < htmlOffset) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+/**
+ * Convert a text range back to an HTML range
+ */
+const toHtmlRange = (projection: TextProjection, start: number, end: number) => {
+  const length = projection.text.length;
+  const startOffset = start < length ? projection.starts[start]! : length > 0 ? projection.ends[length - 1]! : 0;
+  const endOffset = end > start ? projection.ends[end - 1]! : startOffset;
+  return { startOffset, endOffset };
+};
+
+const buildAnchor = (text: string, start: number, end: number): AnnotationAnchor => ({
+  quote: {
+    exact: text.slice(start, end),
+    prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+    suffix: text.slice(end, end + CONTEXT_LENGTH),
+  },
+  position: { start, end },
+});
+
+/**
+ * Build the anchor of an HTML range of a chapter
+ */
+export function createAnchor(html: string, startOffset: number, endOffset: number): AnnotationAnchor {
+  const projection = projectText(html);
+  const start = toTextOffset(projection, startOffset);
+  const end = Math.max(start, toTextOffset(projection, endOffset));
+  return buildAnchor(projection.text, start, end);
+}
+
+const commonPrefixLength = (a: string, b: string) => {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+};
+
+const commonSuffixLength = (a: string, b: string) => {
+  let i = 0;
+  while (i < a.length && i < b.length && a[a.length - 1 - i] === b[b.length - 1 - i]) i++;
+  return i;
+};
+
+/**
+ * Find every start position of `needle` in `text`
+ */
+const findOccurrences = (text: string, needle: string): number[] => {
+  const positions: number[] = [];
+  let index = text.indexOf(needle);
+  while (index !== -1) {
+    positions.push(index);
+    index = text.indexOf(needle, index + 1);
+  }
+  return positions;
+};
+
+/**
+ * Re-attach an anchor to (possibly changed) chapter HTML.
+ * The quote is searched in the new text; when it occurs several times, the
+ * occurrence whose surrounding text best matches the stored prefix/suffix wins,
+ * then the one closest to the stored position.
+ * Returns null when the quote can no longer be found (orphaned annotation).
+ */
+export function resolveAnchor(anchor: AnnotationAnchor, html: string) {
+  const projection = projectText(html);
+  const { text } = projection;
+  const { exact, prefix, suffix } = anchor.quote;
+
+  // Collapsed anchors (bookmarks) are located by their context alone:
+  // either side may have changed, so look for each of them
+  const candidates = exact
+    ? findOccurrences(text, exact)
+    : prefix || suffix
+      ? [...new Set([
+        ...(prefix ? findOccurrences(text, prefix).map(index => index + prefix.length) : []),
+        ...(suffix ? findOccurrences(text, suffix) : []),
+      ])]
+      : [Math.min(anchor.position.start, text.length)];
+
+  let best: { start: number; score: number; distance: number } | null = null;
+  for (const start of candidates) {
+    const end = start + exact.length;
+    const score = commonSuffixLength(text.slice(Math.max(0, start - prefix.length), start), prefix)
+      + commonPrefixLength(text.slice(end, end + suffix.length), suffix);
+    const distance = Math.abs(start - anchor.position.start);
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { start, score, distance };
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  const end = best.start + exact.length;
+  return {
+    ...toHtmlRange(projection, best.start, end),
+    anchor: buildAnchor(text, best.start, end),
+  };
+}
@@ -0,0 +1,111 @@
+import sharp from "sharp";
+import { minio } from "../s3/s3";
+import type { EpubManifestItem, EpubMetadata, EpubSpineItem } from "./epub.model";
+import { decodeEpubPath, dirname, resolveEpubPath } from "./rewriter";
+
+/**
+ * Book covers
+ * The cover is the manifest item flagged "cover-image" (EPUB 3), the item
+ * named by <meta name="cover"> (EPUB 2), or else the first image of the first
+ * spine document. Resized WebP thumbnails are stored next to the book's assets.
+ */
+
+/** Thumbnail widths, in pixels */
+export const COVER_SIZES = {
+  small: 160,
+  medium: 320,
+  large: 640,
+} as const;
+
+export type CoverSize = keyof typeof COVER_SIZES;
+
+export const isCoverSize = (value: unknown): value is CoverSize =>
+  typeof value === "string" && Object.hasOwn(COVER_SIZES, value);
+
+/**
+ * S3 key of a book's cover thumbnail
+ */
+export const coverThumbnailKey = (bookId: string, size: CoverSize) => `books/${bookId}/covers/${size}.webp`;
+
+const isImage = (item: EpubManifestItem) => item.mediaType?.startsWith("image/") ?? false;
+
+/**
+ * Find the first image referenced by a document (<img src> or SVG <image href>)
+ */
+export function findFirstImageReference(html: string): string | undefined {
+  let reference: string | undefined;
+  const capture = (attribute: string) => ({
+    element(element: HTMLRewriterTypes.Element) {
+      reference ??= element.getAttribute(attribute)?.trim() || undefined;
+    },
+  });
+
+  new HTMLRewriter()
+    .on("img[src]", capture("src"))
+    .on("image[href]", capture("href"))
+    .on("image", capture("xlink:href"))
+    .transform(html);
+  return reference;
+}
+
+/**
+ * Resolve the manifest item of the book's cover image
+ */
+export function findCoverItem(
+  manifest: EpubManifestItem[],
+  metadata: Pick<EpubMetadata, "coverImageId">,
+  spine: EpubSpineItem[],
+  opfBasePath: string,
+  unzippedEpub: Record<string, Uint8Array>
+): EpubManifestItem | undefined {
+  const flagged = manifest.find(item => item.isCoverImage && isImage(item));
+  if (flagged) return flagged;
+
+  const named = metadata.coverImageId ? manifest.find(item => item.id === metadata.coverImageId) : undefined;
+  if (named && isImage(named)) return named;
+
+  // Books without cover metadata usually open on a page showing the cover
+  const firstDocument = spine[0] && manifest.find(item => item.id === spine[0]!.idref);
+  if (!firstDocument) return undefined;
+  const prefix = opfBasePath ? `${opfBasePath}/` : "";
+  const content = unzippedEpub[`${prefix}${firstDocument.href}`];
+  if (!content) return undefined;
+
+  const reference = findFirstImageReference(new TextDecoder().decode(content));
+  if (!reference || /^[a-z][a-z0-9+.-]*:/i.test(reference)) return undefined;
+  // Manifest hrefs are decoded: decode the reference too
+  const imagePath = resolveEpubPath(dirname(`${prefix}${firstDocument.href}`), decodeEpubPath(reference.split(/[?#]/)[0]!));
+  if (!imagePath) return undefined;
+  return manifest.find(item => isImage(item) && `${prefix}${item.href}` === imagePath);
+}
+
+/**
+ * Resize a cover image into a WebP thumbnail of the given width (never enlarged)
+ */
+export async function resizeCover(image: Uint8Array, width: number): Promise<Uint8Array> {
+  const thumbnail = await sharp(image)
+    .rotate()
+    .resize({ width, withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+  return new Uint8Array(thumbnail);
+}
+
+/**
+ * Read a book's cover from S3 and store its thumbnails.
+ * Returns the keys written; a cover that can't be decoded gets no thumbnails.
+ */
+export async function createCoverThumbnails(bookId: string, coverKey: string): Promise<string[]> {
+  const written: string[] = [];
+  try {
+    const image = await minio.file(coverKey).bytes();
+    for (const [size, width] of Object.entries(COVER_SIZES) as Array<[CoverSize, number]>) {
+      const key = coverThumbnailKey(bookId, size);
+      await minio.write(key, await resizeCover(image, width), { type: "image/webp" });
+      written.push(key);
+    }
+  } catch (error) {
+    console.error(`Failed to create cover thumbnails for book ${bookId}:`, error);
+  }
+  return written;
+}
@@ -137,13 +137,25 @@ export interface OpfPackage {
 // Parsed/Normalized Types (for application use)
 // ============================================================================
 
+export type IdentifierScheme = "isbn" | "uuid" | "doi" | "uri" | "other" | (string & {});
+
+export interface EpubIdentifier {
+  id?: string;                     // XML id of the dc:identifier element
+  scheme: IdentifierScheme;
+  value: string;                   // Normalized (ISBN-13, lowercase UUID...)
+  raw: string;                     // As written in the OPF
+  isUnique: boolean;               // Referenced by the package's unique-identifier
+}
+
 export interface EpubMetadata {
   title: string;
   author?: string;
   authors?: string[];              // Multiple authors
   publisher?: string;
   language?: string;
-  isbn?: string;
+  isbn?: string;                   // First valid ISBN, as ISBN-13
+  identifiers: EpubIdentifier[];
+  uniqueIdentifier?: string;       // Normalized value of the package's unique identifier
   description?: string;
   subject?: string[];              // Tags/categories
   date?: string;                   // Publication date
@@ -166,6 +178,8 @@ export interface EpubSpineItem {
   linear: boolean;                 // Reading order
 }
 
+export type ReadingDirection = 'ltr' | 'rtl';
+
 export interface EpubAssetType {
   type: 'image' | 'font' | 'stylesheet' | 'other';
   extensions: string[];
@@ -182,16 +196,28 @@ export interface ParsedEpub {
   spine: EpubSpineItem[];
   opfPath: string;                 // Path to OPF file in EPUB
   opfBasePath: string;             // Directory containing OPF file
-  coverItem?: EpubManifestItem;    // Cover image manifest item
+  coverItem?: EpubManifestItem;    // Cover image manifest item (see epub/cover)
   navigationItem?: EpubManifestItem; // Navigation document (EPUB 3)
   ncxItem?: EpubManifestItem;      // NCX file (EPUB 2)
+  readingDirection: ReadingDirection; // Resolved page progression direction
+}
+
+/**
+ * Table of contents entry, from the EPUB 3 nav document or the EPUB 2 NCX
+ */
+export interface TocEntry {
+  label: string;
+  href: string;                    // Target document, relative to the OPF directory
+  fragment?: string;               // Anchor within the target document (without "#")
+  spineIndex?: number;             // Spine index of the target document, if it is in the spine
+  children: TocEntry[];
 }
 
 /**
  * Parsed chapter data
  */
 export interface ParsedChapter {
-  chapterNumber: number;            // User-facing chapter number (1-based)
+  chapterNumber: number | null;     // User-facing chapter number (1-based), null for non-linear items
   spineIndex: number;              // Order in EPUB spine (0-based)
   title?: string;                  // Chapter title from <title> tag
   href: string;                    // Original href from EPUB manifest
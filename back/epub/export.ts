@@ -0,0 +1,312 @@
+import * as fflate from "fflate";
+import type { Book, Chapter } from "../db";
+import { projectText, toTextOffset } from "./anchoring";
+import type { TocEntry } from "./epub.model";
+import { restoreChapterLinks } from "./rewriter";
+
+/**
+ * EPUB export
+ * Rebuilds an EPUB 3 archive from the stored chapters and assets: chapter
+ * links are pointed back at the archive's files, and a new package document
+ * and navigation document are generated from the book's metadata and TOC.
+ * The user's highlights can be embedded as <mark> elements and their notes
+ * as EPUB 3 footnotes.
+ */
+
+const OPF_DIR = "OEBPS";
+const EPUB_NAMESPACE = "http://www.idpf.org/2007/ops";
+
+export interface ExportedAnnotation {
+  id: string;
+  type: "highlight" | "note" | "bookmark";
+  startOffset: number;  // HTML offsets into the chapter
+  endOffset: number;
+  color: string | null;
+  noteContent: string | null;
+}
+
+export interface ExportedChapter extends Pick<Chapter, "spineIndex" | "href" | "linear" | "title" | "htmlContent"> {
+  annotations?: ExportedAnnotation[];
+}
+
+export interface ExportedAsset {
+  originalPath: string;  // Path relative to the OPF
+  mimeType: string;
+  read: () => Promise<Uint8Array>;  // Called when the entry is written, one asset at a time
+  isCover?: boolean;
+}
+
+export type ExportedBook = Pick<Book,
+  "id" | "title" | "author" | "publisher" | "language" | "description" | "isbn" | "uniqueIdentifier" | "readingDirection" | "toc" | "updatedAt">;
+
+export const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+
+const encodeHref = (path: string) => encodeURI(path).replace(/#/g, "%23");
+
+interface Insertion {
+  offset: number;
+  order: number;  // At the same offset: closing tags, then note references, then opening tags
+  markup: string;
+}
+
+/**
+ * Split a text range into runs of characters with no markup in between
+ * (whitespace-only runs, e.g. between paragraphs, are skipped)
+ */
+const textRuns = (projection: ReturnType<typeof projectText>, start: number, end: number) => {
+  const runs: Array<{ start: number; end: number }> = [];
+  let runStart = start;
+  for (let i = start; i < end; i++) {
+    if (i + 1 === end || projection.ends[i] !== projection.starts[i + 1]) {
+      if (projection.text.slice(runStart, i + 1).trim()) {
+        runs.push({ start: runStart, end: i + 1 });
+      }
+      runStart = i + 1;
+    }
+  }
+  return runs;
+};
+
+/**
+ * Embed annotations in chapter HTML: highlighted text is wrapped in <mark>
+ * elements (one per text run, so the markup stays well-formed even across
+ * paragraphs or overlapping highlights) and notes become footnotes
+ */
+export function embedAnnotations(html: string, annotations: ExportedAnnotation[]): string {
+  const projection = projectText(html);
+  const ranges = annotations
+    .filter(annotation => annotation.type !== "bookmark")
+    .map(annotation => ({
+      annotation,
+      start: toTextOffset(projection, annotation.startOffset),
+      end: Math.min(toTextOffset(projection, annotation.endOffset), projection.text.length),
+    }));
+  const insertions: Insertion[] = [];
+
+  // Elementary intervals between every range boundary, each marked by the annotations covering it
+  const boundaries = [...new Set(ranges.flatMap(range => [range.start, range.end]))].sort((a, b) => a - b);
+  for (let i = 0; i + 1 < boundaries.length; i++) {
+    const start = boundaries[i]!;
+    const end = boundaries[i + 1]!;
+    const covering = ranges.filter(range => range.start <= start && range.end >= end && range.end > range.start);
+    if (covering.length === 0) continue;
+
+    const color = covering.findLast(range => range.annotation.color)?.annotation.color;
+    const ids = covering.map(range => range.annotation.id).join(" ");
+    const style = color ? ` style="background-color: ${escapeXml(color)}"` : "";
+    for (const run of textRuns(projection, start, end)) {
+      insertions.push({ offset: projection.starts[run.start]!, order: 2, markup: `<mark class="annotation" data-annotation-ids="${ids}"${style}>` });
+      insertions.push({ offset: projection.ends[run.end - 1]!, order: 0, markup: "</mark>" });
+    }
+  }
+
+  const notes = ranges.filter(range => range.annotation.noteContent?.trim());
+  for (const [index, { annotation, end }] of notes.entries()) {
+    const offset = end > 0 ? projection.ends[end - 1]! : projection.starts[0] ?? 0;
+    insertions.push({
+      offset,
+      order: 1,
+      markup: `<a epub:type="noteref" id="annotation-ref-${annotation.id}" href="#annotation-note-${annotation.id}"><sup>${index + 1}</sup></a>`,
+    });
+  }
+
+  let result = html;
+  insertions.sort((a, b) => b.offset - a.offset || b.order - a.order);
+  for (const insertion of insertions) {
+    result = result.slice(0, insertion.offset) + insertion.markup + result.slice(insertion.offset);
+  }
+  if (notes.length === 0) return result;
+
+  const asides = notes.map(({ annotation }, index) => `<aside epub:type="footnote" id="annotation-note-${annotation.id}">`
+    + `<p><a href="#annotation-ref-${annotation.id}">${index + 1}</a>. ${escapeXml(annotation.noteContent!.trim())}</p></aside>`);
+  const bodyEnd = result.toLowerCase().lastIndexOf("</body>");
+  result = bodyEnd === -1 ? result + asides.join("\n") : `${result.slice(0, bodyEnd)}${asides.join("\n")}\n${result.slice(bodyEnd)}`;
+
+  // epub:type needs the namespace declared on the root element
+  if (!result.includes(`xmlns:epub=`)) {
+    result = result.replace(/<html\b/i, `<html xmlns:epub="${EPUB_NAMESPACE}"`);
+  }
+  return result;
+}
+
+/**
+ * Pick a path no other file of the archive uses
+ */
+const uniquePath = (name: string, taken: Set<string>) => {
+  let path = name;
+  for (let i = 1; taken.has(path); i++) {
+    path = name.replace(/(\.[^.]+)$/, `-${i}$1`);
+  }
+  return path;
+};
+
+const renderTocList = (entries: TocEntry[]): string => `<ol>\n${entries.map(entry => {
+  const href = `${encodeHref(entry.href)}${entry.fragment ? `#${entry.fragment}` : ""}`;
+  const children = entry.children.length > 0 ? `\n${renderTocList(entry.children)}` : "";
+  return `<li><a href="${escapeXml(href)}">${escapeXml(entry.label)}</a>${children}</li>`;
+}).join("\n")}\n</ol>`;
+
+/**
+ * Generate the navigation document, from the book's TOC or else its chapters
+ */
+export function buildNavDocument(book: Pick<ExportedBook, "title" | "language" | "toc">, chapters: ExportedChapter[]): string {
+  const toc: TocEntry[] = book.toc?.length
+    ? book.toc
+    : chapters
+      .filter(chapter => chapter.linear)
+      .map(chapter => ({ label: chapter.title || `Chapter ${chapter.spineIndex + 1}`, href: chapter.href, spineIndex: chapter.spineIndex, children: [] }));
+  const language = escapeXml(book.language || "und");
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="${EPUB_NAMESPACE}" xml:lang="${language}" lang="${language}">
+<head>
+<title>${escapeXml(book.title)}</title>
+</head>
+<body>
+<nav epub:type="toc" id="toc">
+<h1>${escapeXml(book.title)}</h1>
+${renderTocList(toc.length > 0 ? toc : chapters.slice(0, 1).map(chapter => ({ label: book.title, href: chapter.href, children: [] })))}
+</nav>
+</body>
+</html>
+`;
+}
+
+/**
+ * Generate the package document
+ */
+export function buildPackageDocument(
+  book: ExportedBook,
+  chapters: Array<ExportedChapter & { id: string; properties: string[] }>,
+  assets: Array<ExportedAsset & { id: string }>,
+  navHref: string
+): string {
+  const identifier = book.uniqueIdentifier ?? (book.isbn ? `urn:isbn:${book.isbn}` : `urn:uuid:${book.id}`);
+  const modified = book.updatedAt.toISOString().replace(/\.\d{3}Z$/, "Z");
+  const cover = assets.find(asset => asset.isCover);
+  const ncx = assets.find(asset => asset.mimeType === "application/x-dtbncx+xml");
+
+  const metadata = [
+    `<dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>`,
+    `<dc:title>${escapeXml(book.title)}</dc:title>`,
+    `<dc:language>${escapeXml(book.language || "und")}</dc:language>`,
+    book.author ? `<dc:creator>${escapeXml(book.author)}</dc:creator>` : null,
+    book.publisher ? `<dc:publisher>${escapeXml(book.publisher)}</dc:publisher>` : null,
+    book.description ? `<dc:description>${escapeXml(book.description)}</dc:description>` : null,
+    book.isbn && book.isbn !== book.uniqueIdentifier ? `<dc:identifier>urn:isbn:${escapeXml(book.isbn)}</dc:identifier>` : null,
+    `<meta property="dcterms:modified">${modified}</meta>`,
+    // EPUB 2 reading systems look for the cover here
+    cover ? `<meta name="cover" content="${cover.id}"/>` : null,
+  ].filter(Boolean);
+
+  const items = [
+    `<item id="nav" href="${escapeXml(encodeHref(navHref))}" media-type="application/xhtml+xml" properties="nav"/>`,
+    ...chapters.map(chapter => {
+      const properties = chapter.properties.length > 0 ? ` properties="${chapter.properties.join(" ")}"` : "";
+      return `<item id="${chapter.id}" href="${escapeXml(encodeHref(chapter.href))}" media-type="application/xhtml+xml"${properties}/>`;
+    }),
+    ...assets.map(asset => {
+      const properties = asset.isCover ? ` properties="cover-image"` : "";
+      return `<item id="${asset.id}" href="${escapeXml(encodeHref(asset.originalPath))}" media-type="${escapeXml(asset.mimeType)}"${properties}/>`;
+    }),
+  ];
+
+  const spineAttributes = [
+    ncx ? `toc="${ncx.id}"` : null,
+    book.readingDirection === "rtl" ? `page-progression-direction="rtl"` : null,
+  ].filter(Boolean).map(attribute => ` ${attribute}`).join("");
+  const itemrefs = chapters.map(chapter => `<itemref idref="${chapter.id}"${chapter.linear ? "" : ` linear="no"`}/>`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(book.language || "und")}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+${metadata.join("\n")}
+</metadata>
+<manifest>
+${items.join("\n")}
+</manifest>
+<spine${spineAttributes}>
+${itemrefs.join("\n")}
+</spine>
+</package>
+`;
+}
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="${OPF_DIR}/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`;
+
+// Already compressed formats gain nothing from deflate
+const isCompressed = (mimeType: string) => /^(image\/(jpeg|png|gif|webp)|font\/woff2?|audio\/|video\/)/.test(mimeType);
+
+interface ArchiveEntry {
+  path: string;
+  level: 0 | 6;
+  read: () => Uint8Array | Promise<Uint8Array>;
+}
+
+/**
+ * Package a book into an EPUB archive. The mimetype entry comes first and is
+ * stored uncompressed, as the OCF container format requires. The archive is
+ * streamed: the next entry is only read and compressed once the previous
+ * one was consumed.
+ */
+export function buildEpub(book: ExportedBook, chapters: ExportedChapter[], assets: ExportedAsset[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const orderedChapters = [...chapters].sort((a, b) => a.spineIndex - b.spineIndex);
+  const hrefBySpineIndex = new Map(orderedChapters.map(chapter => [chapter.spineIndex, chapter.href]));
+  const navHref = uniquePath("nav.xhtml", new Set([...orderedChapters.map(chapter => chapter.href), ...assets.map(asset => asset.originalPath)]));
+
+  const packagedChapters = orderedChapters.map((chapter, index) => {
+    // Annotation offsets point into the stored HTML: embed them before restoring links
+    const annotated = chapter.annotations?.length ? embedAnnotations(chapter.htmlContent, chapter.annotations) : chapter.htmlContent;
+    const html = restoreChapterLinks(annotated, { bookId: book.id, chapterHref: chapter.href, hrefBySpineIndex });
+    const properties = /<svg[\s>]/i.test(html) ? ["svg"] : [];
+    return { ...chapter, id: `chapter-${index + 1}`, properties, htmlContent: html };
+  });
+  const packagedAssets = assets.map((asset, index) => ({ ...asset, id: `asset-${index + 1}` }));
+
+  const text = (path: string, content: string, level: 0 | 6 = 6): ArchiveEntry => ({ path, level, read: () => encoder.encode(content) });
+  const entries: ArchiveEntry[] = [
+    text("mimetype", "application/epub+zip", 0),
+    text("META-INF/container.xml", CONTAINER_XML),
+    text(`${OPF_DIR}/content.opf`, buildPackageDocument(book, packagedChapters, packagedAssets, navHref)),
+    text(`${OPF_DIR}/${navHref}`, buildNavDocument(book, orderedChapters)),
+    ...packagedChapters.map(chapter => text(`${OPF_DIR}/${chapter.href}`, chapter.htmlContent)),
+    ...packagedAssets.map((asset): ArchiveEntry => ({
+      path: `${OPF_DIR}/${asset.originalPath}`,
+      level: isCompressed(asset.mimeType) ? 0 : 6,
+      read: asset.read,
+    })),
+  ];
+
+  let zip: fflate.Zip;
+  let next = 0;
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      zip = new fflate.Zip((error, chunk, final) => {
+        if (error) return controller.error(error);
+        controller.enqueue(chunk);
+        if (final) controller.close();
+      });
+    },
+    async pull() {
+      const entry = entries[next++];
+      if (!entry) return zip.end();
+
+      const data = await entry.read();
+      const file = entry.level === 0 ? new fflate.ZipPassThrough(entry.path) : new fflate.ZipDeflate(entry.path, { level: entry.level });
+      zip.add(file);
+      file.push(data, true);
+    },
+    cancel() {
+      zip.terminate();
+    },
+  });
+}
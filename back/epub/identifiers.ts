@@ -0,0 +1,135 @@
+import type { EpubIdentifier, IdentifierScheme } from "./epub.model";
+
+/**
+ * Book identifiers
+ * dc:identifier holds anything from ISBNs to UUIDs and publisher ids. The
+ * scheme is read from opf:scheme (EPUB 2), identifier-type refinements
+ * (EPUB 3, ONIX code list 5) or the value itself ("urn:isbn:...").
+ */
+
+// ONIX code list 5 values used by identifier-type refinements
+const ONIX_IDENTIFIER_TYPES: Record<string, IdentifierScheme> = {
+  "02": "isbn",
+  "06": "doi",
+  "15": "isbn",
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Check an ISBN-10 (digits and a final check character, no separators)
+ */
+export function isValidIsbn10(isbn: string): boolean {
+  if (!/^\d{9}[\dX]$/.test(isbn)) return false;
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const digit = isbn[i] === "X" ? 10 : Number(isbn[i]);
+    sum += digit * (10 - i);
+  }
+  return sum % 11 === 0;
+}
+
+/**
+ * Check an ISBN-13 (13 digits, no separators)
+ */
+export function isValidIsbn13(isbn: string): boolean {
+  if (!/^97[89]\d{10}$/.test(isbn)) return false;
+  let sum = 0;
+  for (let i = 0; i < 13; i++) {
+    sum += Number(isbn[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Normalize a valid ISBN-10 or ISBN-13 to ISBN-13, or return null.
+ * Accepts "urn:isbn:" / "ISBN" prefixes, hyphens and spaces.
+ */
+export function normalizeIsbn(value: string): string | null {
+  const isbn = value
+    .trim()
+    .replace(/^(urn:)?isbn[:\s]*/i, "")
+    .replace(/[\s-]/g, "")
+    .toUpperCase();
+
+  if (isValidIsbn13(isbn)) return isbn;
+  if (!isValidIsbn10(isbn)) return null;
+
+  const withoutCheck = `978${isbn.slice(0, 9)}`;
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(withoutCheck[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return `${withoutCheck}${(10 - (sum % 10)) % 10}`;
+}
+
+/**
+ * Work out an identifier's scheme and normalized value
+ * (ISBN-13 for ISBNs, lowercase UUIDs and DOIs, trimmed otherwise)
+ */
+export function parseIdentifier(raw: string, declaredScheme?: string): { scheme: IdentifierScheme; value: string } {
+  const value = raw.trim();
+  const declared = declaredScheme?.trim().toLowerCase();
+
+  const isbn = normalizeIsbn(value);
+  if (isbn && (declared === "isbn" || /^(urn:)?isbn/i.test(value) || !declared)) {
+    return { scheme: "isbn", value: isbn };
+  }
+
+  const uuid = value.replace(/^urn:uuid:/i, "");
+  if (declared === "uuid" || UUID_PATTERN.test(uuid)) {
+    return { scheme: "uuid", value: uuid.toLowerCase() };
+  }
+
+  const doi = value.match(/^(?:urn:)?(?:doi:|https?:\/\/(?:dx\.)?doi\.org\/)?(10\.\d{4,}\/\S+)$/i);
+  if (doi && (declared === "doi" || doi[0] !== doi[1] || !declared)) {
+    return { scheme: "doi", value: doi[1]!.toLowerCase() };
+  }
+
+  if (/^[a-z][a-z0-9+.-]*:/i.test(value)) {
+    return { scheme: "uri", value };
+  }
+  return { scheme: "other", value };
+}
+
+const getText = (element: any): string | undefined => {
+  if (typeof element === "string") return element;
+  if (typeof element === "number") return String(element);
+  return element?._text ?? element?._;
+};
+
+/**
+ * Read every dc:identifier of the OPF metadata, resolving their schemes.
+ * The identifier referenced by the package's unique-identifier is flagged.
+ */
+export function extractIdentifiers(metadataNode: any, uniqueIdentifierId?: string): EpubIdentifier[] {
+  const nodes = metadataNode?.["dc:identifier"];
+  if (!nodes) return [];
+  const identifierNodes = Array.isArray(nodes) ? nodes : [nodes];
+
+  // EPUB 3: <meta refines="#id" property="identifier-type" scheme="onix:codelist5">15</meta>
+  const metas = metadataNode.meta ? (Array.isArray(metadataNode.meta) ? metadataNode.meta : [metadataNode.meta]) : [];
+  const refinedTypes = new Map<string, string>();
+  for (const meta of metas) {
+    if (meta?.property !== "identifier-type" || typeof meta.refines !== "string") continue;
+    const type = getText(meta);
+    if (!type) continue;
+    const scheme = meta.scheme === "onix:codelist5" ? ONIX_IDENTIFIER_TYPES[type] ?? "other" : type;
+    refinedTypes.set(meta.refines.replace(/^#/, ""), scheme);
+  }
+
+  const identifiers: EpubIdentifier[] = [];
+  for (const node of identifierNodes) {
+    const raw = getText(node)?.trim();
+    if (!raw) continue;
+    const id = typeof node === "object" ? node.id : undefined;
+    const declaredScheme = (typeof node === "object" ? node["opf:scheme"] ?? node.scheme : undefined) ?? (id ? refinedTypes.get(id) : undefined);
+    identifiers.push({
+      ...parseIdentifier(raw, declaredScheme),
+      raw,
+      id,
+      isUnique: !!uniqueIdentifierId && id === uniqueIdentifierId,
+    });
+  }
+  return identifiers;
+}
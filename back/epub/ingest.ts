@@ -0,0 +1,189 @@
+import * as fflate from "fflate";
+import { storeBlob } from "../s3/blobs";
+import { getAssetType, type EpubAssetType } from "./epub.model";
+import { resolveMimeType, sniffMimeType } from "./mime";
+import { getAssetItems, parseEpubDocuments } from "./parser";
+
+/**
+ * Streaming EPUB ingestion
+ * The archive is read chunk by chunk and each entry is inflated as its bytes
+ * arrive. The documents the parser needs (container, OPF, navigation and
+ * content files) are kept in memory; every other entry (images, fonts,
+ * audio...) is stored in S3 as soon as it is decompressed, so the whole
+ * archive is never held in memory at once.
+ */
+
+/** Largest accepted upload, in bytes */
+export const MAX_UPLOAD_SIZE = parseInt(process.env.MAX_UPLOAD_SIZE ?? "") || 50 * 1024 * 1024;
+
+/** Largest accepted total size of the archive's entries once decompressed, in bytes (zip bomb guard) */
+export const MAX_UNCOMPRESSED_SIZE = parseInt(process.env.MAX_UNCOMPRESSED_SIZE ?? "") || 10 * MAX_UPLOAD_SIZE;
+
+// Assets being uploaded at once; reading the archive waits beyond that
+const MAX_PENDING_UPLOADS = 4;
+
+const DOCUMENT_EXTENSIONS = new Set(["xml", "opf", "ncx", "xhtml", "xht", "html", "htm"]);
+
+export class EpubTooLargeError extends Error {}
+
+export interface IngestedAsset {
+  originalPath: string;  // Manifest href, relative to the OPF
+  blobId: string;
+  s3Key: string;         // Key of the blob, possibly shared with other books
+  fileSize: number;
+  mimeType: string;
+  assetType: EpubAssetType["type"];
+}
+
+/**
+ * Check whether an archive entry is read by the parser rather than stored as an asset
+ */
+export const isEpubDocument = (path: string) => {
+  if (path === "mimetype") return true;
+  const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  return DOCUMENT_EXTENSIONS.has(extension);
+};
+
+const concatChunks = (chunks: Uint8Array[]) => {
+  if (chunks.length === 1) return chunks[0]!;
+  const result = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+};
+
+/**
+ * Inflate an EPUB archive as it is read. Documents are returned by path;
+ * other entries are handed to onAsset once complete.
+ * Throws EpubTooLargeError as soon as the entries exceed maxUncompressedSize.
+ */
+export async function streamEpubEntries(
+  stream: ReadableStream<Uint8Array>,
+  onAsset: (path: string, data: Uint8Array) => Promise<void>,
+  maxUncompressedSize: number = MAX_UNCOMPRESSED_SIZE
+): Promise<Record<string, Uint8Array>> {
+  const documents: Record<string, Uint8Array> = {};
+  const pending = new Set<Promise<void>>();
+  let uploadError: unknown = null;
+  let declaredSize = 0;
+  let inflatedSize = 0;
+
+  const tooLarge = () => new EpubTooLargeError(`EPUB exceeds the maximum uncompressed size of ${maxUncompressedSize} bytes`);
+
+  const unzip = new fflate.Unzip((entry) => {
+    if (entry.name.endsWith("/")) return;
+
+    // Sizes in local headers can lie, but a declared bomb is refused before inflating it
+    declaredSize += entry.originalSize ?? 0;
+    if (declaredSize > maxUncompressedSize) throw tooLarge();
+
+    const chunks: Uint8Array[] = [];
+    entry.ondata = (error, data, final) => {
+      if (error) throw error;
+      inflatedSize += data.length;
+      if (inflatedSize > maxUncompressedSize) throw tooLarge();
+      chunks.push(data);
+      if (!final) return;
+
+      const content = concatChunks(chunks);
+      if (isEpubDocument(entry.name)) {
+        documents[entry.name] = content;
+        return;
+      }
+      const upload: Promise<void> = onAsset(entry.name, content)
+        .catch(error => { uploadError ??= error; })
+        .finally(() => pending.delete(upload));
+      pending.add(upload);
+    };
+    entry.start();
+  });
+  unzip.register(fflate.UnzipInflate);
+
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      unzip.push(value ?? new Uint8Array(0), done);
+      if (done) break;
+
+      // Don't read faster than S3 takes the assets
+      while (pending.size >= MAX_PENDING_UPLOADS) {
+        await Promise.race(pending);
+      }
+      if (uploadError) throw uploadError;
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => {});
+    await Promise.all(pending);
+    throw error;
+  }
+
+  await Promise.all(pending);
+  if (uploadError) throw uploadError;
+  return documents;
+}
+
+/**
+ * SHA-256 of a file, read as a stream
+ */
+export async function hashStream(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const hasher = new Bun.CryptoHasher("sha256");
+  for await (const chunk of stream) {
+    hasher.update(chunk);
+  }
+  return hasher.digest("hex");
+}
+
+export interface IngestOptions {
+  bookId?: string;
+  maxUncompressedSize?: number;
+  /** Called after each archive entry is stored in S3 */
+  onAssetUploaded?: (uploadedCount: number) => void;
+}
+
+/**
+ * Stream an EPUB into S3 and parse it. Asset contents are stored as shared
+ * blobs (see s3/blobs); the ones no book ends up referencing, e.g. entries
+ * outside the manifest or those of a failed ingestion, are deleted once unused
+ * for the grace period.
+ */
+export async function ingestEpub(stream: ReadableStream<Uint8Array>, options: IngestOptions = {}) {
+  const { bookId = crypto.randomUUID(), maxUncompressedSize = MAX_UNCOMPRESSED_SIZE, onAssetUploaded } = options;
+  const uploaded = new Map<string, { blobId: string; s3Key: string; fileSize: number; sniffedType?: string }>();
+  const upload = async (path: string, data: Uint8Array) => {
+    // Entries are stored before the manifest is read: its media types are applied to the rows
+    const sniffedType = sniffMimeType(data);
+    const blob = await storeBlob(data, resolveMimeType({ sniffed: sniffedType, path }));
+    uploaded.set(path, { blobId: blob.id, s3Key: blob.s3Key, fileSize: data.byteLength, sniffedType });
+    onAssetUploaded?.(uploaded.size);
+  };
+
+  const documents = await streamEpubEntries(stream, upload, maxUncompressedSize);
+  const parsed = await parseEpubDocuments(documents, bookId);
+
+  const assets: IngestedAsset[] = [];
+  for (const { href, path, mediaType } of getAssetItems(parsed.parsedEpub.manifest, parsed.parsedEpub.opfBasePath)) {
+    // Manifest items that look like documents (e.g. XML metadata) were kept in memory
+    const document = documents[path];
+    if (!uploaded.has(path) && document) {
+      await upload(path, document);
+    }
+    const object = uploaded.get(path);
+    if (!object) {
+      console.warn(`Asset file not found: ${path}`);
+      continue;
+    }
+    const { sniffedType, ...stored } = object;
+    const mimeType = resolveMimeType({ sniffed: sniffedType, declared: mediaType, path });
+    assets.push({ originalPath: href, ...stored, mimeType, assetType: getAssetType(mimeType, href) });
+  }
+
+  const coverHref = parsed.parsedEpub.coverItem?.href;
+  const cover = coverHref ? assets.find(asset => asset.originalPath === coverHref) : undefined;
+
+  console.log(`Ingested ${parsed.chapters.length} chapters and ${assets.length} assets.`);
+  return { ...parsed, newBook: { ...parsed.newBook, coverImagePath: cover?.s3Key }, assets };
+}
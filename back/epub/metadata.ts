@@ -1,13 +1,17 @@
 import { XMLParser } from "fast-xml-parser";
 import type { NewBook } from "../db/schema";
-import type { DublinCoreElement, EpubContainer, EpubManifestItem, EpubMetadata, EpubSpineItem, OpfPackage, ParsedChapter } from "./epub.model";
+import { extractIdentifiers } from "./identifiers";
+import { decodeEpubPath, resolveEpubPath } from "./rewriter";
+import type { DublinCoreElement, EpubContainer, EpubManifestItem, EpubMetadata, EpubSpineItem, OpfPackage, ParsedChapter, ReadingDirection } from "./epub.model";
 
-// Configure XML parser
+// Configure XML parser: values stay strings, as identifiers such as ISBNs or
+// ONIX codes ("02") and titles such as "1984" must not be read as numbers
 const xmlParser = new XMLParser({
   ignoreAttributes: false,
   attributeNamePrefix: "",
   textNodeName: "_text",
   parseAttributeValue: false,
+  parseTagValue: false,
   trimValues: true,
 });
 
@@ -58,16 +62,19 @@ export function parseOpfFile(unzippedEpub: Record<string, Uint8Array>, opfPath:
 
 /**
  * Create NewBook object from EpubMetadata for database insertion
+ * (the owner is set by the upload route)
  */
-export function createNewBookFromMetadata(metadata: EpubMetadata): NewBook {
+export function createNewBookFromMetadata(metadata: EpubMetadata): Omit<NewBook, "userId"> {
   return {
     title: metadata.title,
     author: metadata.author,
     publisher: metadata.publisher,
     language: metadata.language,
+    searchConfig: getSearchConfig(metadata.language),
     isbn: metadata.isbn,
+    uniqueIdentifier: metadata.uniqueIdentifier,
     description: metadata.description,
-    coverImagePath: undefined, // Will be set after uploading cover to S3
+    coverImagePath: undefined, // Set once the cover is stored in S3 (see epub/ingest)
     epubVersion: metadata.epubVersion,
     createdAt: new Date(),
     updatedAt: new Date(),
@@ -76,8 +83,9 @@ export function createNewBookFromMetadata(metadata: EpubMetadata): NewBook {
  
 /**
  * Extract and normalize metadata from OPF Dublin Core elements
+ * (uniqueIdentifierId is the package's unique-identifier attribute)
  */
-export function extractMetadata(metadataNode: any, epubVersion: string): EpubMetadata {
+export function extractMetadata(metadataNode: any, epubVersion: string, uniqueIdentifierId?: string): EpubMetadata {
   // Helper to extract text from Dublin Core elements
   const getDcText = (element: string | DublinCoreElement | undefined): string | undefined => {
     if (!element) return undefined;
@@ -100,7 +108,10 @@ export function extractMetadata(metadataNode: any, epubVersion: string): EpubMet
   const author = authors[0];
   const publisher = getDcText(dcMetadata["dc:publisher"]);
   const language = getDcText(dcMetadata["dc:language"]);
-  const isbn = getDcText(dcMetadata["dc:identifier"]);
+  const identifiers = extractIdentifiers(dcMetadata, uniqueIdentifierId);
+  const isbn = identifiers.find(identifier => identifier.scheme === "isbn")?.value;
+  // Fall back to the first identifier when the package doesn't reference one
+  const uniqueIdentifier = (identifiers.find(identifier => identifier.isUnique) ?? identifiers[0])?.value;
   const description = getDcText(dcMetadata["dc:description"]);
   const date = getDcText(dcMetadata["dc:date"]);
   const rights = getDcText(dcMetadata["dc:rights"]);
@@ -129,6 +140,8 @@ export function extractMetadata(metadataNode: any, epubVersion: string): EpubMet
     publisher,
     language,
     isbn,
+    identifiers,
+    uniqueIdentifier,
     description,
     subject: subjects.length > 0 ? subjects : undefined,
     date,
@@ -151,9 +164,11 @@ export function extractManifest(manifestNode: any): EpubManifestItem[] {
     const isNavigation = properties.includes("nav");
     const isCoverImage = properties.includes("cover-image");
     
+    // Hrefs are URLs: keep the decoded path, which is also the file's name in the archive
+    const href = typeof item.href === "string" ? decodeEpubPath(item.href) : item.href;
     return {
       id: item.id,
-      href: item.href,
+      href: href ? resolveEpubPath("", href) ?? href : href,
       mediaType: item["media-type"],
       properties,
       isNavigation,
@@ -173,12 +188,48 @@ export function extractSpine(spineNode: any): EpubSpineItem[] {
   }));
 }
 
+// Languages written right-to-left, used when the spine doesn't declare a direction
+const RTL_LANGUAGES = ["ar", "he", "iw", "fa", "ur", "yi", "ps", "sd", "ug", "dv", "ckb"];
+
+/**
+ * Resolve the book's reading direction from the spine's page-progression-direction,
+ * falling back to the book language when it is absent or "default"
+ */
+export function extractReadingDirection(spineNode: any, language?: string): ReadingDirection {
+  const direction = spineNode?.["page-progression-direction"];
+  if (direction === "rtl" || direction === "ltr") {
+    return direction;
+  }
+
+  const primaryLanguage = language?.toLowerCase().split(/[-_]/)[0];
+  return primaryLanguage && RTL_LANGUAGES.includes(primaryLanguage) ? "rtl" : "ltr";
+}
+
+// Postgres text search configurations by primary language subtag
+const SEARCH_CONFIGS: Record<string, string> = {
+  ar: "arabic", hy: "armenian", eu: "basque", ca: "catalan", da: "danish", nl: "dutch",
+  en: "english", fi: "finnish", fr: "french", de: "german", el: "greek", hi: "hindi",
+  hu: "hungarian", id: "indonesian", ga: "irish", it: "italian", lt: "lithuanian",
+  ne: "nepali", no: "norwegian", nb: "norwegian", nn: "norwegian", pt: "portuguese",
+  ro: "romanian", ru: "russian", sr: "serbian", es: "spanish", sv: "swedish",
+  ta: "tamil", tr: "turkish", yi: "yiddish",
+};
+
+/**
+ * Map the book language to the Postgres text search configuration used to
+ * index its chapters. Languages without stemming support use "simple".
+ */
+export function getSearchConfig(language?: string): string {
+  const primaryLanguage = language?.toLowerCase().split(/[-_]/)[0];
+  return (primaryLanguage && SEARCH_CONFIGS[primaryLanguage]) || "simple";
+}
+
 /**
  * Parse chapter HTML content and extract data
  */
 export function parseChapterData(
   htmlContent: string,
-  chapterNumber: number,
+  chapterNumber: number | null,
   spineIndex: number,
   href: string
 ): ParsedChapter {
@@ -216,7 +267,7 @@ export function parseChapterData(
   const words = cleanContent.split(' ').filter(word => word.length > 0);
   const wordCount = words.length;
   
-  console.log(`  Chapter ${chapterNumber}: "${title || 'Untitled'}" (${wordCount} words)`);
+  console.log(`  Chapter ${chapterNumber ?? '(non-linear)'}: "${title || 'Untitled'}" (${wordCount} words)`);
   
   return {
     chapterNumber,
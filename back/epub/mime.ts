@@ -0,0 +1,123 @@
+/**
+ * Asset media types
+ * The manifest declares each item's media type, but packaging tools get it
+ * wrong now and then (a PNG declared as image/jpeg, fonts as
+ * application/octet-stream). Binary formats are recognized by their magic
+ * bytes, which win over the declaration; text formats (CSS, SVG without an
+ * XML prolog...) keep the declared type, or the one of their extension.
+ */
+
+export const DEFAULT_MIME_TYPE = "application/octet-stream";
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  bmp: "image/bmp",
+  svg: "image/svg+xml",
+  ttf: "font/ttf",
+  otf: "font/otf",
+  woff: "font/woff",
+  woff2: "font/woff2",
+  css: "text/css",
+  js: "application/javascript",
+  mp3: "audio/mpeg",
+  m4a: "audio/mp4",
+  ogg: "audio/ogg",
+  mp4: "video/mp4",
+  webm: "video/webm",
+  smil: "application/smil+xml",
+  pls: "application/pls+xml",
+  xml: "application/xml",
+};
+
+const startsWith = (data: Uint8Array, bytes: number[], offset = 0) =>
+  data.length >= offset + bytes.length && bytes.every((byte, index) => data[offset + index] === byte);
+
+const ascii = (text: string) => [...text].map(char => char.charCodeAt(0));
+
+// Magic bytes of the binary formats found in EPUBs
+const SIGNATURES: Array<{ mimeType: string; bytes: number[]; offset?: number }> = [
+  { mimeType: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: "image/gif", bytes: ascii("GIF8") },
+  { mimeType: "image/bmp", bytes: ascii("BM") },
+  { mimeType: "font/woff", bytes: ascii("wOFF") },
+  { mimeType: "font/woff2", bytes: ascii("wOF2") },
+  { mimeType: "font/otf", bytes: ascii("OTTO") },
+  { mimeType: "font/ttf", bytes: [0x00, 0x01, 0x00, 0x00] },
+  { mimeType: "font/ttf", bytes: ascii("true") },
+  { mimeType: "audio/mpeg", bytes: ascii("ID3") },
+  { mimeType: "audio/ogg", bytes: ascii("OggS") },
+  { mimeType: "video/webm", bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+];
+
+/**
+ * Guess the media type of a file from its first bytes
+ */
+export function sniffMimeType(data: Uint8Array): string | undefined {
+  // RIFF containers: WebP images (WAVE audio isn't a core media type)
+  if (startsWith(data, ascii("RIFF")) && startsWith(data, ascii("WEBP"), 8)) return "image/webp";
+  // ISO media: M4A audio or MP4 video
+  if (startsWith(data, ascii("ftyp"), 4)) {
+    return startsWith(data, ascii("M4A"), 8) ? "audio/mp4" : "video/mp4";
+  }
+  return SIGNATURES.find(signature => startsWith(data, signature.bytes, signature.offset))?.mimeType;
+}
+
+/**
+ * Media type of a file from its extension
+ */
+export function getMimeTypeFromPath(path: string): string | undefined {
+  const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  return EXTENSION_MIME_TYPES[extension];
+}
+
+/**
+ * Pick an asset's media type: sniffed, then declared in the manifest, then from its extension
+ */
+export function resolveMimeType(options: { sniffed?: string; declared?: string; path: string }): string {
+  const declared = options.declared?.trim().toLowerCase();
+  return options.sniffed
+    ?? (declared && declared !== DEFAULT_MIME_TYPE ? declared : undefined)
+    ?? getMimeTypeFromPath(options.path)
+    ?? DEFAULT_MIME_TYPE;
+}
+
+// Types served as is from the API's origin: images, fonts, stylesheets and media.
+// Anything else an EPUB declares (HTML, XML, scripts...) could run with the reader's session.
+const INLINE_MIME_TYPES = new Set([
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "image/bmp",
+  "image/svg+xml",
+  "font/ttf",
+  "font/otf",
+  "font/woff",
+  "font/woff2",
+  "text/css",
+  "audio/mpeg",
+  "audio/mp4",
+  "audio/ogg",
+  "video/mp4",
+  "video/webm",
+]);
+
+/**
+ * Response headers serving an uploaded file: types outside the allowlist are
+ * downloaded as opaque bytes, and none is sniffed or may run scripts (SVG)
+ */
+export function getAssetResponseHeaders(mimeType: string): Record<string, string> {
+  const essence = mimeType.split(";")[0]!.trim().toLowerCase();
+  const inline = INLINE_MIME_TYPES.has(essence);
+  return {
+    "Content-Type": inline ? essence : DEFAULT_MIME_TYPE,
+    "X-Content-Type-Options": "nosniff",
+    "Content-Security-Policy": "sandbox; default-src 'none'",
+    ...(inline ? {} : { "Content-Disposition": "attachment" }),
+  };
+}
@@ -1,60 +1,100 @@
 import * as fflate from "fflate";
 import { type NewChapter } from "../db";
+import { extractPlainText } from "./anchoring";
+import { findCoverItem } from "./cover";
 import type { EpubManifestItem, ParsedEpub } from "./epub.model";
 import {
   createNewBookFromMetadata,
   extractManifest,
   extractMetadata,
+  extractReadingDirection,
   extractSpine,
   findOpfPath,
   parseChapterData,
   parseOpfFile
 } from "./metadata";
+import { rewriteChapterLinks } from "./rewriter";
+import { sanitizeChapterHtml } from "./sanitizer";
+import { extractToc, getTocTitles } from "./toc";
 
-export const parseEpub = async (epubFile: ArrayBuffer) => {
+export const parseEpub = async (epubFile: ArrayBuffer, bookId: string = crypto.randomUUID()) => {
   // unzip the epub file to ./temp/epub
   console.log(`Parsing EPUB file at: ${epubFile}`);
   const unzippedEpub = await unzipEpub(epubFile);
   console.log(JSON.stringify(Object.keys(unzippedEpub), null, 2));
+
+  const parsed = await parseEpubDocuments(unzippedEpub, bookId);
+  const assets = parseAssets(unzippedEpub, parsed.parsedEpub.manifest, parsed.parsedEpub.opfBasePath);
   
+  console.log(`Parsed ${parsed.chapters.length} chapters and ${Object.keys(assets).length} assets.`);
+  return { ...parsed, assets };
+}
+
+/**
+ * Parse the book, its chapters and TOC from the archive's documents
+ * (container, OPF, navigation and content files). Assets aren't read.
+ */
+export const parseEpubDocuments = async (unzippedEpub: Record<string, Uint8Array>, bookId: string) => {
   const parsedEpub = await extractEpubInfo(unzippedEpub);
-  const newBook = createNewBookFromMetadata(parsedEpub.metadata);
+  // The book id is chosen up front so chapter links can point at the API routes
+  const newBook = {
+    ...createNewBookFromMetadata(parsedEpub.metadata),
+    id: bookId,
+    readingDirection: parsedEpub.readingDirection,
+  };
 
   
   console.log("NewBook object ready for database insertion:");
   console.log(JSON.stringify(newBook, null, 2));
   
-  const chapters = await parseChapters(parsedEpub.spine, parsedEpub.manifest, parsedEpub.opfBasePath, unzippedEpub);
-  const assets = parseAssets(unzippedEpub, parsedEpub.manifest, parsedEpub.opfBasePath);
-  
-  console.log(`Parsed ${chapters.length} chapters and ${Object.keys(assets).length} assets.`);
-  return { parsedEpub, newBook, chapters, assets };
+  const chapters = await parseChapters(parsedEpub.spine, parsedEpub.manifest, parsedEpub.opfBasePath, unzippedEpub, bookId);
+
+  // TOC labels are usually more accurate than each document's <title>
+  const toc = extractToc(unzippedEpub, parsedEpub, buildSpineIndexMap(parsedEpub.spine, parsedEpub.manifest));
+  newBook.toc = toc;
+  const tocTitles = getTocTitles(toc);
+  for (const chapter of chapters) {
+    chapter.title = tocTitles.get(chapter.spineIndex) ?? chapter.title;
+  }
+
+  return { parsedEpub, newBook, chapters, toc };
+}
+
+const isHtmlMediaType = (mediaType: string | undefined) => {
+  const essence = mediaType?.split(";")[0]!.trim().toLowerCase();
+  return essence === "application/xhtml+xml" || essence === "text/html";
+};
+
+/**
+ * List the manifest items stored as assets, with their path in the archive
+ */
+export const getAssetItems = (manifest: EpubManifestItem[], opfBasePath: string) => {
+  return manifest
+    // Skip HTML content files, whatever the case of their media type
+    .filter(item => !isHtmlMediaType(item.mediaType))
+    .map(item => ({ href: item.href, path: `${opfBasePath ? opfBasePath + "/" : ""}${item.href}`, mediaType: item.mediaType }));
 }
 
 export const parseAssets = (unzippedEpub: Record<string, Uint8Array>, manifest: EpubManifestItem[], opfBasePath: string) => {
   const assets: Record<string, Uint8Array> = {};
   
-  for (const item of manifest) {
-    // Skip HTML content files
-    if (item.mediaType === "application/xhtml+xml" || item.mediaType === "text/html") {
-      continue;
-    }
-    
-    // Construct full file path
-    const assetPath = `${opfBasePath ? opfBasePath + "/" : ""}${item.href}`;
-    const assetData = unzippedEpub[assetPath];
+  for (const { href, path } of getAssetItems(manifest, opfBasePath)) {
+    const assetData = unzippedEpub[path];
     if (assetData) {
-      assets[item.href] = assetData;
+      assets[href] = assetData;
     } else {
-      console.warn(`Asset file not found: ${assetPath}`);
+      console.warn(`Asset file not found: ${path}`);
     }
   }
   
   return assets;
 }
 
-export const parseChapters = async (spineItems: ParsedEpub["spine"], manifest: EpubManifestItem[], opfBasePath: string, unzippedEpub: Record<string, Uint8Array>) => {
+export const parseChapters = async (spineItems: ParsedEpub["spine"], manifest: EpubManifestItem[], opfBasePath: string, unzippedEpub: Record<string, Uint8Array>, bookId: string) => {
   let newChapters: Omit<NewChapter, "bookId">[] = [];
+  const spineIndexByHref = buildSpineIndexMap(spineItems, manifest);
+  // Non-linear items (footnotes, covers...) are kept but don't get a chapter number
+  let linearCount = 0;
   for (const [index, spineItem] of spineItems.entries()) {
     // Look up the manifest item to get the actual file path (href)
     const manifestItem = manifest.find(item => item.id === spineItem.idref);
@@ -71,23 +111,48 @@ export const parseChapters = async (spineItems: ParsedEpub["spine"], manifest: E
       continue;
     }
     console.log("100 first characters of chapter content:", chapterString.slice(0, 100));
-    const chapterData = parseChapterData(chapterString, index + 1, index, manifestItem.href);
+    // Sanitize before anything else reads the markup: chapters are shown to other readers
+    const sanitizedChapter = sanitizeChapterHtml(chapterString);
+    const chapterNumber = spineItem.linear ? ++linearCount : null;
+    const chapterData = parseChapterData(sanitizedChapter, chapterNumber, index, manifestItem.href);
     if (!chapterData) {
       console.warn(`Chapter file not found: ${chapterPath}`);
       continue;
     }
+    const htmlContent = rewriteChapterLinks(chapterData.htmlContent, {
+      bookId,
+      chapterHref: manifestItem.href,
+      opfBasePath,
+      spineIndexByHref,
+    });
     newChapters.push({
       title: chapterData.title,
       wordCount: chapterData.wordCount,
       chapterNumber: chapterData.chapterNumber,
       href: manifestItem.href,
-      htmlContent: chapterData.htmlContent,
+      linear: spineItem.linear,
+      htmlContent,
+      plainText: extractPlainText(htmlContent),
       spineIndex: index,
     });
   }
   return newChapters
 }
 
+/**
+ * Map each spine document's path to its spine index
+ */
+export const buildSpineIndexMap = (spineItems: ParsedEpub["spine"], manifest: EpubManifestItem[]) => {
+  const spineIndexByHref = new Map<string, number>();
+  for (const [index, spineItem] of spineItems.entries()) {
+    const manifestItem = manifest.find(item => item.id === spineItem.idref);
+    if (manifestItem) {
+      spineIndexByHref.set(manifestItem.href, index);
+    }
+  }
+  return spineIndexByHref;
+}
+
 export const extractEpubInfo = async (unzippedEpub: Record<string, Uint8Array>): Promise<ParsedEpub> => {
   // Step 1: Find OPF path from container.xml
   const { opfPath, opfBasePath } = findOpfPath(unzippedEpub);
@@ -97,16 +162,17 @@ export const extractEpubInfo = async (unzippedEpub: Record<string, Uint8Array>):
   const pkg = opf.package;
   
   // Step 3: Extract metadata
-  const metadata = extractMetadata(pkg.metadata, pkg.version);
+  const metadata = extractMetadata(pkg.metadata, pkg.version, pkg["unique-identifier"]);
   
   // Step 4: Extract manifest
   const manifest = extractManifest(pkg.manifest);
   
   // Step 5: Extract spine
   const spine = extractSpine(pkg.spine);
+  const readingDirection = extractReadingDirection(pkg.spine, metadata.language);
   
   // Step 6: Find cover and navigation items
-  const coverItem = manifest.find(item => item.isCoverImage);
+  const coverItem = findCoverItem(manifest, metadata, spine, opfBasePath, unzippedEpub);
   const navigationItem = manifest.find(item => item.isNavigation);
   const ncxItem = manifest.find(item => item.mediaType === "application/x-dtbncx+xml");
   
@@ -119,6 +185,7 @@ export const extractEpubInfo = async (unzippedEpub: Record<string, Uint8Array>):
     coverItem,
     navigationItem,
     ncxItem,
+    readingDirection,
   };
 }
 
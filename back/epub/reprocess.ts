@@ -0,0 +1,45 @@
+import { eq } from "drizzle-orm";
+import { chapters, db, type Transaction } from "../db";
+import { backfillAnnotationAnchors, reanchorChapterAnnotations } from "../annotations/anchors";
+import { extractPlainText } from "./anchoring";
+import { sanitizeChapterHtml } from "./sanitizer";
+
+/**
+ * Chapter reprocessing
+ * Stored chapters are sanitized at ingestion: when the sanitizer changes,
+ * reprocessing runs it again over their HTML. Annotation offsets point into
+ * that HTML, so every content change re-attaches the chapter's annotations.
+ */
+
+/**
+ * Replace a chapter's HTML and re-anchor its annotations. Annotations without
+ * an anchor get one from the current HTML first.
+ */
+export async function replaceChapterContent(tx: Transaction, chapterId: string, htmlContent: string) {
+  await backfillAnnotationAnchors({ chapterId }, tx);
+  await tx.update(chapters)
+    .set({ htmlContent, plainText: extractPlainText(htmlContent) })
+    .where(eq(chapters.id, chapterId));
+  return reanchorChapterAnnotations(chapterId, htmlContent, tx);
+}
+
+/**
+ * Sanitize a book's stored chapters again, updating the ones that change
+ */
+export async function reprocessBookChapters(bookId: string) {
+  const bookChapters = await db.query.chapters.findMany({
+    where: eq(chapters.bookId, bookId),
+    columns: { id: true, htmlContent: true },
+  });
+
+  let updated = 0;
+  let orphaned = 0;
+  for (const chapter of bookChapters) {
+    const htmlContent = sanitizeChapterHtml(chapter.htmlContent);
+    if (htmlContent === chapter.htmlContent) continue;
+    const result = await db.transaction(tx => replaceChapterContent(tx, chapter.id, htmlContent));
+    updated++;
+    orphaned += result.orphaned;
+  }
+  return { bookId, chapters: bookChapters.length, updated, orphanedAnnotations: orphaned };
+}
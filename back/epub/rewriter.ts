@@ -0,0 +1,232 @@
+/**
+ * Chapter HTML link rewriting
+ * Resolves relative references found in EPUB chapters so they keep working
+ * once the chapter is served through the API instead of from the archive.
+ */
+
+export interface LinkRewriteContext {
+  bookId: string;
+  chapterHref: string;                    // Chapter href, relative to the OPF directory
+  opfBasePath: string;                    // Directory containing the OPF file
+  spineIndexByHref: Map<string, number>;  // Spine document path (relative to OPF) -> spine index
+}
+
+// Elements and attributes that point at other files in the EPUB
+const LINK_ATTRIBUTES: Array<{ selector: string; attribute: string }> = [
+  { selector: "a[href]", attribute: "href" },
+  { selector: "link[href]", attribute: "href" },
+  { selector: "img[src]", attribute: "src" },
+  { selector: "image[href]", attribute: "href" },
+  { selector: "image", attribute: "xlink:href" },
+  { selector: "source[src]", attribute: "src" },
+  { selector: "audio[src]", attribute: "src" },
+  { selector: "video[src]", attribute: "src" },
+  { selector: "video[poster]", attribute: "poster" },
+  { selector: "track[src]", attribute: "src" },
+  { selector: "object[data]", attribute: "data" },
+];
+
+/**
+ * Build the API URL an asset is served from
+ */
+export function assetUrl(bookId: string, assetPath: string): string {
+  return `/epub/${bookId}/assets/${encodeURI(assetPath)}`;
+}
+
+/**
+ * Build the reader URL of a spine document, keeping the fragment if any
+ */
+export function chapterUrl(bookId: string, spineIndex: number, fragment = ""): string {
+  return `/epub/${bookId}/chapters/${spineIndex}${fragment}`;
+}
+
+/**
+ * Resolve a path relative to a directory inside the archive.
+ * Returns null when the path climbs above the archive root.
+ */
+export function resolveEpubPath(baseDir: string, relativePath: string): string | null {
+  const segments = baseDir ? baseDir.split("/") : [];
+  for (const segment of relativePath.split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join("/");
+}
+
+/**
+ * Decode a percent-encoded path, keeping it as is if the encoding is invalid.
+ * Manifest hrefs, stored paths and lookups all use decoded paths.
+ */
+export function decodeEpubPath(path: string): string {
+  try {
+    return decodeURI(path);
+  } catch {
+    return path;
+  }
+}
+
+/**
+ * Directory part of a path ("Text/ch1.xhtml" -> "Text")
+ */
+export function dirname(path: string): string {
+  return path.substring(0, path.lastIndexOf("/")) || "";
+}
+
+/**
+ * Rewrite a single reference found in a chapter.
+ * External URLs, same-document fragments and paths outside the OPF
+ * directory are returned unchanged.
+ */
+export function rewriteReference(reference: string, context: LinkRewriteContext, isHyperlink: boolean): string {
+  const trimmed = reference.trim();
+  // Leave absolute URLs (http:, mailto:, data:, ...), protocol-relative and root paths alone
+  if (!trimmed || trimmed.startsWith("#") || trimmed.startsWith("/") || /^[a-z][a-z0-9+.-]*:/i.test(trimmed)) {
+    return reference;
+  }
+
+  const hashIndex = trimmed.indexOf("#");
+  // The query never names a file of the archive
+  const pathPart = (hashIndex >= 0 ? trimmed.substring(0, hashIndex) : trimmed).split("?")[0]!;
+  const fragment = hashIndex >= 0 ? trimmed.substring(hashIndex) : "";
+  const decodedPath = decodeEpubPath(pathPart);
+
+  // Resolve in archive space, then make the result relative to the OPF directory
+  const chapterDir = dirname(context.opfBasePath ? `${context.opfBasePath}/${context.chapterHref}` : context.chapterHref);
+  const archivePath = resolveEpubPath(chapterDir, decodedPath);
+  if (archivePath === null) return reference;
+
+  const prefix = context.opfBasePath ? `${context.opfBasePath}/` : "";
+  if (prefix && !archivePath.startsWith(prefix)) return reference;
+  const opfRelativePath = archivePath.substring(prefix.length);
+
+  const spineIndex = context.spineIndexByHref.get(opfRelativePath);
+  if (spineIndex !== undefined) {
+    if (opfRelativePath === context.chapterHref && fragment) {
+      return fragment;
+    }
+    return chapterUrl(context.bookId, spineIndex, fragment);
+  }
+
+  // Links to documents outside the spine can't be served as chapters
+  if (isHyperlink && /\.x?html?$/i.test(opfRelativePath)) {
+    return reference;
+  }
+
+  return assetUrl(context.bookId, opfRelativePath);
+}
+
+/**
+ * Rewrite url(...) references inside inline CSS
+ */
+export function rewriteCssUrls(css: string, context: LinkRewriteContext): string {
+  return css.replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/gi, (match, quote: string, url: string) => {
+    const rewritten = rewriteReference(url, context, false);
+    return rewritten === url ? match : `url(${quote}${rewritten}${quote})`;
+  });
+}
+
+/**
+ * Rewrite asset references and inter-chapter links in chapter HTML
+ */
+export function rewriteChapterLinks(htmlContent: string, context: LinkRewriteContext): string {
+  let rewriter = new HTMLRewriter();
+
+  for (const { selector, attribute } of LINK_ATTRIBUTES) {
+    rewriter = rewriter.on(selector, {
+      element(element) {
+        const value = element.getAttribute(attribute);
+        if (value === null) return;
+        const rewritten = rewriteReference(value, context, element.tagName === "a");
+        if (rewritten !== value) {
+          element.setAttribute(attribute, rewritten);
+        }
+      },
+    });
+  }
+
+  rewriter = rewriter.on("[style]", {
+    element(element) {
+      const style = element.getAttribute("style");
+      if (style && /url\(/i.test(style)) {
+        element.setAttribute("style", rewriteCssUrls(style, context));
+      }
+    },
+  });
+
+  return rewriter.transform(htmlContent);
+}
+
+export interface LinkRestoreContext {
+  bookId: string;
+  chapterHref: string;                     // Chapter href, relative to the OPF directory
+  hrefBySpineIndex: Map<number, string>;   // Spine index -> document path (relative to OPF)
+}
+
+/**
+ * Path of a file relative to another file's directory ("Text/ch1.xhtml", "Images/a.png" -> "../Images/a.png")
+ */
+export function relativeEpubPath(fromFile: string, toPath: string): string {
+  const from = dirname(fromFile).split("/").filter(Boolean);
+  const to = toPath.split("/");
+  let common = 0;
+  while (common < from.length && common < to.length - 1 && from[common] === to[common]) common++;
+  return [...from.slice(common).map(() => ".."), ...to.slice(common)].join("/");
+}
+
+/**
+ * Turn an API URL written by rewriteReference back into a path relative to the chapter.
+ * Anything else is returned unchanged.
+ */
+export function restoreReference(reference: string, context: LinkRestoreContext): string {
+  const assetPrefix = `/epub/${context.bookId}/assets/`;
+  if (reference.startsWith(assetPrefix)) {
+    const assetPath = decodeEpubPath(reference.substring(assetPrefix.length));
+    return encodeURI(relativeEpubPath(context.chapterHref, assetPath));
+  }
+
+  const chapter = reference.match(/^\/epub\/([^/]+)\/chapters\/(\d+)(#.*)?$/);
+  const targetHref = chapter && chapter[1] === context.bookId ? context.hrefBySpineIndex.get(Number(chapter[2])) : undefined;
+  if (targetHref === undefined) return reference;
+  const fragment = chapter![3] ?? "";
+  return targetHref === context.chapterHref && fragment ? fragment : `${encodeURI(relativeEpubPath(context.chapterHref, targetHref))}${fragment}`;
+}
+
+/**
+ * Undo rewriteChapterLinks: point asset references and chapter links back at
+ * the files of the archive, e.g. to export the book
+ */
+export function restoreChapterLinks(htmlContent: string, context: LinkRestoreContext): string {
+  let rewriter = new HTMLRewriter();
+
+  for (const { selector, attribute } of LINK_ATTRIBUTES) {
+    rewriter = rewriter.on(selector, {
+      element(element) {
+        const value = element.getAttribute(attribute);
+        if (value === null) return;
+        const restored = restoreReference(value, context);
+        if (restored !== value) {
+          element.setAttribute(attribute, restored);
+        }
+      },
+    });
+  }
+
+  rewriter = rewriter.on("[style]", {
+    element(element) {
+      const style = element.getAttribute("style");
+      if (style && /url\(/i.test(style)) {
+        element.setAttribute("style", style.replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/gi, (match, quote: string, url: string) => {
+          const restored = restoreReference(url, context);
+          return restored === url ? match : `url(${quote}${restored}${quote})`;
+        }));
+      }
+    },
+  });
+
+  return rewriter.transform(htmlContent);
+}
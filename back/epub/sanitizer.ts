@@ -0,0 +1,238 @@
+/**
+ * Chapter HTML sanitization
+ * Allowlist-based cleanup of EPUB XHTML before it is stored and shown to
+ * other readers: scripts, event handlers, dangerous URLs and embedded
+ * documents are removed, regular book markup is kept.
+ */
+
+// Elements removed together with their content
+const DROPPED_TAGS = new Set([
+  "script", "noscript", "iframe", "frame", "frameset", "object", "embed", "applet",
+  "form", "input", "button", "select", "option", "textarea", "base", "portal",
+  "foreignobject", "animate", "animatemotion", "animatetransform", "set", "handler", "listener",
+]);
+
+// Elements kept as-is (after attribute filtering); anything else is unwrapped
+const ALLOWED_TAGS = new Set([
+  // Document structure
+  "html", "head", "body", "title", "meta", "link", "style",
+  // Sectioning and blocks
+  "section", "article", "aside", "nav", "header", "footer", "main", "div", "p", "hr", "br",
+  "h1", "h2", "h3", "h4", "h5", "h6", "hgroup", "address", "blockquote", "pre", "center",
+  "figure", "figcaption", "details", "summary",
+  // Lists and tables
+  "ul", "ol", "li", "dl", "dt", "dd",
+  "table", "caption", "colgroup", "col", "thead", "tbody", "tfoot", "tr", "th", "td",
+  // Inline text
+  "a", "span", "em", "strong", "i", "b", "u", "s", "small", "big", "sub", "sup", "mark",
+  "abbr", "cite", "code", "kbd", "samp", "var", "dfn", "q", "del", "ins", "time", "bdi", "bdo",
+  "ruby", "rb", "rt", "rtc", "rp", "wbr", "font", "tt", "strike",
+  // Media
+  "img", "picture", "source", "audio", "video", "track", "map", "area",
+  // SVG (covers and illustrations)
+  "svg", "g", "defs", "symbol", "use", "image", "path", "rect", "circle", "ellipse", "line",
+  "polyline", "polygon", "text", "tspan", "textpath", "desc", "lineargradient",
+  "radialgradient", "stop", "clippath", "mask", "pattern",
+  // MathML
+  "math", "mi", "mn", "mo", "ms", "mtext", "mspace", "mrow", "mfrac", "msqrt", "mroot",
+  "msub", "msup", "msubsup", "munder", "mover", "munderover", "mtable", "mtr", "mtd",
+  "mstyle", "mpadded", "mphantom", "menclose", "semantics", "annotation",
+]);
+
+// Attributes allowed on every element
+const GLOBAL_ATTRIBUTES = new Set([
+  "id", "class", "title", "lang", "xml:lang", "dir", "style", "role", "epub:type",
+  "xmlns", "xml:space", "hidden",
+]);
+
+// Attributes allowed on specific elements
+const TAG_ATTRIBUTES: Record<string, string[]> = {
+  a: ["href", "name", "rel", "hreflang", "type"],
+  link: ["href", "rel", "type", "media"],
+  meta: ["charset", "name", "content"],
+  style: ["type", "media"],
+  img: ["src", "alt", "width", "height", "usemap", "srcset", "sizes"],
+  source: ["src", "type", "srcset", "sizes", "media"],
+  audio: ["src", "controls", "loop", "muted", "preload"],
+  video: ["src", "controls", "loop", "muted", "preload", "poster", "width", "height"],
+  track: ["src", "kind", "srclang", "label", "default"],
+  area: ["href", "alt", "shape", "coords"],
+  map: ["name"],
+  ol: ["start", "reversed", "type"],
+  li: ["value"],
+  col: ["span", "width"],
+  colgroup: ["span", "width"],
+  td: ["colspan", "rowspan", "headers", "align", "valign", "width"],
+  th: ["colspan", "rowspan", "headers", "scope", "align", "valign", "width"],
+  table: ["summary", "width", "border", "cellpadding", "cellspacing", "align"],
+  q: ["cite"],
+  blockquote: ["cite"],
+  del: ["cite", "datetime"],
+  ins: ["cite", "datetime"],
+  time: ["datetime"],
+  font: ["color", "face", "size"],
+  details: ["open"],
+};
+
+// SVG and MathML presentation attributes (allowed on any element of those vocabularies)
+const VECTOR_ATTRIBUTES = new Set([
+  "xmlns:xlink", "viewbox", "preserveaspectratio", "width", "height", "x", "y", "x1", "y1",
+  "x2", "y2", "cx", "cy", "r", "rx", "ry", "d", "points", "transform", "fill", "fill-opacity",
+  "fill-rule", "stroke", "stroke-width", "stroke-opacity", "stroke-linecap", "stroke-linejoin",
+  "opacity", "offset", "stop-color", "stop-opacity", "gradientunits", "gradienttransform",
+  "clip-path", "clippathunits", "mask", "patternunits", "font-family", "font-size",
+  "text-anchor", "dx", "dy", "href", "xlink:href", "version",
+  "display", "mathvariant", "mathsize", "mathcolor", "displaystyle", "encoding",
+]);
+
+// Attributes holding URLs
+const URL_ATTRIBUTES = new Set(["href", "src", "xlink:href", "poster", "cite", "srcset"]);
+
+// Elements whose content is raw text in HTML parsing: a self-closing form would swallow the document
+const RAW_TEXT_SELF_CLOSING = /<(script|style|iframe|title|textarea|noscript|noembed|noframes|xmp)(\s[^>]*?)?\s*\/>/gi;
+
+/**
+ * Decode the character references browsers resolve in attribute values
+ * before they look at a URL's scheme
+ */
+export const decodeCharacterReferences = (value: string): string => {
+  const named: Record<string, string> = { colon: ":", tab: "\t", newline: "\n", amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'" };
+  return value
+    .replace(/&#x([0-9a-f]+);?/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);?/g, (_, decimal: string) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&([a-z]+);/gi, (match, name: string) => named[name.toLowerCase()] ?? match);
+};
+
+/**
+ * Check whether a URL is safe to keep.
+ * Relative URLs, fragments, http(s) and mailto are allowed; data URLs
+ * only for raster images.
+ */
+export function isSafeUrl(url: string): boolean {
+  // Strip characters browsers ignore when parsing the scheme
+  const normalized = decodeCharacterReferences(url).replace(/[\u0000- \u007f-\u009f]/g, "").toLowerCase();
+  const schemeMatch = normalized.match(/^([a-z][a-z0-9+.-]*):/);
+  if (!schemeMatch) {
+    // An unresolved character reference in the first segment could still hide a scheme
+    const firstSegment = normalized.split(/[/?#]/)[0] ?? "";
+    return !normalized.startsWith("//") && !(firstSegment.includes("&") && firstSegment.includes(":"));
+  }
+
+  const scheme = schemeMatch[1];
+  if (scheme === "http" || scheme === "https" || scheme === "mailto") {
+    return true;
+  }
+  return scheme === "data" && /^data:image\/(png|jpe?g|gif|webp|bmp);/.test(normalized);
+}
+
+/**
+ * Remove CSS constructs that can run code or load remote resources
+ */
+export function sanitizeCss(css: string): string {
+  return css
+    .replace(/@import[^;]*;?/gi, "")
+    .replace(/expression\s*\(/gi, "(")
+    .replace(/-moz-binding\s*:[^;]*;?/gi, "")
+    .replace(/behavior\s*:[^;]*;?/gi, "")
+    .replace(/url\(\s*(['"]?)(.*?)\1\s*\)/gi, (match, _quote: string, url: string) => {
+      const trimmed = url.trim();
+      return isSafeUrl(trimmed) && !/^https?:|^mailto:/i.test(trimmed) ? match : "none";
+    });
+}
+
+const isAllowedAttribute = (tagName: string, name: string, isVectorElement: boolean): boolean => {
+  if (GLOBAL_ATTRIBUTES.has(name) || name.startsWith("aria-") || name.startsWith("xmlns:")) {
+    return true;
+  }
+  if (TAG_ATTRIBUTES[tagName]?.includes(name)) {
+    return true;
+  }
+  return isVectorElement && VECTOR_ATTRIBUTES.has(name);
+};
+
+/**
+ * Sanitize chapter HTML against an allowlist suited to EPUB content
+ */
+export function sanitizeChapterHtml(htmlContent: string): string {
+  const expanded = htmlContent.replace(RAW_TEXT_SELF_CLOSING, "<$1$2></$1>");
+  let vectorDepth = 0;
+  let styleBuffer = "";
+
+  return new HTMLRewriter()
+    .on("*", {
+      element(element) {
+        const tagName = element.tagName.toLowerCase();
+
+        if (DROPPED_TAGS.has(tagName)) {
+          element.remove();
+          return;
+        }
+        if (!ALLOWED_TAGS.has(tagName)) {
+          element.removeAndKeepContent();
+          return;
+        }
+        // A <meta http-equiv="refresh"> can redirect the reader
+        if (tagName === "meta" && element.hasAttribute("http-equiv")) {
+          element.remove();
+          return;
+        }
+        if (tagName === "link" && !/stylesheet/i.test(element.getAttribute("rel") ?? "")) {
+          element.remove();
+          return;
+        }
+
+        const isVectorRoot = tagName === "svg" || tagName === "math";
+        const isVectorElement = isVectorRoot || vectorDepth > 0;
+        if (isVectorRoot && !element.selfClosing) {
+          vectorDepth++;
+          element.onEndTag(() => {
+            vectorDepth--;
+          });
+        }
+
+        for (const [rawName, value] of [...element.attributes]) {
+          const name = rawName.toLowerCase();
+          if (!isAllowedAttribute(tagName, name, isVectorElement)) {
+            element.removeAttribute(rawName);
+            continue;
+          }
+          if (name === "style") {
+            element.setAttribute(rawName, sanitizeCss(value));
+          } else if (name === "srcset") {
+            const candidates = value.split(",").map(candidate => candidate.trim().split(/\s+/)[0] ?? "");
+            if (!candidates.every(isSafeUrl)) element.removeAttribute(rawName);
+          } else if (URL_ATTRIBUTES.has(name)) {
+            // <use> may only reference shapes within the same document
+            const unsafe = !isSafeUrl(value) || (tagName === "use" && !value.trim().startsWith("#"));
+            if (unsafe) element.removeAttribute(rawName);
+          }
+        }
+
+        // Remote stylesheets could exfiltrate reading activity
+        if (tagName === "link" && /^(https?:)?\/\//i.test(element.getAttribute("href") ?? "")) {
+          element.remove();
+        }
+      },
+    })
+    .on("style", {
+      // Sanitize the full stylesheet once all of its text chunks have been seen
+      text(chunk) {
+        styleBuffer += chunk.text;
+        if (chunk.lastInTextNode) {
+          chunk.replace(sanitizeCss(styleBuffer));
+          styleBuffer = "";
+        } else {
+          chunk.remove();
+        }
+      },
+    })
+    .onDocument({
+      comments(comment) {
+        // The XML declaration is parsed as a bogus comment: keep it
+        if (!comment.text.startsWith("?xml")) {
+          comment.remove();
+        }
+      },
+    })
+    .transform(expanded);
+}
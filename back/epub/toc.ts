@@ -0,0 +1,213 @@
+import { XMLParser } from "fast-xml-parser";
+import type { ParsedEpub, TocEntry } from "./epub.model";
+import { decodeEpubPath, dirname, resolveEpubPath } from "./rewriter";
+import { decodeCharacterReferences } from "./sanitizer";
+
+// Same configuration as the OPF parser: labels such as "1" or "II" stay strings
+const ncxParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  textNodeName: "_text",
+  parseAttributeValue: false,
+  parseTagValue: false,
+  trimValues: true,
+});
+
+const asArray = <T>(value: T | T[] | undefined): T[] => {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+const normalizeLabel = (label: string) => decodeCharacterReferences(label).replace(/\s+/g, " ").trim();
+
+/**
+ * Build a TOC entry from a link found in a nav or NCX document
+ * whose own path (relative to the OPF directory) is tocHref
+ */
+export function createTocEntry(
+  label: string,
+  link: string,
+  tocHref: string,
+  spineIndexByHref: Map<string, number>
+): TocEntry {
+  const hashIndex = link.indexOf("#");
+  const pathPart = (hashIndex >= 0 ? link.substring(0, hashIndex) : link).split("?")[0]!;
+  const fragment = hashIndex >= 0 ? link.substring(hashIndex + 1) : undefined;
+  const decodedPath = decodeEpubPath(pathPart);
+
+  // An empty path points back at the TOC document itself
+  const href = decodedPath ? resolveEpubPath(dirname(tocHref), decodedPath) ?? decodedPath : tocHref;
+
+  return {
+    label: normalizeLabel(label),
+    href,
+    fragment: fragment || undefined,
+    spineIndex: spineIndexByHref.get(href),
+    children: [],
+  };
+}
+
+/**
+ * Parse an EPUB 2 NCX document into a TOC tree
+ */
+export function parseNcx(ncxXml: string, ncxHref: string, spineIndexByHref: Map<string, number>): TocEntry[] {
+  const ncx = ncxParser.parse(ncxXml) as any;
+
+  const toEntries = (navPoints: any): TocEntry[] =>
+    asArray(navPoints).map((navPoint: any) => {
+      const labelNode = asArray(navPoint.navLabel)[0];
+      const textNode = asArray(labelNode?.text)[0];
+      const label = typeof textNode === "object" ? textNode?._text ?? "" : String(textNode ?? "");
+      const src = asArray(navPoint.content)[0]?.src ?? "";
+
+      const entry = createTocEntry(label, src, ncxHref, spineIndexByHref);
+      entry.children = toEntries(navPoint.navPoint);
+      return entry;
+    });
+
+  return toEntries(ncx?.ncx?.navMap?.navPoint);
+}
+
+/**
+ * Parse an EPUB 3 navigation document into a TOC tree.
+ * Only the <nav epub:type="toc"> (or role="doc-toc") element is read.
+ */
+export function parseNavDocument(navHtml: string, navHref: string, spineIndexByHref: Map<string, number>): TocEntry[] {
+  const root: TocEntry[] = [];
+  const lists: TocEntry[][] = [root];   // Lists new <li> entries are appended to
+  const openItems: TocEntry[] = [];     // <li> elements currently open
+  let inToc = false;
+  let tocSeen = false;
+  let collectingLabel = false;
+  let labels: string[] = [];
+
+  const finishLabel = () => {
+    const current = openItems.at(-1);
+    if (current && collectingLabel) {
+      current.label = normalizeLabel(labels.join(""));
+    }
+    collectingLabel = false;
+    labels = [];
+  };
+
+  new HTMLRewriter()
+    .on("nav", {
+      element(element) {
+        if (tocSeen) return;
+        const types = (element.getAttribute("epub:type") ?? "").split(/\s+/);
+        if (types.includes("toc") || element.getAttribute("role") === "doc-toc") {
+          inToc = true;
+          tocSeen = true;
+          element.onEndTag(() => {
+            inToc = false;
+          });
+        }
+      },
+    })
+    .on("li", {
+      element(element) {
+        if (!inToc) return;
+        finishLabel();
+        // Headings without a link keep an empty href
+        const entry: TocEntry = { label: "", href: "", children: [] };
+        lists.at(-1)!.push(entry);
+        openItems.push(entry);
+        collectingLabel = true;
+        element.onEndTag(() => {
+          finishLabel();
+          openItems.pop();
+        });
+      },
+    })
+    .on("ol", {
+      element(element) {
+        const parent = openItems.at(-1);
+        if (!inToc || !parent) return;
+        // The label of an item ends where its sub-list begins
+        finishLabel();
+        lists.push(parent.children);
+        element.onEndTag(() => {
+          lists.pop();
+        });
+      },
+    })
+    .on("a", {
+      element(element) {
+        const current = openItems.at(-1);
+        const href = element.getAttribute("href");
+        if (!inToc || !current || !collectingLabel || href === null) return;
+        const resolved = createTocEntry("", href, navHref, spineIndexByHref);
+        current.href = resolved.href;
+        current.fragment = resolved.fragment;
+        current.spineIndex = resolved.spineIndex;
+      },
+    })
+    .onDocument({
+      text(chunk) {
+        if (inToc && collectingLabel) {
+          labels.push(chunk.text);
+        }
+      },
+    })
+    .transform(navHtml);
+
+  // Drop items that had neither a label nor children (e.g. empty <li/>)
+  const prune = (entries: TocEntry[]): TocEntry[] =>
+    entries
+      .map(entry => ({ ...entry, children: prune(entry.children) }))
+      .filter(entry => entry.label || entry.children.length > 0);
+
+  return prune(root);
+}
+
+/**
+ * Extract the table of contents, preferring the EPUB 3 nav document over the NCX
+ */
+export function extractToc(
+  unzippedEpub: Record<string, Uint8Array>,
+  parsedEpub: ParsedEpub,
+  spineIndexByHref: Map<string, number>
+): TocEntry[] {
+  const prefix = parsedEpub.opfBasePath ? `${parsedEpub.opfBasePath}/` : "";
+  const readFile = (href: string) => {
+    const data = unzippedEpub[`${prefix}${href}`];
+    return data ? new TextDecoder().decode(data) : undefined;
+  };
+
+  if (parsedEpub.navigationItem) {
+    const navHtml = readFile(parsedEpub.navigationItem.href);
+    if (navHtml) {
+      const toc = parseNavDocument(navHtml, parsedEpub.navigationItem.href, spineIndexByHref);
+      if (toc.length > 0) return toc;
+    } else {
+      console.warn(`Navigation document not found: ${prefix}${parsedEpub.navigationItem.href}`);
+    }
+  }
+
+  if (parsedEpub.ncxItem) {
+    const ncxXml = readFile(parsedEpub.ncxItem.href);
+    if (ncxXml) {
+      return parseNcx(ncxXml, parsedEpub.ncxItem.href, spineIndexByHref);
+    }
+    console.warn(`NCX file not found: ${prefix}${parsedEpub.ncxItem.href}`);
+  }
+
+  return [];
+}
+
+/**
+ * Find the first TOC label (in reading order) pointing at each spine document
+ */
+export function getTocTitles(toc: TocEntry[]): Map<number, string> {
+  const titles = new Map<number, string>();
+  const visit = (entries: TocEntry[]) => {
+    for (const entry of entries) {
+      if (entry.spineIndex !== undefined && entry.label && !titles.has(entry.spineIndex)) {
+        titles.set(entry.spineIndex, entry.label);
+      }
+      visit(entry.children);
+    }
+  };
+  visit(toc);
+  return titles;
+}
@@ -0,0 +1,130 @@
+import { and, eq, isNull, notExists, or, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { annotations, books, chapters, db, groupBooks, readingProgress, type Book, type Transaction } from "../db";
+import { backfillAnnotationAnchors, reanchorChapterAnnotations } from "../annotations/anchors";
+import { decodeEpubPath } from "./rewriter";
+
+/**
+ * Duplicate uploads and book versions
+ * A re-uploaded book is recognized by its file hash, ISBN or unique
+ * identifier. It can be deduplicated to the existing book, uploaded as a new
+ * version that takes over reading progress, annotations and group shares,
+ * or kept as a separate book.
+ */
+
+export const DUPLICATE_MODES = ["dedupe", "version", "keep"] as const;
+export type DuplicateMode = typeof DUPLICATE_MODES[number];
+
+export const isDuplicateMode = (value: unknown): value is DuplicateMode =>
+  typeof value === "string" && (DUPLICATE_MODES as readonly string[]).includes(value);
+
+export type DuplicateReason = "identical" | "isbn" | "identifier";
+
+interface ChapterRef {
+  id: string;
+  href: string;
+  spineIndex: number;
+}
+
+/**
+ * SQL condition matching books that haven't been replaced by a newer version
+ */
+export function isLatestVersion() {
+  const newerVersions = alias(books, "newer_versions");
+  return notExists(db.select({ id: newerVersions.id }).from(newerVersions).where(eq(newerVersions.previousVersionId, books.id)));
+}
+
+/**
+ * Find the book of a user's library an upload duplicates, strongest match first:
+ * same file, then same ISBN, then same unique identifier. Only latest versions
+ * outside the trash match.
+ */
+export async function findDuplicateBook(
+  userId: string,
+  keys: { contentHash?: string | null; isbn?: string | null; uniqueIdentifier?: string | null }
+): Promise<{ book: Book; reason: DuplicateReason } | null> {
+  const conditions: Array<[DuplicateReason, SQL, (book: Book) => boolean]> = [];
+  if (keys.contentHash) conditions.push(["identical", eq(books.contentHash, keys.contentHash), book => book.contentHash === keys.contentHash]);
+  if (keys.isbn) conditions.push(["isbn", eq(books.isbn, keys.isbn), book => book.isbn === keys.isbn]);
+  if (keys.uniqueIdentifier) conditions.push(["identifier", eq(books.uniqueIdentifier, keys.uniqueIdentifier), book => book.uniqueIdentifier === keys.uniqueIdentifier]);
+  if (conditions.length === 0) return null;
+
+  const candidates = await db
+    .select()
+    .from(books)
+    .where(and(
+      eq(books.userId, userId),
+      or(...conditions.map(([, condition]) => condition)),
+      isLatestVersion(),
+      isNull(books.deletedAt),
+    ));
+
+  for (const [reason, , matches] of conditions) {
+    const book = candidates.find(matches);
+    if (book) return { book, reason };
+  }
+  return null;
+}
+
+/**
+ * Map each chapter of the previous version to one of the new version:
+ * same document first, then same spine position, then the last chapter.
+ * Books ingested before manifest paths were decoded store encoded hrefs.
+ */
+export function mapChapters(previous: ChapterRef[], next: ChapterRef[]): Map<string, string> {
+  const mapping = new Map<string, string>();
+  const last = next.reduce<ChapterRef | undefined>((latest, chapter) => (!latest || chapter.spineIndex > latest.spineIndex ? chapter : latest), undefined);
+  if (!last) return mapping;
+
+  for (const chapter of previous) {
+    const href = decodeEpubPath(chapter.href);
+    const target = next.find(candidate => decodeEpubPath(candidate.href) === href)
+      ?? next.find(candidate => candidate.spineIndex === chapter.spineIndex)
+      ?? last;
+    mapping.set(chapter.id, target.id);
+  }
+  return mapping;
+}
+
+/**
+ * Move reading progress, annotations and group shares from the previous version
+ * of a book to the new one, re-anchoring annotations in the new chapters
+ */
+export async function migrateToNewVersion(tx: Transaction, previousBookId: string, newBookId: string) {
+  // Anchors are built from the previous chapters' HTML, which the offsets point into
+  await backfillAnnotationAnchors({ bookId: previousBookId }, tx);
+  const previousChapters = await tx.query.chapters.findMany({
+    where: eq(chapters.bookId, previousBookId),
+    columns: { id: true, href: true, spineIndex: true },
+  });
+  const newChapters = await tx.query.chapters.findMany({
+    where: eq(chapters.bookId, newBookId),
+    columns: { id: true, href: true, spineIndex: true, htmlContent: true },
+  });
+  const mapping = mapChapters(previousChapters, newChapters);
+
+  const annotatedChapters = new Set<string>();
+  for (const [previousChapterId, newChapterId] of mapping) {
+    await tx.update(readingProgress)
+      .set({ bookId: newBookId, chapterId: newChapterId })
+      .where(eq(readingProgress.chapterId, previousChapterId));
+    const moved = await tx.update(annotations)
+      .set({ bookId: newBookId, chapterId: newChapterId })
+      .where(eq(annotations.chapterId, previousChapterId))
+      .returning({ id: annotations.id });
+    if (moved.length > 0) {
+      annotatedChapters.add(newChapterId);
+    }
+  }
+
+  let orphaned = 0;
+  for (const chapter of newChapters.filter(chapter => annotatedChapters.has(chapter.id))) {
+    orphaned += (await reanchorChapterAnnotations(chapter.id, chapter.htmlContent, tx)).orphaned;
+  }
+
+  await tx.update(groupBooks)
+    .set({ bookId: newBookId })
+    .where(eq(groupBooks.bookId, previousBookId));
+
+  return { orphanedAnnotations: orphaned };
+}
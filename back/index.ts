@@ -1,7 +1,18 @@
-import { Hono } from 'hono'
-import epub from './services/epub'
+import app from './app'
+import { startJobWorker } from './jobs/queue'
+import { backfillAnnotationAnchors } from './annotations/anchors'
+import { websocket } from './services/realtime'
 
-const app = new Hono()
-app.route('/epub', epub)
+// Background jobs (EPUB ingestion...) run in the server process
+startJobWorker()
 
-export default app
\ No newline at end of file
+// Annotations created before anchors existed get one from their offsets
+backfillAnnotationAnchors()
+  .then(count => count > 0 && console.log(`Backfilled the anchors of ${count} annotations`))
+  .catch(error => console.error('Failed to backfill annotation anchors:', error))
+
+// Bun serves the default export: HTTP routes plus the WebSocket handlers
+export default {
+  fetch: app.fetch,
+  websocket,
+}
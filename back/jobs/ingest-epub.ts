@@ -0,0 +1,189 @@
+import { eq } from "drizzle-orm";
+import { assets, books, chapters, db, type Job } from "../db";
+import { createCoverThumbnails } from "../epub/cover";
+import { EpubTooLargeError, hashStream, ingestEpub } from "../epub/ingest";
+import { findDuplicateBook, migrateToNewVersion, type DuplicateMode } from "../epub/versions";
+import { minio } from "../s3/s3";
+import { enqueueJob, registerJobHandler } from "./queue";
+
+/**
+ * EPUB ingestion job
+ * PUT /epub stores the upload in S3 and queues this job, which streams the
+ * archive, stores the assets and inserts the book, its chapters and assets
+ * in one transaction. A failed attempt rolls back and deletes the book's S3
+ * objects, so every retry starts from a clean slate; asset blobs may be shared
+ * with other books and are left for deleteUnusedBlobs (see s3/blobs). An
+ * attempt can also commit and lose its worker before the job is marked done:
+ * the next one finds the book and completes.
+ * Re-uploads of a book in the user's library are handled per onDuplicate
+ * (see epub/versions).
+ */
+
+export const INGEST_EPUB_JOB = "ingest_epub";
+
+export type IngestionStage = "hashing" | "reading" | "saving";
+
+export interface IngestionProgress {
+  stage: IngestionStage;
+  assetsUploaded: number;
+  assetsTotal: number | null;  // Known once the manifest has been read
+}
+
+interface IngestionPayload {
+  sourceKey: string;  // S3 key of the uploaded archive
+  bookId: string;     // Id the book gets, chosen up front so retries reuse the same S3 prefix
+  onDuplicate: DuplicateMode;
+}
+
+// Progress is written at most this often while assets are uploaded
+const PROGRESS_INTERVAL_MS = 1_000;
+
+/**
+ * Store an upload and queue its ingestion
+ */
+export async function queueEpubIngestion(upload: ReadableStream<Uint8Array>, userId: string, onDuplicate: DuplicateMode): Promise<Job> {
+  const sourceKey = `uploads/${crypto.randomUUID()}.epub`;
+  await minio.write(sourceKey, new Response(upload), { type: "application/epub+zip" });
+
+  const payload: IngestionPayload = { sourceKey, bookId: crypto.randomUUID(), onDuplicate };
+  try {
+    return await enqueueJob(INGEST_EPUB_JOB, { ...payload }, { userId });
+  } catch (error) {
+    await minio.delete(sourceKey).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Delete the book's S3 objects (cover thumbnails) of an attempt whose rows were rolled back
+ */
+async function deleteObjects(s3Keys: string[]) {
+  const results = await Promise.allSettled(s3Keys.map(key => minio.delete(key)));
+  const failed = results.filter(result => result.status === "rejected").length;
+  if (failed > 0) {
+    // Left for the storage garbage collector (bun run gc:storage)
+    console.error(`Failed to delete ${failed} of ${s3Keys.length} objects after a failed ingestion`);
+  }
+}
+
+/**
+ * Result of a job whose book was already committed, by an earlier attempt or
+ * one running concurrently after its worker was presumed lost
+ */
+async function findIngestedBook(bookId: string) {
+  const book = await db.query.books.findFirst({
+    where: eq(books.id, bookId),
+    columns: { previousVersionId: true },
+  });
+  if (!book) return null;
+  return {
+    bookId,
+    deduplicated: false,
+    previousVersionId: book.previousVersionId ?? undefined,
+    chaptersCount: await db.$count(chapters, eq(chapters.bookId, bookId)),
+    assetsCount: await db.$count(assets, eq(assets.bookId, bookId)),
+  };
+}
+
+registerJobHandler(INGEST_EPUB_JOB, {
+  async run(job, { reportProgress }) {
+    const { sourceKey, bookId, onDuplicate } = job.payload as unknown as IngestionPayload;
+    const userId = job.userId;
+    if (!userId) {
+      throw new Error("Ingestion job has no owner");
+    }
+
+    let lastReport = 0;
+    const report = (progress: IngestionProgress, force = false) => {
+      if (!force && Date.now() - lastReport < PROGRESS_INTERVAL_MS) return;
+      lastReport = Date.now();
+      reportProgress({ ...progress }).catch(error => console.error(`Failed to report progress of job ${job.id}:`, error));
+    };
+    const deleteSource = () => minio.delete(sourceKey).catch(error => console.error(`Failed to delete upload ${sourceKey}:`, error));
+
+    const ingested = await findIngestedBook(bookId);
+    if (ingested) {
+      await deleteSource();
+      return ingested;
+    }
+
+    report({ stage: "hashing", assetsUploaded: 0, assetsTotal: null }, true);
+    const contentHash = await hashStream(minio.file(sourceKey).stream());
+    if (onDuplicate !== "keep") {
+      // The very same file: nothing to ingest, even for a new version
+      const identical = await findDuplicateBook(userId, { contentHash });
+      if (identical) {
+        await deleteSource();
+        return { bookId: identical.book.id, deduplicated: true, duplicateOf: { bookId: identical.book.id, reason: identical.reason } };
+      }
+    }
+
+    report({ stage: "reading", assetsUploaded: 0, assetsTotal: null }, true);
+    const parsedEpub = await ingestEpub(minio.file(sourceKey).stream(), {
+      bookId,
+      onAssetUploaded: (uploadedCount) => report({ stage: "reading", assetsUploaded: uploadedCount, assetsTotal: null }),
+    });
+
+    const duplicate = onDuplicate === "keep" ? null : await findDuplicateBook(userId, {
+      isbn: parsedEpub.newBook.isbn,
+      uniqueIdentifier: parsedEpub.newBook.uniqueIdentifier,
+    });
+    const duplicateOf = duplicate ? { bookId: duplicate.book.id, reason: duplicate.reason } : undefined;
+    if (duplicate && onDuplicate === "dedupe") {
+      await deleteSource();
+      return { bookId: duplicate.book.id, deduplicated: true, duplicateOf };
+    }
+
+    const assetsTotal = parsedEpub.assets.length;
+    report({ stage: "saving", assetsUploaded: assetsTotal, assetsTotal }, true);
+    const coverImagePath = parsedEpub.newBook.coverImagePath;
+    const thumbnailKeys = coverImagePath ? await createCoverThumbnails(bookId, coverImagePath) : [];
+
+    let migration;
+    try {
+      migration = await db.transaction(async (tx) => {
+        await tx.insert(books).values({
+          ...parsedEpub.newBook,
+          userId,
+          contentHash,
+          version: duplicate ? duplicate.book.version + 1 : 1,
+          previousVersionId: duplicate?.book.id,
+        });
+        await tx.insert(chapters).values(parsedEpub.chapters.map(chapter => ({ ...chapter, bookId })));
+        if (assetsTotal > 0) {
+          await tx.insert(assets).values(parsedEpub.assets.map(({ s3Key, ...asset }) => ({ ...asset, bookId })));
+        }
+        return duplicate ? migrateToNewVersion(tx, duplicate.book.id, bookId) : undefined;
+      });
+    } catch (error) {
+      // Another attempt committed the book first: the thumbnails are its own
+      const ingested = await findIngestedBook(bookId);
+      if (ingested) {
+        await deleteSource();
+        return ingested;
+      }
+      // Nothing was committed: only the thumbnails are left to remove
+      await deleteObjects(thumbnailKeys);
+      throw error;
+    }
+
+    await deleteSource();
+    return {
+      bookId,
+      deduplicated: false,
+      duplicateOf,
+      previousVersionId: duplicate?.book.id,
+      orphanedAnnotations: migration?.orphanedAnnotations,
+      chaptersCount: parsedEpub.chapters.length,
+      assetsCount: assetsTotal,
+    };
+  },
+
+  // The archive won't shrink on retry
+  shouldRetry: (error) => !(error instanceof EpubTooLargeError),
+
+  async onFailed(job) {
+    const { sourceKey } = job.payload as unknown as IngestionPayload;
+    await minio.delete(sourceKey);
+  },
+});
@@ -0,0 +1,65 @@
+import { eq } from "drizzle-orm";
+import { assets, books, db } from "../db";
+import { deleteUnusedBlobs } from "../s3/blobs";
+import { deletePrefix } from "../s3/s3";
+import { enqueueJob, registerJobHandler } from "./queue";
+
+/**
+ * Book deletion
+ * DELETE /epub/:id moves a book to the trash: it disappears from the library,
+ * groups and searches but can be restored until the retention period ends.
+ * A job scheduled for that moment then deletes its rows (chapters, assets,
+ * progress and annotations cascade), every S3 object under its prefix and
+ * the asset blobs no other book uses.
+ */
+
+export const PURGE_BOOK_JOB = "purge_book";
+
+/** Days a deleted book stays in the trash before it is purged */
+export const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS ?? "") || 30;
+
+interface PurgePayload {
+  bookId: string;
+}
+
+/**
+ * When a book trashed at deletedAt gets purged
+ */
+export const getPurgeDate = (deletedAt: Date) => new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+/**
+ * Delete a book's rows, then its S3 objects and unused blobs. Objects left
+ * behind by a failure are orphans the storage garbage collector removes.
+ */
+export async function purgeBook(bookId: string) {
+  const bookBlobs = await db.selectDistinct({ blobId: assets.blobId }).from(assets).where(eq(assets.bookId, bookId));
+  await db.delete(books).where(eq(books.id, bookId));
+  const deletedObjects = await deletePrefix(`books/${bookId}/`);
+  const deletedBlobs = await deleteUnusedBlobs(bookBlobs.map(blob => blob.blobId));
+  return { bookId, deletedObjects, deletedBlobs };
+}
+
+/**
+ * Schedule the purge of a book that was just moved to the trash
+ */
+export async function scheduleBookPurge(bookId: string, userId: string, deletedAt: Date) {
+  const payload: PurgePayload = { bookId };
+  return enqueueJob(PURGE_BOOK_JOB, { ...payload }, { userId, runAt: getPurgeDate(deletedAt) });
+}
+
+registerJobHandler(PURGE_BOOK_JOB, {
+  async run(job) {
+    const { bookId } = job.payload as unknown as PurgePayload;
+    const book = await db.query.books.findFirst({
+      where: eq(books.id, bookId),
+      columns: { deletedAt: true },
+    });
+
+    // Restored, or deleted again later (that deletion scheduled its own purge)
+    if (book && (!book.deletedAt || getPurgeDate(book.deletedAt) > new Date())) {
+      return { bookId, purged: false };
+    }
+    // A missing row means an earlier attempt got as far as the S3 cleanup
+    return { ...(await purgeBook(bookId)), purged: true };
+  },
+});
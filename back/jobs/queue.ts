@@ -0,0 +1,172 @@
+import { eq, sql } from "drizzle-orm";
+import { db, jobs, type Job } from "../db";
+
+/**
+ * Background job queue
+ * Jobs are rows of the jobs table. Workers claim the oldest due job with
+ * FOR UPDATE SKIP LOCKED, so several servers can share the queue. A failed
+ * attempt is retried with exponential backoff until maxAttempts is reached.
+ * Running jobs heartbeat through their progress reports: one that stays silent
+ * too long lost its worker and counts as a failed attempt.
+ */
+
+export interface JobContext {
+  /** Store the job's progress and keep its lock; callers throttle their own updates */
+  reportProgress(progress: Record<string, unknown>): Promise<void>;
+}
+
+export interface JobHandler {
+  /** Do the work; the returned value is stored as the job's result */
+  run(job: Job, context: JobContext): Promise<Record<string, unknown> | void>;
+  /** Whether a failed attempt is worth retrying (defaults to yes) */
+  shouldRetry?(error: unknown): boolean;
+  /** Release the job's resources once it has failed for good */
+  onFailed?(job: Job): Promise<void>;
+}
+
+// A running job that hasn't reported progress within this delay is considered lost
+const STALE_JOB_TIMEOUT = "15 minutes";
+const RETRY_BASE_DELAY_MS = 5_000;
+
+const handlers = new Map<string, JobHandler>();
+
+export function registerJobHandler(type: string, handler: JobHandler) {
+  handlers.set(type, handler);
+}
+
+/**
+ * Queue a job for the workers, due now or at runAt
+ */
+export async function enqueueJob(type: string, payload: Record<string, unknown>, options: { userId?: string; maxAttempts?: number; runAt?: Date } = {}): Promise<Job> {
+  const [job] = await db.insert(jobs).values({
+    type,
+    payload,
+    userId: options.userId,
+    maxAttempts: options.maxAttempts,
+    runAt: options.runAt,
+  }).returning();
+  return job!;
+}
+
+/**
+ * Delay before the next attempt: 5s, 10s, 20s...
+ */
+export function getRetryDelay(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0);
+}
+
+const isLost = sql`${jobs.status} = 'running' and ${jobs.lockedAt} < now() - interval '${sql.raw(STALE_JOB_TIMEOUT)}'`;
+
+/**
+ * Claim the next due job, including running jobs whose worker was lost
+ * while they have attempts left
+ */
+async function claimNextJob(): Promise<Job | null> {
+  const [job] = await db.update(jobs)
+    .set({
+      status: "running",
+      attempts: sql`${jobs.attempts} + 1`,
+      lockedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(jobs.id, sql`(
+      select ${jobs.id} from ${jobs}
+      where (${jobs.status} = 'queued' and ${jobs.runAt} <= now())
+        or (${isLost} and ${jobs.attempts} < ${jobs.maxAttempts})
+      order by ${jobs.runAt}
+      limit 1
+      for update skip locked
+    )`))
+    .returning();
+  return job ?? null;
+}
+
+/**
+ * Give up on lost jobs that have no attempts left
+ */
+async function failLostJobs() {
+  const lost = await db.update(jobs)
+    .set({ status: "failed", error: "The worker running the job was lost", updatedAt: new Date(), finishedAt: new Date() })
+    .where(sql`${isLost} and ${jobs.attempts} >= ${jobs.maxAttempts}`)
+    .returning();
+  for (const job of lost) {
+    await cleanUpFailedJob(job);
+  }
+}
+
+/**
+ * Run the handler's cleanup of a job that failed for good
+ */
+async function cleanUpFailedJob(job: Job) {
+  await handlers.get(job.type)?.onFailed?.(job).catch(cleanupError => {
+    console.error(`Failed to clean up job ${job.id}:`, cleanupError);
+  });
+}
+
+/**
+ * Run one due job. Returns false when the queue is empty.
+ */
+export async function processNextJob(): Promise<boolean> {
+  const job = await claimNextJob();
+  if (!job) {
+    await failLostJobs();
+    return false;
+  }
+
+  const handler = handlers.get(job.type);
+  try {
+    if (!handler) {
+      throw new Error(`No handler for job type ${job.type}`);
+    }
+    const result = await handler.run(job, {
+      reportProgress: async (progress) => {
+        await db.update(jobs).set({ progress, lockedAt: new Date(), updatedAt: new Date() }).where(eq(jobs.id, job.id));
+      },
+    });
+    await db.update(jobs)
+      .set({ status: "completed", result: result ?? null, error: null, updatedAt: new Date(), finishedAt: new Date() })
+      .where(eq(jobs.id, job.id));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, error);
+
+    if (job.attempts < job.maxAttempts && (handler?.shouldRetry?.(error) ?? true)) {
+      await db.update(jobs)
+        .set({ status: "queued", error: message, runAt: new Date(Date.now() + getRetryDelay(job.attempts)), updatedAt: new Date() })
+        .where(eq(jobs.id, job.id));
+    } else {
+      await db.update(jobs)
+        .set({ status: "failed", error: message, updatedAt: new Date(), finishedAt: new Date() })
+        .where(eq(jobs.id, job.id));
+      await cleanUpFailedJob(job);
+    }
+  }
+  return true;
+}
+
+/**
+ * Poll the queue until stopped. Returns a function that stops the worker.
+ */
+export function startJobWorker(pollIntervalMs = 1_000): () => void {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const poll = async () => {
+    try {
+      while (!stopped && (await processNextJob())) {
+        // Drain due jobs before sleeping
+      }
+    } catch (error) {
+      console.error("Job worker error:", error);
+    }
+    if (!stopped) {
+      timer = setTimeout(poll, pollIntervalMs);
+    }
+  };
+  poll();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
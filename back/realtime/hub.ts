@@ -0,0 +1,166 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { books, db, groupBooks, groupMembers, type Annotation } from "../db";
+import type { ReadAlongState } from "./read-along";
+
+/**
+ * Real-time hub
+ * Keeps track of the WebSocket connections reading each book, broadcasts
+ * presence and pushes annotation changes to the readers of a chapter.
+ * State is in memory: every connection of a book must reach the same server.
+ */
+
+export interface Reader {
+  userId: string;
+  name: string;
+  spineIndex: number;
+}
+
+export type ServerMessage =
+  | { type: "presence"; bookId: string; readers: Reader[] }
+  | { type: "annotation.created" | "annotation.updated"; bookId: string; spineIndex: number; annotation: unknown }
+  | { type: "annotation.deleted"; bookId: string; spineIndex: number; annotationId: string }
+  | { type: "subscribed"; bookId: string; spineIndex: number }
+  | { type: "readalong.state"; session: ReadAlongState }
+  | { type: "readalong.position"; sessionId: string; spineIndex: number; scrollPosition: number; chapterProgress: number }
+  | { type: "readalong.ended"; sessionId: string }
+  | { type: "error"; error: string };
+
+export interface RealtimeConnection {
+  userId: string;
+  name: string;
+  bookId: string | null;       // Book and chapter currently being read
+  spineIndex: number | null;
+  readAlong: { sessionId: string; following: boolean } | null;  // Read-along session joined, if any
+  send(message: ServerMessage): void;
+}
+
+type AnnotationAudience = Pick<Annotation, "userId" | "visibility" | "groupId">;
+
+const connectionsByBook = new Map<string, Set<RealtimeConnection>>();
+
+/**
+ * List who is reading a book, one entry per user and chapter
+ */
+export function getPresence(bookId: string): Reader[] {
+  const readers = new Map<string, Reader>();
+  for (const connection of connectionsByBook.get(bookId) ?? []) {
+    if (connection.spineIndex === null) continue;
+    const key = `${connection.userId}:${connection.spineIndex}`;
+    readers.set(key, { userId: connection.userId, name: connection.name, spineIndex: connection.spineIndex });
+  }
+  return [...readers.values()];
+}
+
+/**
+ * Send a message to every connection reading a book
+ */
+export function broadcastToBook(bookId: string, message: ServerMessage, filter?: (connection: RealtimeConnection) => boolean) {
+  for (const connection of connectionsByBook.get(bookId) ?? []) {
+    if (!filter || filter(connection)) {
+      connection.send(message);
+    }
+  }
+}
+
+const broadcastPresence = (bookId: string) => {
+  broadcastToBook(bookId, { type: "presence", bookId, readers: getPresence(bookId) });
+};
+
+/**
+ * Stop following the current book, if any
+ */
+export function leaveBook(connection: RealtimeConnection) {
+  const bookId = connection.bookId;
+  if (!bookId) return;
+
+  const connections = connectionsByBook.get(bookId);
+  connections?.delete(connection);
+  if (connections?.size === 0) {
+    connectionsByBook.delete(bookId);
+  }
+  connection.bookId = null;
+  connection.spineIndex = null;
+  broadcastPresence(bookId);
+}
+
+/**
+ * Start following a chapter; a connection reads one chapter at a time
+ */
+export function joinChapter(connection: RealtimeConnection, bookId: string, spineIndex: number) {
+  if (connection.bookId !== bookId) {
+    leaveBook(connection);
+  }
+
+  let connections = connectionsByBook.get(bookId);
+  if (!connections) {
+    connections = new Set();
+    connectionsByBook.set(bookId, connections);
+  }
+  connections.add(connection);
+  connection.bookId = bookId;
+  connection.spineIndex = spineIndex;
+  broadcastPresence(bookId);
+}
+
+/**
+ * Check whether a reader may receive an annotation, given the members of its group
+ * (readers of the book can always see public annotations)
+ */
+export function canReceiveAnnotation(annotation: AnnotationAudience, recipientId: string, groupMemberIds: Set<string>): boolean {
+  if (annotation.userId === recipientId) return true;
+  if (annotation.visibility === "public") return true;
+  return annotation.visibility === "group" && groupMemberIds.has(recipientId);
+}
+
+// As in canViewAnnotation, the group only sees the annotation while the book is shared with it
+const getGroupMemberIds = async (annotation: AnnotationAudience, bookId: string): Promise<Set<string>> => {
+  if (annotation.visibility !== "group" || !annotation.groupId) return new Set();
+  const members = await db
+    .select({ userId: groupMembers.userId })
+    .from(groupMembers)
+    .innerJoin(groupBooks, eq(groupBooks.groupId, groupMembers.groupId))
+    .innerJoin(books, eq(groupBooks.bookId, books.id))
+    .where(and(
+      eq(groupMembers.groupId, annotation.groupId),
+      eq(groupBooks.bookId, bookId),
+      isNull(books.deletedAt),
+    ));
+  return new Set(members.map(member => member.userId));
+};
+
+/**
+ * Push an annotation change to the readers of its chapter who can see it.
+ * On updates, readers who could see the previous version but not the new one
+ * (e.g. it was made private) get a deletion instead.
+ */
+export async function publishAnnotationEvent(
+  event: "created" | "updated" | "deleted",
+  annotation: AnnotationAudience & { id: string; bookId: string },
+  spineIndex: number,
+  payload: unknown,
+  previous?: AnnotationAudience
+) {
+  if (!connectionsByBook.has(annotation.bookId)) return;
+
+  const { bookId } = annotation;
+  const inChapter = (connection: RealtimeConnection) => connection.spineIndex === spineIndex;
+  const members = await getGroupMemberIds(annotation, bookId);
+  const canSee = (connection: RealtimeConnection) => canReceiveAnnotation(annotation, connection.userId, members);
+
+  if (event === "deleted") {
+    broadcastToBook(bookId, { type: "annotation.deleted", bookId, spineIndex, annotationId: annotation.id },
+      connection => inChapter(connection) && canSee(connection));
+    return;
+  }
+
+  broadcastToBook(bookId, { type: `annotation.${event}`, bookId, spineIndex, annotation: payload },
+    connection => inChapter(connection) && canSee(connection));
+
+  if (previous) {
+    const previousMembers = await getGroupMemberIds(previous, bookId);
+    broadcastToBook(bookId, { type: "annotation.deleted", bookId, spineIndex, annotationId: annotation.id },
+      connection => inChapter(connection)
+        && !canSee(connection)
+        && canReceiveAnnotation(previous, connection.userId, previousMembers));
+  }
+}
@@ -0,0 +1,108 @@
+import type { ReadAlongSession } from "../db";
+import type { RealtimeConnection } from "./hub";
+
+/**
+ * Read-along sessions
+ * Participants follow the leader's position; followers who opted out keep
+ * their place in the session but stop receiving position updates until they
+ * resume. The session itself is stored in the database so late joiners and
+ * resuming followers start from the current position.
+ */
+
+export type ReadAlongState = Pick<ReadAlongSession,
+  "id" | "groupId" | "bookId" | "leaderId" | "spineIndex" | "scrollPosition" | "chapterProgress" | "startedAt" | "endedAt">;
+
+const participantsBySession = new Map<string, Set<RealtimeConnection>>();
+
+export function toReadAlongState(session: ReadAlongSession): ReadAlongState {
+  return {
+    id: session.id,
+    groupId: session.groupId,
+    bookId: session.bookId,
+    leaderId: session.leaderId,
+    spineIndex: session.spineIndex,
+    scrollPosition: session.scrollPosition,
+    chapterProgress: session.chapterProgress,
+    startedAt: session.startedAt,
+    endedAt: session.endedAt,
+  };
+}
+
+/**
+ * Stop participating in the current read-along session, if any
+ */
+export function leaveReadAlong(connection: RealtimeConnection) {
+  const sessionId = connection.readAlong?.sessionId;
+  if (!sessionId) return;
+
+  const participants = participantsBySession.get(sessionId);
+  participants?.delete(connection);
+  if (participants?.size === 0) {
+    participantsBySession.delete(sessionId);
+  }
+  connection.readAlong = null;
+}
+
+/**
+ * Join a session and jump to its current position
+ */
+export function joinReadAlong(connection: RealtimeConnection, session: ReadAlongSession) {
+  if (connection.readAlong?.sessionId !== session.id) {
+    leaveReadAlong(connection);
+  }
+
+  let participants = participantsBySession.get(session.id);
+  if (!participants) {
+    participants = new Set();
+    participantsBySession.set(session.id, participants);
+  }
+  participants.add(connection);
+  connection.readAlong = { sessionId: session.id, following: true };
+  connection.send({ type: "readalong.state", session: toReadAlongState(session) });
+}
+
+/**
+ * Pause or resume following the leader. Resuming jumps to the current position.
+ */
+export function setFollowing(connection: RealtimeConnection, following: boolean, session: ReadAlongSession) {
+  if (connection.readAlong?.sessionId !== session.id) return;
+
+  connection.readAlong.following = following;
+  if (following) {
+    connection.send({ type: "readalong.state", session: toReadAlongState(session) });
+  }
+}
+
+/**
+ * Count the connections taking part in a session
+ */
+export function getParticipantCount(sessionId: string): number {
+  return participantsBySession.get(sessionId)?.size ?? 0;
+}
+
+/**
+ * Notify participants of a session change:
+ * positions go to followers only, leadership changes and endings to everyone
+ */
+export function broadcastReadAlong(event: "position" | "state" | "ended", session: ReadAlongSession) {
+  const participants = [...(participantsBySession.get(session.id) ?? [])];
+
+  for (const connection of participants) {
+    if (event === "position") {
+      if (connection.readAlong?.following) {
+        connection.send({
+          type: "readalong.position",
+          sessionId: session.id,
+          spineIndex: session.spineIndex,
+          scrollPosition: session.scrollPosition,
+          chapterProgress: session.chapterProgress,
+        });
+      }
+    } else if (event === "state") {
+      connection.send({ type: "readalong.state", session: toReadAlongState(session) });
+    } else {
+      connection.send({ type: "readalong.ended", sessionId: session.id });
+      leaveReadAlong(connection);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { and, eq, inArray, lt, sql } from "drizzle-orm";
+import { blobs, db } from "../db";
+import { minio } from "./s3";
+
+/**
+ * Content-addressed asset storage
+ * Asset contents are stored once per SHA-256 under blobs/ and shared by every
+ * book containing them. The assets table maps book paths to blobs; a trigger
+ * keeps each blob's ref_count in step with its assets rows, cascades included.
+ * An ingestion stores or reuses a blob before its transaction commits, so
+ * unreferenced blobs are only deleted once unused for a grace period.
+ */
+
+export const BLOBS_PREFIX = "blobs/";
+
+// Longer than an ingestion can take (running jobs are reclaimed after 15 minutes)
+const UNUSED_BLOB_GRACE_PERIOD = "1 hour";
+
+export interface StoredBlob {
+  id: string;
+  s3Key: string;
+  reused: boolean;  // The content was already stored
+}
+
+/**
+ * S3 key of a blob: sharded by the hash's first byte
+ */
+export const blobKey = (hash: string) => `${BLOBS_PREFIX}${hash.slice(0, 2)}/${hash}`;
+
+/**
+ * SHA-256 of a blob's content
+ */
+export const hashBlob = (data: Uint8Array) => new Bun.CryptoHasher("sha256").update(data).digest("hex");
+
+/**
+ * Store content unless an identical blob exists. Either way the blob's
+ * lastUsedAt is refreshed, which keeps it safe from deletion until the
+ * caller's assets rows reference it.
+ */
+export async function storeBlob(data: Uint8Array, contentType: string): Promise<StoredBlob> {
+  const hash = hashBlob(data);
+  const [existing] = await db.update(blobs)
+    .set({ lastUsedAt: new Date() })
+    .where(eq(blobs.hash, hash))
+    .returning({ id: blobs.id, s3Key: blobs.s3Key });
+  if (existing) {
+    return { ...existing, reused: true };
+  }
+
+  const s3Key = blobKey(hash);
+  await minio.write(s3Key, data, { type: contentType });
+  // Another ingestion may have stored the same content meanwhile
+  const [stored] = await db.insert(blobs)
+    .values({ hash, s3Key, size: data.byteLength })
+    .onConflictDoUpdate({ target: blobs.hash, set: { lastUsedAt: new Date() } })
+    .returning({ id: blobs.id, s3Key: blobs.s3Key });
+  return { ...stored!, reused: false };
+}
+
+const isUnused = () => and(
+  eq(blobs.refCount, 0),
+  lt(blobs.lastUsedAt, sql`now() - interval '${sql.raw(UNUSED_BLOB_GRACE_PERIOD)}'`),
+);
+
+/**
+ * List the blobs no asset has referenced for the grace period
+ */
+export async function findUnusedBlobs() {
+  return db.select({ id: blobs.id, s3Key: blobs.s3Key }).from(blobs).where(isUnused());
+}
+
+/**
+ * Delete the blobs no asset has referenced for the grace period, objects first.
+ * Pass blob ids to only consider those. Returns the number of deleted blobs.
+ */
+export async function deleteUnusedBlobs(blobIds?: string[]): Promise<number> {
+  if (blobIds?.length === 0) return 0;
+
+  // The rows stay locked until their objects are gone: a storeBlob reusing one waits,
+  // then finds no row and writes the content again. Blobs it is refreshing are skipped.
+  return db.transaction(async (tx) => {
+    const unused = await tx.select({ id: blobs.id, s3Key: blobs.s3Key })
+      .from(blobs)
+      .where(and(isUnused(), blobIds ? inArray(blobs.id, blobIds) : undefined))
+      .for("update", { skipLocked: true });
+
+    const results = await Promise.allSettled(unused.map(blob => minio.delete(blob.s3Key)));
+    const deletedIds = unused.filter((_, index) => results[index]!.status === "fulfilled").map(blob => blob.id);
+    if (deletedIds.length < unused.length) {
+      // Their rows are kept for the next run
+      console.error(`Failed to delete ${unused.length - deletedIds.length} of ${unused.length} unused blobs`);
+    }
+    if (deletedIds.length > 0) {
+      await tx.delete(blobs).where(inArray(blobs.id, deletedIds));
+    }
+    return deletedIds.length;
+  });
+}
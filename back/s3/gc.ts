@@ -0,0 +1,83 @@
+import { inArray, isNotNull } from "drizzle-orm";
+import { assets, blobs, books, db, jobs } from "../db";
+import { COVER_SIZES, coverThumbnailKey, type CoverSize } from "../epub/cover";
+import { BLOBS_PREFIX, deleteUnusedBlobs, findUnusedBlobs } from "./blobs";
+import { listObjects, minio } from "./s3";
+
+/**
+ * Storage garbage collection
+ * Compares the objects under blobs/ and books/ with the blobs table and the
+ * books' cover thumbnails: objects nothing points to are orphans (e.g. left
+ * by a crash mid-ingestion), blobs whose object is gone can never be served.
+ * Blobs no asset references any more are deleted along the way.
+ */
+
+const BOOKS_PREFIX = "books/";
+
+// Objects written this recently may belong to an ingestion that hasn't committed yet
+const GRACE_PERIOD_MS = 60 * 60 * 1000;
+
+export interface StorageReport {
+  orphanedObjects: string[];                           // S3 keys no row points to
+  missingObjects: Array<{ id: string; s3Key: string }>;  // blobs rows with no S3 object
+  unusedBlobs: Array<{ id: string; s3Key: string }>;     // blobs no asset references
+}
+
+/**
+ * Find S3 objects and blobs rows that don't match, and unused blobs. Objects
+ * of books still being ingested, or written within the grace period, are
+ * never reported.
+ */
+export async function findStorageGarbage(now: Date = new Date()): Promise<StorageReport> {
+  const rows = await db.select({ id: blobs.id, s3Key: blobs.s3Key }).from(blobs);
+  const knownKeys = new Set(rows.map(row => row.s3Key));
+  // Cover thumbnails have no blobs row: they belong to books with a cover
+  const booksWithCover = await db.select({ id: books.id }).from(books).where(isNotNull(books.coverImagePath));
+  for (const book of booksWithCover) {
+    for (const size of Object.keys(COVER_SIZES) as CoverSize[]) {
+      knownKeys.add(coverThumbnailKey(book.id, size));
+    }
+  }
+
+  const activeJobs = await db.query.jobs.findMany({
+    where: inArray(jobs.status, ["queued", "running"]),
+    columns: { payload: true },
+  });
+  const ingestingPrefixes = activeJobs
+    .map(job => job.payload.bookId)
+    .filter((bookId): bookId is string => typeof bookId === "string")
+    .map(bookId => `${BOOKS_PREFIX}${bookId}/`);
+
+  const seenKeys = new Set<string>();
+  const orphanedObjects: string[] = [];
+  for (const prefix of [BLOBS_PREFIX, BOOKS_PREFIX]) {
+    for await (const object of listObjects(prefix)) {
+      seenKeys.add(object.key);
+      if (knownKeys.has(object.key)) continue;
+      if (ingestingPrefixes.some(ingesting => object.key.startsWith(ingesting))) continue;
+      if (object.lastModified && now.getTime() - new Date(object.lastModified).getTime() < GRACE_PERIOD_MS) continue;
+      orphanedObjects.push(object.key);
+    }
+  }
+
+  const missingObjects = rows.filter(row => !seenKeys.has(row.s3Key));
+  return { orphanedObjects, missingObjects, unusedBlobs: await findUnusedBlobs() };
+}
+
+/**
+ * Delete the orphaned objects, the blobs whose object is missing along with
+ * their assets rows, and the unused blobs
+ */
+export async function collectStorageGarbage(report: StorageReport) {
+  for (const key of report.orphanedObjects) {
+    await minio.delete(key);
+  }
+  if (report.missingObjects.length > 0) {
+    const blobIds = report.missingObjects.map(row => row.id);
+    await db.transaction(async (tx) => {
+      await tx.delete(assets).where(inArray(assets.blobId, blobIds));
+      await tx.delete(blobs).where(inArray(blobs.id, blobIds));
+    });
+  }
+  await deleteUnusedBlobs(report.unusedBlobs.map(blob => blob.id));
+}
@@ -16,4 +16,67 @@ export const insertFile = async (key: string, path: string, contentType: string)
     type: contentType,
   });
   return key;
-}
\ No newline at end of file
+}
+
+/**
+ * List every object under a prefix, one page (up to 1000 keys) at a time
+ */
+export async function* listObjectPages(prefix: string) {
+  let continuationToken: string | undefined;
+  do {
+    const page = await minio.list({ prefix, continuationToken });
+    yield page.contents ?? [];
+    continuationToken = page.isTruncated ? page.nextContinuationToken : undefined;
+  } while (continuationToken);
+}
+
+/**
+ * List every object under a prefix
+ */
+export async function* listObjects(prefix: string) {
+  for await (const page of listObjectPages(prefix)) {
+    yield* page;
+  }
+}
+
+/**
+ * Delete every object under a prefix, a listing page at a time.
+ * Returns the number of deleted objects.
+ */
+export const deletePrefix = async (prefix: string) => {
+  let deleted = 0;
+  for await (const page of listObjectPages(prefix)) {
+    await Promise.all(page.map(object => minio.delete(object.key)));
+    deleted += page.length;
+  }
+  return deleted;
+}
+
+/**
+ * Parse an HTTP Range header ("bytes=start-end") against an object size.
+ * Returns null when the header should be ignored (malformed, or several
+ * ranges) and the full object served, "unsatisfiable" when a valid range
+ * starts past the end of the object (RFC 9110, section 14.2).
+ */
+export const parseRangeHeader = (header: string, size: number): { start: number; end: number } | "unsatisfiable" | null => {
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+
+  if (!match[1]) {
+    // Suffix range: last N bytes
+    const suffixLength = parseInt(match[2]!);
+    if (suffixLength === 0 || size === 0) return "unsatisfiable";
+    return { start: Math.max(size - suffixLength, 0), end: size - 1 };
+  }
+
+  const start = parseInt(match[1]);
+  if (match[2] && parseInt(match[2]) < start) {
+    return null;
+  }
+  if (start >= size) {
+    return "unsatisfiable";
+  }
+  return { start, end: match[2] ? Math.min(parseInt(match[2]), size - 1) : size - 1 };
+}
@@ -0,0 +1,659 @@
+import { Hono } from "hono"
+import { and, asc, eq } from "drizzle-orm"
+import { ANNOTATION_EXPORT_FORMATS, FORMAT_CONTENT_TYPES, FORMAT_EXTENSIONS, attachmentDisposition, exportFilename, formatAnnotations, isAnnotationExportFormat, zipLibraryAnnotations } from "../annotations/export"
+import { canAccessBook, canViewAnnotation, isBookSharedWithMember, visibleAnnotationsFilter } from "../auth/access"
+import { requireAuth, type AuthVariables } from "../auth/middleware"
+import { annotationReactions, annotationReplies, annotations, books, chapters, db, type Annotation, type AnnotationVisibility } from "../db"
+import { createAnchor } from "../epub/anchoring"
+import { publishAnnotationEvent } from "../realtime/hub"
+
+const app = new Hono<{ Variables: AuthVariables }>()
+
+app.use('*', requireAuth)
+
+export const ANNOTATION_TYPES = ['highlight', 'note', 'bookmark'] as const
+export type AnnotationType = typeof ANNOTATION_TYPES[number]
+
+export const ANNOTATION_VISIBILITIES = ['private', 'group', 'public'] as const
+
+// Hex colors (#ffcc00) or palette names (yellow, green...)
+const COLOR_PATTERN = /^(#[0-9a-f]{6}|[a-z]+)$/i
+
+// A single emoji, possibly with modifiers or joined sequences (👍🏽, 👩‍💻, ❤️)
+const EMOJI_PATTERN = /^\p{Extended_Pictographic}(\p{Emoji_Modifier}|\uFE0F|\u200D\p{Extended_Pictographic})*$/u
+
+const MAX_REPLY_LENGTH = 10000
+
+export interface AnnotationFields {
+  type: AnnotationType
+  startOffset: number
+  endOffset: number
+  selectedText: string | null
+  noteContent: string | null
+  color: string | null
+}
+
+export const isAnnotationType = (value: unknown): value is AnnotationType =>
+  typeof value === 'string' && (ANNOTATION_TYPES as readonly string[]).includes(value)
+
+/**
+ * Pick the editable annotation fields from a request body, ignoring everything else
+ */
+export const pickAnnotationFields = (body: Record<string, unknown>): Partial<AnnotationFields> => {
+  const fields: Record<string, unknown> = {}
+  for (const key of ['type', 'startOffset', 'endOffset', 'selectedText', 'noteContent', 'color']) {
+    if (key in body) {
+      fields[key] = body[key]
+    }
+  }
+  return fields as Partial<AnnotationFields>
+}
+
+/**
+ * Validate a complete set of annotation fields against the chapter's HTML length.
+ * Returns an error message, or null when the annotation is valid.
+ */
+export const validateAnnotation = (fields: Partial<AnnotationFields>, chapterLength: number): string | null => {
+  const { type, startOffset, endOffset, selectedText, noteContent, color } = fields
+
+  if (!isAnnotationType(type)) {
+    return `type must be one of: ${ANNOTATION_TYPES.join(', ')}`
+  }
+  if (!Number.isInteger(startOffset) || !Number.isInteger(endOffset)) {
+    return 'startOffset and endOffset must be integers'
+  }
+  if (startOffset! < 0 || endOffset! > chapterLength || startOffset! > endOffset!) {
+    return `Offsets must satisfy 0 <= startOffset <= endOffset <= ${chapterLength}`
+  }
+  // Only bookmarks may point at a position rather than a range
+  if (type !== 'bookmark' && startOffset === endOffset) {
+    return `A ${type} must cover a non-empty range`
+  }
+  if (selectedText != null && typeof selectedText !== 'string') {
+    return 'selectedText must be a string'
+  }
+  if (noteContent != null && typeof noteContent !== 'string') {
+    return 'noteContent must be a string'
+  }
+  if (type === 'note' && !noteContent?.trim()) {
+    return 'A note requires noteContent'
+  }
+  if (color != null && (typeof color !== 'string' || !COLOR_PATTERN.test(color))) {
+    return 'color must be a hex color (#rrggbb) or a color name'
+  }
+
+  return null
+}
+
+export const isReactionEmoji = (value: string) => value.length <= 16 && EMOJI_PATTERN.test(value)
+
+/**
+ * Count reactions by emoji, flagging the ones the viewer added
+ */
+export const summarizeReactions = (reactions: Array<{ emoji: string; userId: string }>, viewerId: string) => {
+  const summary = new Map<string, { emoji: string; count: number; reacted: boolean }>()
+  for (const { emoji, userId } of reactions) {
+    const entry = summary.get(emoji) ?? { emoji, count: 0, reacted: false }
+    entry.count++
+    entry.reacted ||= userId === viewerId
+    summary.set(emoji, entry)
+  }
+  return [...summary.values()]
+}
+
+const generateShareToken = (): string =>
+  Buffer.from(crypto.getRandomValues(new Uint8Array(18))).toString('base64url')
+
+/**
+ * Resolve the sharing columns of an annotation from a request body and its current state
+ */
+const resolveSharing = async (
+  body: Record<string, any>,
+  current: Pick<Annotation, 'visibility' | 'groupId' | 'shareToken'>,
+  bookId: string,
+  userId: string,
+) => {
+  const visibility = body.visibility ?? current.visibility
+  if (!(ANNOTATION_VISIBILITIES as readonly string[]).includes(visibility)) {
+    return { error: `visibility must be one of: ${ANNOTATION_VISIBILITIES.join(', ')}` } as const
+  }
+
+  if (visibility === 'group') {
+    const groupId = body.groupId ?? current.groupId
+    if (typeof groupId !== 'string') {
+      return { error: 'groupId is required to share an annotation with a group' } as const
+    }
+    // Only a new share is checked: once the book leaves the group, its annotations
+    // are hidden there (see canViewAnnotation) but their author can still edit them
+    const sharing = current.visibility !== 'group' || groupId !== current.groupId
+    if (sharing && !(await isBookSharedWithMember(groupId, bookId, userId))) {
+      return { error: 'The book is not shared in this group' } as const
+    }
+    return { visibility: 'group' as AnnotationVisibility, groupId, shareToken: null }
+  }
+
+  if (visibility === 'public') {
+    return { visibility: 'public' as AnnotationVisibility, groupId: null, shareToken: current.shareToken ?? generateShareToken() }
+  }
+
+  return { visibility: 'private' as AnnotationVisibility, groupId: null, shareToken: null }
+}
+
+const serializeAnnotation = (annotation: Annotation, spineIndex: number, viewerId: string) => ({
+  id: annotation.id,
+  userId: annotation.userId,
+  bookId: annotation.bookId,
+  spineIndex,
+  type: annotation.type,
+  startOffset: annotation.startOffset,
+  endOffset: annotation.endOffset,
+  selectedText: annotation.selectedText,
+  noteContent: annotation.noteContent,
+  color: annotation.color,
+  anchor: annotation.anchor,
+  orphaned: annotation.orphaned,
+  visibility: annotation.visibility,
+  groupId: annotation.groupId,
+  // Only the author may hand out the public link
+  shareToken: annotation.userId === viewerId ? annotation.shareToken : undefined,
+  createdAt: annotation.createdAt,
+  updatedAt: annotation.updatedAt,
+})
+
+/**
+ * Push an annotation change to the readers of its chapter, without holding up the response
+ */
+const notifyReaders = (...args: Parameters<typeof publishAnnotationEvent>) => {
+  publishAnnotationEvent(...args).catch(error => console.error('Failed to publish annotation event:', error))
+}
+
+/**
+ * Load one of the user's annotations with its chapter
+ */
+const findOwnAnnotation = (id: string, userId: string) =>
+  db.query.annotations.findFirst({
+    where: and(
+      eq(annotations.id, id),
+      eq(annotations.userId, userId),
+    ),
+    with: {
+      chapter: {
+        columns: { spineIndex: true, htmlContent: true },
+      },
+    },
+  })
+
+/**
+ * Load an annotation the user may see
+ */
+const findVisibleAnnotation = async (id: string, userId: string) => {
+  const annotation = await db.query.annotations.findFirst({
+    where: eq(annotations.id, id),
+    with: {
+      chapter: {
+        columns: { spineIndex: true },
+      },
+    },
+  })
+  return annotation && (await canViewAnnotation(annotation, userId)) ? annotation : null
+}
+
+app.get('/', async (c) => {
+  const user = c.get('user')!
+  const { bookId, spineIndex, type, color } = c.req.query()
+
+  if (!bookId) {
+    return c.json({ error: 'bookId is required' }, 400)
+  }
+  if (type !== undefined && !isAnnotationType(type)) {
+    return c.json({ error: `type must be one of: ${ANNOTATION_TYPES.join(', ')}` }, 400)
+  }
+  const chapterIndex = spineIndex !== undefined ? parseInt(spineIndex) : undefined
+  if (chapterIndex !== undefined && isNaN(chapterIndex)) {
+    return c.json({ error: 'Invalid chapter index' }, 400)
+  }
+
+  if (!(await canAccessBook(bookId, user.id))) {
+    return c.json({ error: 'Book not found' }, 404)
+  }
+
+  let chapterId: string | undefined
+  if (chapterIndex !== undefined) {
+    const chapter = await db.query.chapters.findFirst({
+      where: and(
+        eq(chapters.bookId, bookId),
+        eq(chapters.spineIndex, chapterIndex),
+      ),
+      columns: { id: true },
+    })
+    if (!chapter) {
+      return c.json({ error: 'Chapter not found' }, 404)
+    }
+    chapterId = chapter.id
+  }
+
+  const results = await db.query.annotations.findMany({
+    where: and(
+      eq(annotations.userId, user.id),
+      eq(annotations.bookId, bookId),
+      chapterId ? eq(annotations.chapterId, chapterId) : undefined,
+      type ? eq(annotations.type, type) : undefined,
+      color ? eq(annotations.color, color) : undefined,
+    ),
+    with: {
+      chapter: {
+        columns: { spineIndex: true },
+      },
+    },
+  })
+
+  // Reading order: by chapter, then by position within the chapter
+  results.sort((a, b) =>
+    a.chapter.spineIndex - b.chapter.spineIndex || a.startOffset - b.startOffset
+  )
+
+  return c.json({
+    annotations: results.map(annotation => serializeAnnotation(annotation, annotation.chapter.spineIndex, user.id)),
+  })
+})
+
+// Everyone's margin notes on a chapter: the user's own annotations plus the
+// ones shared with their groups or made public
+app.get('/shared', async (c) => {
+  const user = c.get('user')!
+  const bookId = c.req.query('bookId')
+  const chapterIndex = parseInt(c.req.query('spineIndex') ?? '')
+
+  if (!bookId || isNaN(chapterIndex)) {
+    return c.json({ error: 'bookId and spineIndex are required' }, 400)
+  }
+
+  if (!(await canAccessBook(bookId, user.id))) {
+    return c.json({ error: 'Book not found' }, 404)
+  }
+
+  const chapter = await db.query.chapters.findFirst({
+    where: and(
+      eq(chapters.bookId, bookId),
+      eq(chapters.spineIndex, chapterIndex),
+    ),
+    columns: { id: true },
+  })
+  if (!chapter) {
+    return c.json({ error: 'Chapter not found' }, 404)
+  }
+
+  const results = await db.query.annotations.findMany({
+    where: and(
+      eq(annotations.chapterId, chapter.id),
+      visibleAnnotationsFilter(user.id),
+    ),
+    with: {
+      user: {
+        columns: { id: true, name: true, image: true },
+      },
+      replies: {
+        columns: { id: true },
+      },
+      reactions: {
+        columns: { emoji: true, userId: true },
+      },
+    },
+    orderBy: asc(annotations.startOffset),
+  })
+
+  return c.json({
+    annotations: results.map(annotation => ({
+      ...serializeAnnotation(annotation, chapterIndex, user.id),
+      author: annotation.user,
+      replyCount: annotation.replies.length,
+      reactions: summarizeReactions(annotation.reactions, user.id),
+    })),
+  })
+})
+
+// The user's own annotations as Markdown, JSON or Readwise CSV: one book with
+// ?bookId=, otherwise the whole library as a zip with a file per book
+app.get('/export', async (c) => {
+  const user = c.get('user')!
+  const bookId = c.req.query('bookId')
+  const format = c.req.query('format') ?? 'markdown'
+
+  if (!isAnnotationExportFormat(format)) {
+    return c.json({ error: `format must be one of: ${ANNOTATION_EXPORT_FORMATS.join(', ')}` }, 400)
+  }
+  if (bookId && !(await canAccessBook(bookId, user.id))) {
+    return c.json({ error: 'Book not found' }, 404)
+  }
+
+  const results = await db.query.annotations.findMany({
+    where: and(
+      eq(annotations.userId, user.id),
+      bookId ? eq(annotations.bookId, bookId) : undefined,
+    ),
+    columns: {
+      id: true, bookId: true, type: true, selectedText: true, noteContent: true, color: true,
+      visibility: true, orphaned: true, anchor: true, createdAt: true, updatedAt: true,
+    },
+    with: {
+      book: {
+        columns: { id: true, title: true, author: true },
+      },
+      chapter: {
+        columns: { spineIndex: true, title: true },
+      },
+    },
+  })
+
+  const exportedAt = new Date()
+  if (bookId) {
+    const book = results[0]?.book ?? await db.query.books.findFirst({
+      where: eq(books.id, bookId),
+      columns: { id: true, title: true, author: true },
+    })
+    if (!book) {
+      return c.json({ error: 'Book not found' }, 404)
+    }
+    c.header('Content-Type', FORMAT_CONTENT_TYPES[format])
+    c.header('Content-Disposition', attachmentDisposition(exportFilename(book.title, FORMAT_EXTENSIONS[format])))
+    return c.body(formatAnnotations(format, book, results, exportedAt))
+  }
+
+  // Trashed books and books the user no longer has access to are left out
+  const byBook = Map.groupBy(results, annotation => annotation.bookId)
+  const library = []
+  for (const [id, bookAnnotations] of byBook) {
+    if (await canAccessBook(id, user.id)) {
+      library.push({ book: bookAnnotations[0]!.book, annotations: bookAnnotations })
+    }
+  }
+  library.sort((a, b) => a.book.title.localeCompare(b.book.title))
+
+  const archive = zipLibraryAnnotations(format, library, exportedAt)
+  c.header('Content-Type', 'application/zip')
+  c.header('Content-Disposition', attachmentDisposition(`annotations-${format}-${exportedAt.toISOString().slice(0, 10)}.zip`))
+  c.header('Content-Length', String(archive.byteLength))
+  return c.body(archive)
+})
+
+app.get('/:id', async (c) => {
+  const user = c.get('user')!
+
+  const annotation = await findVisibleAnnotation(c.req.param('id'), user.id)
+  if (!annotation) {
+    return c.json({ error: 'Annotation not found' }, 404)
+  }
+
+  return c.json(serializeAnnotation(annotation, annotation.chapter.spineIndex, user.id))
+})
+
+app.post('/', async (c) => {
+  const user = c.get('user')!
+  const body = await c.req.json().catch(() => null)
+
+  if (!body || typeof body !== 'object') {
+    return c.json({ error: 'Invalid request body' }, 400)
+  }
+  const { bookId, spineIndex } = body
+  if (typeof bookId !== 'string' || !Number.isInteger(spineIndex)) {
+    return c.json({ error: 'bookId and spineIndex are required' }, 400)
+  }
+
+  if (!(await canAccessBook(bookId, user.id))) {
+    return c.json({ error: 'Book not found' }, 404)
+  }
+
+  const chapter = await db.query.chapters.findFirst({
+    where: and(
+      eq(chapters.bookId, bookId),
+      eq(chapters.spineIndex, spineIndex),
+    ),
+    columns: { id: true, htmlContent: true },
+  })
+  if (!chapter) {
+    return c.json({ error: 'Chapter not found' }, 404)
+  }
+
+  const fields = pickAnnotationFields(body)
+  const error = validateAnnotation(fields, chapter.htmlContent.length)
+  if (error) {
+    return c.json({ error }, 400)
+  }
+
+  const sharing = await resolveSharing(body, { visibility: 'private', groupId: null, shareToken: null }, bookId, user.id)
+  if ('error' in sharing) {
+    return c.json({ error: sharing.error }, 400)
+  }
+
+  const [inserted] = await db.insert(annotations).values({
+    userId: user.id,
+    bookId,
+    chapterId: chapter.id,
+    type: fields.type!,
+    startOffset: fields.startOffset!,
+    endOffset: fields.endOffset!,
+    selectedText: fields.selectedText ?? null,
+    noteContent: fields.noteContent ?? null,
+    color: fields.color ?? null,
+    anchor: createAnchor(chapter.htmlContent, fields.startOffset!, fields.endOffset!),
+    ...sharing,
+  }).returning()
+
+  if (!inserted) {
+    return c.json({ error: 'Failed to create annotation' }, 500)
+  }
+
+  // Share tokens are only ever returned to the author
+  notifyReaders('created', inserted, spineIndex, serializeAnnotation(inserted, spineIndex, ''))
+  return c.json(serializeAnnotation(inserted, spineIndex, user.id), 201)
+})
+
+app.patch('/:id', async (c) => {
+  const user = c.get('user')!
+  const body = await c.req.json().catch(() => null)
+
+  if (!body || typeof body !== 'object') {
+    return c.json({ error: 'Invalid request body' }, 400)
+  }
+
+  const annotation = await findOwnAnnotation(c.req.param('id'), user.id)
+  if (!annotation) {
+    return c.json({ error: 'Annotation not found' }, 404)
+  }
+
+  // Validate the annotation as it will be after the update
+  const changes = pickAnnotationFields(body)
+  const error = validateAnnotation({ ...annotation, ...changes }, annotation.chapter.htmlContent.length)
+  if (error) {
+    return c.json({ error }, 400)
+  }
+
+  const sharing = await resolveSharing(body, annotation, annotation.bookId, user.id)
+  if ('error' in sharing) {
+    return c.json({ error: sharing.error }, 400)
+  }
+
+  // Moving the range re-attaches an orphaned annotation
+  const moved = changes.startOffset !== undefined || changes.endOffset !== undefined
+  const anchoring = moved
+    ? {
+      anchor: createAnchor(
+        annotation.chapter.htmlContent,
+        changes.startOffset ?? annotation.startOffset,
+        changes.endOffset ?? annotation.endOffset,
+      ),
+      orphaned: false,
+    }
+    : {}
+
+  const [updated] = await db.update(annotations)
+    .set({ ...changes, ...anchoring, ...sharing, updatedAt: new Date() })
+    .where(eq(annotations.id, annotation.id))
+    .returning()
+
+  if (!updated) {
+    return c.json({ error: 'Annotation not found' }, 404)
+  }
+
+  notifyReaders('updated', updated, annotation.chapter.spineIndex, serializeAnnotation(updated, annotation.chapter.spineIndex, ''), annotation)
+  return c.json(serializeAnnotation(updated, annotation.chapter.spineIndex, user.id))
+})
+
+app.delete('/:id', async (c) => {
+  const user = c.get('user')!
+
+  const annotation = await findOwnAnnotation(c.req.param('id'), user.id)
+  if (!annotation) {
+    return c.json({ error: 'Annotation not found' }, 404)
+  }
+
+  await db.delete(annotations).where(eq(annotations.id, annotation.id))
+
+  notifyReaders('deleted', annotation, annotation.chapter.spineIndex, null)
+  return c.json({ id: annotation.id, deleted: true })
+})
+
+app.get('/:id/replies', async (c) => {
+  const user = c.get('user')!
+
+  const annotation = await findVisibleAnnotation(c.req.param('id'), user.id)
+  if (!annotation) {
+    return c.json({ error: 'Annotation not found' }, 404)
+  }
+
+  const replies = await db.query.annotationReplies.findMany({
+    where: eq(annotationReplies.annotationId, annotation.id),
+    with: {
+      user: {
+        columns: { id: true, name: true, image: true },
+      },
+    },
+    orderBy: asc(annotationReplies.createdAt),
+  })
+
+  return c.json({ annotationId: annotation.id, replies })
+})
+
+app.post('/:id/replies', async (c) => {
+  const user = c.get('user')!
+  const body = await c.req.json().catch(() => null)
+
+  const content = typeof body?.content === 'string' ? body.content.trim() : ''
+  if (!content || content.length > MAX_REPLY_LENGTH) {
+    return c.json({ error: `content must be a non-empty string of at most ${MAX_REPLY_LENGTH} characters` }, 400)
+  }
+
+  const annotation = await findVisibleAnnotation(c.req.param('id'), user.id)
+  if (!annotation) {
+    return c.json({ error: 'Annotation not found' }, 404)
+  }
+
+  const [reply] = await db.insert(annotationReplies).values({
+    annotationId: annotation.id,
+    userId: user.id,
+    content,
+  }).returning()
+
+  return c.json(reply, 201)
+})
+
+app.patch('/:id/replies/:replyId', async (c) => {
+  const user = c.get('user')!
+  const body = await c.req.json().catch(() => null)
+
+  const content = typeof body?.content === 'string' ? body.content.trim() : ''
+  if (!content || content.length > MAX_REPLY_LENGTH) {
+    return c.json({ error: `content must be a non-empty string of at most ${MAX_REPLY_LENGTH} characters` }, 400)
+  }
+
+  const [updated] = await db.update(annotationReplies)
+    .set({ content, updatedAt: new Date() })
+    .where(and(
+      eq(annotationReplies.id, c.req.param('replyId')),
+      eq(annotationReplies.annotationId, c.req.param('id')),
+      eq(annotationReplies.userId, user.id),
+    ))
+    .returning()
+
+  if (!updated) {
+    return c.json({ error: 'Reply not found' }, 404)
+  }
+
+  return c.json(updated)
+})
+
+app.delete('/:id/replies/:replyId', async (c) => {
+  const user = c.get('user')!
+
+  const reply = await db.query.annotationReplies.findFirst({
+    where: and(
+      eq(annotationReplies.id, c.req.param('replyId')),
+      eq(annotationReplies.annotationId, c.req.param('id')),
+    ),
+    with: {
+      annotation: {
+        columns: { userId: true },
+      },
+    },
+  })
+
+  // Replies can be removed by their author or by the author of the annotation
+  if (!reply || (reply.userId !== user.id && reply.annotation.userId !== user.id)) {
+    return c.json({ error: 'Reply not found' }, 404)
+  }
+
+  await db.delete(annotationReplies).where(eq(annotationReplies.id, reply.id))
+
+  return c.json({ id: reply.id, deleted: true })
+})
+
+/**
+ * List the reactions of an annotation, summarized for the viewer
+ */
+const getReactionSummary = async (annotationId: string, viewerId: string) => {
+  const reactions = await db.query.annotationReactions.findMany({
+    where: eq(annotationReactions.annotationId, annotationId),
+    columns: { emoji: true, userId: true },
+  })
+  return summarizeReactions(reactions, viewerId)
+}
+
+app.put('/:id/reactions/:emoji', async (c) => {
+  const user = c.get('user')!
+  const emoji = c.req.param('emoji')
+
+  if (!isReactionEmoji(emoji)) {
+    return c.json({ error: 'Reactions must be a single emoji' }, 400)
+  }
+
+  const annotation = await findVisibleAnnotation(c.req.param('id'), user.id)
+  if (!annotation) {
+    return c.json({ error: 'Annotation not found' }, 404)
+  }
+
+  await db.insert(annotationReactions)
+    .values({ annotationId: annotation.id, userId: user.id, emoji })
+    .onConflictDoNothing()
+
+  return c.json({ annotationId: annotation.id, reactions: await getReactionSummary(annotation.id, user.id) })
+})
+
+app.delete('/:id/reactions/:emoji', async (c) => {
+  const user = c.get('user')!
+
+  const annotation = await findVisibleAnnotation(c.req.param('id'), user.id)
+  if (!annotation) {
+    return c.json({ error: 'Annotation not found' }, 404)
+  }
+
+  await db.delete(annotationReactions)
+    .where(and(
+      eq(annotationReactions.annotationId, annotation.id),
+      eq(annotationReactions.userId, user.id),
+      eq(annotationReactions.emoji, c.req.param('emoji')),
+    ))
+
+  return c.json({ annotationId: annotation.id, reactions: await getReactionSummary(annotation.id, user.id) })
+})
+
+export default app
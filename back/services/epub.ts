@@ -1,14 +1,65 @@
 import { Hono } from "hono"
-import { and, eq } from "drizzle-orm"
-import { assets, books, chapters, db } from "../db"
-import { parseEpub } from "../epub/parser"
-import { minio } from "../s3/s3"
+import { bodyLimit } from "hono/body-limit"
+import { and, desc, eq, inArray, isNotNull, isNull } from "drizzle-orm"
+import { accessibleBooksFilter, canAccessBook } from "../auth/access"
+import { requireAuth, type AuthVariables } from "../auth/middleware"
+import { annotations, assets, blobs, books, chapters, db, type AssetType } from "../db"
+import { COVER_SIZES, coverThumbnailKey, isCoverSize } from "../epub/cover"
+import { buildEpub } from "../epub/export"
+import { MAX_UPLOAD_SIZE } from "../epub/ingest"
+import { getAssetResponseHeaders } from "../epub/mime"
+import { assetUrl } from "../epub/rewriter"
+import { DUPLICATE_MODES, isDuplicateMode, isLatestVersion } from "../epub/versions"
+import { queueEpubIngestion } from "../jobs/ingest-epub"
+import { getPurgeDate, purgeBook, scheduleBookPurge } from "../jobs/purge-book"
+import { minio, parseRangeHeader } from "../s3/s3"
+import { serializeJob } from "./jobs"
+import { parsePagination, searchChapters } from "./search"
 
-const app = new Hono()
+const app = new Hono<{ Variables: AuthVariables }>()
+
+// Every book route is scoped to the signed-in user: their uploads and the books shared into their groups
+app.use('*', requireAuth)
+
+app.get('/', async (c) => {
+  const user = c.get('user')!
+  
+  // The library holds the user's uploads and the books shared into their groups.
+  // Older versions of re-uploaded books stay reachable by id but leave the library
+  const library = await db.query.books.findMany({
+    where: and(accessibleBooksFilter(user.id), isLatestVersion(), isNull(books.deletedAt)),
+    columns: {
+      toc: false,
+    },
+    orderBy: desc(books.createdAt),
+  })
+  
+  return c.json({ books: library })
+})
+
+// Books the user deleted, until they are purged
+app.get('/trash', async (c) => {
+  const user = c.get('user')!
+
+  const trashed = await db.query.books.findMany({
+    where: and(eq(books.userId, user.id), isNotNull(books.deletedAt)),
+    columns: {
+      toc: false,
+    },
+    orderBy: desc(books.deletedAt),
+  })
+
+  return c.json({ books: trashed.map(book => ({ ...book, purgeAt: getPurgeDate(book.deletedAt!) })) })
+})
 
 app.get('/:id', async (c) => {
+  const user = c.get('user')!
   const bookId = c.req.param('id')
   
+  if (!(await canAccessBook(bookId, user.id))) {
+    return c.json({ error: 'Book not found' }, 404)
+  }
+  
   const book = await db.query.books.findFirst({
     where: eq(books.id, bookId),
     with: {
@@ -24,13 +75,175 @@ app.get('/:id', async (c) => {
   
   const chaptersList = book.chapters.map((ch: any) => ({
     spineIndex: ch.spineIndex,
+    chapterNumber: ch.chapterNumber,
+    linear: ch.linear,
     title: ch.title,
   }))
   
   return c.json({ ...book, chapters: chaptersList })
 })
 
+app.get('/:id/toc', async (c) => {
+  const user = c.get('user')!
+  const bookId = c.req.param('id')
+
+  if (!(await canAccessBook(bookId, user.id))) {
+    return c.json({ error: 'Book not found' }, 404)
+  }
+
+  const book = await db.query.books.findFirst({
+    where: eq(books.id, bookId),
+    columns: {
+      id: true,
+      toc: true,
+    },
+  })
+
+  if (!book) {
+    return c.json({ error: 'Book not found' }, 404)
+  }
+
+  return c.json({ bookId: book.id, toc: book.toc ?? [] })
+})
+
+// ?size=small|medium|large serves a WebP thumbnail, no size the original image
+app.get('/:id/cover', async (c) => {
+  const user = c.get('user')!
+  const bookId = c.req.param('id')
+  const size = c.req.query('size')
+
+  if (size !== undefined && !isCoverSize(size)) {
+    return c.json({ error: `size must be one of ${Object.keys(COVER_SIZES).join(', ')}` }, 400)
+  }
+
+  if (!(await canAccessBook(bookId, user.id))) {
+    return c.json({ error: 'Book not found' }, 404)
+  }
+
+  const book = await db.query.books.findFirst({
+    where: eq(books.id, bookId),
+    columns: { coverImagePath: true },
+  })
+  if (!book?.coverImagePath) {
+    return c.json({ error: 'Cover not found' }, 404)
+  }
+
+  // Thumbnails may be missing (undecodable cover): fall back to the original
+  let file = size ? minio.file(coverThumbnailKey(bookId, size)) : null
+  let stat = file ? await file.stat().catch(() => null) : null
+  let contentType = 'image/webp'
+  if (!file || !stat) {
+    const [asset] = await db
+      .select({ mimeType: assets.mimeType })
+      .from(assets)
+      .innerJoin(blobs, eq(assets.blobId, blobs.id))
+      .where(and(eq(assets.bookId, bookId), eq(blobs.s3Key, book.coverImagePath)))
+      .limit(1)
+    file = minio.file(book.coverImagePath)
+    contentType = asset?.mimeType ?? 'application/octet-stream'
+    try {
+      stat = await file.stat()
+    } catch (error) {
+      console.error(`Failed to stat cover ${book.coverImagePath}:`, error)
+      return c.json({ error: 'Failed to load cover' }, 500)
+    }
+  }
+
+  for (const [name, value] of Object.entries(getAssetResponseHeaders(contentType))) {
+    c.header(name, value)
+  }
+  c.header('ETag', stat.etag)
+  c.header('Cache-Control', 'private, max-age=86400')
+
+  if (c.req.header('If-None-Match') === stat.etag) {
+    return c.body(null, 304)
+  }
+
+  c.header('Content-Length', String(stat.size))
+  return c.body(file.stream())
+})
+
+// ?annotations=false leaves out the user's highlights and notes
+app.get('/:id/export', async (c) => {
+  const user = c.get('user')!
+  const bookId = c.req.param('id')
+  const includeAnnotations = c.req.query('annotations') !== 'false'
+
+  if (!(await canAccessBook(bookId, user.id))) {
+    return c.json({ error: 'Book not found' }, 404)
+  }
+
+  const book = await db.query.books.findFirst({
+    where: eq(books.id, bookId),
+    with: {
+      chapters: {
+        columns: { id: true, spineIndex: true, href: true, linear: true, title: true, htmlContent: true },
+      },
+      assets: {
+        columns: { originalPath: true, mimeType: true },
+        with: { blob: { columns: { s3Key: true } } },
+      },
+    },
+  })
+  if (!book) {
+    return c.json({ error: 'Book not found' }, 404)
+  }
+
+  const userAnnotations = includeAnnotations
+    ? await db.query.annotations.findMany({
+      where: and(eq(annotations.bookId, bookId), eq(annotations.userId, user.id), eq(annotations.orphaned, false)),
+      columns: { id: true, chapterId: true, type: true, startOffset: true, endOffset: true, color: true, noteContent: true },
+    })
+    : []
+
+  // Identical files share a blob: only the first can be the cover
+  const coverPath = book.assets.find(asset => asset.blob.s3Key === book.coverImagePath)?.originalPath
+  const archive = buildEpub(
+    book,
+    book.chapters.map(chapter => ({
+      ...chapter,
+      annotations: userAnnotations.filter(annotation => annotation.chapterId === chapter.id),
+    })),
+    book.assets.map(asset => ({
+      originalPath: asset.originalPath,
+      mimeType: asset.mimeType,
+      // The response has started by then: a failure can only abort it
+      read: () => minio.file(asset.blob.s3Key).bytes().catch(error => {
+        console.error(`Failed to load asset ${asset.originalPath} of book ${bookId}:`, error)
+        throw error
+      }),
+      isCover: asset.originalPath === coverPath,
+    })),
+  )
+
+  const filename = `${book.title.replace(/[^\w\- ]+/g, '').trim() || 'book'}.epub`
+  c.header('Content-Type', 'application/epub+zip')
+  c.header('Content-Disposition', `attachment; filename="${filename}"; filename*=UTF-8''${encodeURIComponent(`${book.title}.epub`)}`)
+  c.header('Cache-Control', 'private, no-store')
+  return c.body(archive)
+})
+
+app.get('/:id/search', async (c) => {
+  const user = c.get('user')!
+  const bookId = c.req.param('id')
+  const query = c.req.query('q')?.trim()
+
+  if (!query) {
+    return c.json({ error: 'Query parameter q is required' }, 400)
+  }
+
+  if (!(await canAccessBook(bookId, user.id))) {
+    return c.json({ error: 'Book not found' }, 404)
+  }
+
+  const { limit, offset } = parsePagination(c.req.query('limit'), c.req.query('offset'))
+  const { total, results } = await searchChapters({ query, userId: user.id, bookId, limit, offset })
+
+  return c.json({ bookId, query, total, limit, offset, results })
+})
+
 app.get('/:bookId/chapters/:index', async (c) => {
+  const user = c.get('user')!
   const bookId = c.req.param('bookId')
   const chapterIndex = parseInt(c.req.param('index'))
   
@@ -38,6 +251,10 @@ app.get('/:bookId/chapters/:index', async (c) => {
     return c.json({ error: 'Invalid chapter index' }, 400)
   }
   
+  if (!(await canAccessBook(bookId, user.id))) {
+    return c.json({ error: 'Book not found' }, 404)
+  }
+  
   const chapter = await db.query.chapters.findFirst({
     where: and(
       eq(chapters.bookId, bookId),
@@ -49,50 +266,212 @@ app.get('/:bookId/chapters/:index', async (c) => {
     return c.json({ error: 'Chapter not found' }, 404)
   }
   
-  return c.json(chapter)
+  // Sequential navigation skips non-linear items (footnotes, covers...)
+  const linearChapters = await db.query.chapters.findMany({
+    where: and(
+      eq(chapters.bookId, bookId),
+      eq(chapters.linear, true),
+    ),
+    columns: {
+      spineIndex: true,
+    },
+    orderBy: chapters.spineIndex,
+  })
+  const previous = linearChapters.filter(ch => ch.spineIndex < chapterIndex).at(-1)
+  const next = linearChapters.find(ch => ch.spineIndex > chapterIndex)
+  
+  return c.json({
+    ...chapter,
+    navigation: {
+      previousSpineIndex: previous?.spineIndex ?? null,
+      nextSpineIndex: next?.spineIndex ?? null,
+    },
+  })
 })
 
-app.put('/', async (c) => {
-  const body = await c.req.parseBody()
-  const file = body['file']
-  // file to ArrayBuffer
-  if (!file) {
-    return c.json({ error: 'No file provided' }, 400)
-  }
-  if(!(file instanceof File)) {
-    return c.json({ error: 'Invalid file type' }, 400)
-  }
-  const buffer = await file.arrayBuffer()
-  const parsedEpub = await parseEpub(buffer)
-  // create book in db
-  const insertedBook = await db.insert(books).values(parsedEpub.newBook).returning().then(res => res[0])
-  // if the book was not inserted, return error
-  if (!insertedBook) {
-    return c.json({ error: 'Failed to insert book into database' }, 500)
-  }
-  const bookId = insertedBook.id
-  // insert chapters into db
-  await db.insert(chapters).values(parsedEpub.chapters.map(chapter => ({
-    ...chapter,
-    bookId: bookId,
-  })))
-  // add all assets to s3 and add them to the assets table
-  for (const [originalPath, data] of Object.entries(parsedEpub.assets)) {
-    const s3Key = `books/${bookId}/assets/${originalPath}`
-    // upload to s3
-    await minio.write(s3Key, data, {
-      type: 'application/octet-stream',
-      
-    })
-    await db.insert(assets).values({
-      bookId: bookId,
-      originalPath: originalPath,
-      mimeType: 'application/octet-stream',
-      s3Key: s3Key,
-      fileSize: data.byteLength,
+// Lists the book's assets, optionally of one type (?type=font), e.g. to preload fonts or show an image gallery
+app.get('/:bookId/assets', async (c) => {
+  const user = c.get('user')!
+  const bookId = c.req.param('bookId')
+  const type = c.req.query('type')
+
+  const assetTypes: readonly string[] = assets.assetType.enumValues
+  if (type !== undefined && !assetTypes.includes(type)) {
+    return c.json({ error: `type must be one of ${assetTypes.join(', ')}` }, 400)
+  }
+
+  if (!(await canAccessBook(bookId, user.id))) {
+    return c.json({ error: 'Book not found' }, 404)
+  }
+
+  const bookAssets = await db
+    .select({
+      originalPath: assets.originalPath,
+      mimeType: assets.mimeType,
+      assetType: assets.assetType,
+      fileSize: assets.fileSize,
     })
+    .from(assets)
+    .where(and(
+      eq(assets.bookId, bookId),
+      type ? eq(assets.assetType, type as AssetType) : undefined,
+    ))
+    .orderBy(assets.originalPath)
+
+  return c.json({ assets: bookAssets.map(asset => ({ ...asset, url: assetUrl(bookId, asset.originalPath) })) })
+})
+
+app.get('/:bookId/assets/*', async (c) => {
+  const user = c.get('user')!
+  const bookId = c.req.param('bookId')
+  // Everything after /assets/ is the asset's original path in the EPUB (c.req.path is decoded)
+  const marker = '/assets/'
+  const assetPath = c.req.path.slice(c.req.path.indexOf(marker) + marker.length)
+
+  if (!assetPath) {
+    return c.json({ error: 'Invalid asset path' }, 400)
   }
-  return c.json({ book: insertedBook, chaptersCount: parsedEpub.chapters.length })
+
+  if (!(await canAccessBook(bookId, user.id))) {
+    return c.json({ error: 'Book not found' }, 404)
+  }
+
+  const asset = await db.query.assets.findFirst({
+    where: and(
+      eq(assets.bookId, bookId),
+      // Books ingested before paths were decoded store the manifest's percent-encoded href
+      inArray(assets.originalPath, [assetPath, encodeURI(assetPath)]),
+    ),
+    with: {
+      blob: {
+        columns: { s3Key: true },
+      },
+    },
+  })
+
+  if (!asset) {
+    return c.json({ error: 'Asset not found' }, 404)
+  }
+
+  const file = minio.file(asset.blob.s3Key)
+  let stat
+  try {
+    stat = await file.stat()
+  } catch (error) {
+    console.error(`Failed to stat asset ${asset.blob.s3Key}:`, error)
+    return c.json({ error: 'Failed to load asset' }, 500)
+  }
+
+  // Assets are served from the API's origin: see getAssetResponseHeaders
+  for (const [name, value] of Object.entries(getAssetResponseHeaders(asset.mimeType))) {
+    c.header(name, value)
+  }
+  c.header('ETag', stat.etag)
+  // Assets are only readable by users with access to the book: keep them out of shared caches
+  c.header('Cache-Control', 'private, max-age=31536000, immutable')
+  c.header('Accept-Ranges', 'bytes')
+
+  if (c.req.header('If-None-Match') === stat.etag) {
+    return c.body(null, 304)
+  }
+
+  // Malformed and multi-range headers are ignored: the whole asset is sent
+  const range = parseRangeHeader(c.req.header('Range') ?? '', stat.size)
+  if (range === 'unsatisfiable') {
+    c.header('Content-Range', `bytes */${stat.size}`)
+    return c.body(null, 416)
+  }
+  if (range) {
+    c.header('Content-Range', `bytes ${range.start}-${range.end}/${stat.size}`)
+    c.header('Content-Length', String(range.end - range.start + 1))
+    return c.body(file.slice(range.start, range.end + 1).stream(), 206)
+  }
+
+  c.header('Content-Length', String(stat.size))
+  return c.body(file.stream())
+})
+
+// Deleting moves the book to the trash; ?permanent=true purges it (rows and S3 objects) right away.
+// Only the uploader may delete a book, group members merely lose access to it.
+app.delete('/:id', async (c) => {
+  const user = c.get('user')!
+  const bookId = c.req.param('id')
+  const permanent = c.req.query('permanent') === 'true'
+
+  const book = await db.query.books.findFirst({
+    where: and(eq(books.id, bookId), eq(books.userId, user.id)),
+    columns: { id: true, deletedAt: true },
+  })
+  if (!book) {
+    return c.json({ error: 'Book not found' }, 404)
+  }
+
+  if (permanent) {
+    await purgeBook(book.id)
+    return c.json({ id: book.id, deleted: true, permanent: true })
+  }
+
+  if (book.deletedAt) {
+    return c.json({ id: book.id, deleted: true, deletedAt: book.deletedAt, purgeAt: getPurgeDate(book.deletedAt) })
+  }
+
+  const deletedAt = new Date()
+  await db.update(books).set({ deletedAt, updatedAt: deletedAt }).where(eq(books.id, book.id))
+  await scheduleBookPurge(book.id, user.id, deletedAt)
+
+  return c.json({ id: book.id, deleted: true, deletedAt, purgeAt: getPurgeDate(deletedAt) })
+})
+
+app.post('/:id/restore', async (c) => {
+  const user = c.get('user')!
+  const bookId = c.req.param('id')
+
+  const [restored] = await db.update(books)
+    .set({ deletedAt: null, updatedAt: new Date() })
+    .where(and(eq(books.id, bookId), eq(books.userId, user.id), isNotNull(books.deletedAt)))
+    .returning({ id: books.id })
+  if (!restored) {
+    return c.json({ error: 'Book not found in trash' }, 404)
+  }
+
+  return c.json({ id: restored.id, restored: true })
+})
+
+// Uploads are streamed to S3: either a multipart form with a "file" field or a raw application/epub+zip body.
+// ?onDuplicate= decides what a re-upload of a book already in the library does (dedupe by default).
+app.put('/', bodyLimit({
+  maxSize: MAX_UPLOAD_SIZE,
+  onError: (c) => c.json({ error: `File exceeds the maximum upload size of ${MAX_UPLOAD_SIZE} bytes` }, 413),
+}), async (c) => {
+  const user = c.get('user')!
+  const onDuplicate = c.req.query('onDuplicate') ?? 'dedupe'
+  if (!isDuplicateMode(onDuplicate)) {
+    return c.json({ error: `onDuplicate must be one of ${DUPLICATE_MODES.join(', ')}` }, 400)
+  }
+
+  // A raw application/epub+zip body is the streaming path: it is piped to storage as
+  // it arrives. Multipart forms (browser uploads) are parsed in memory, up to the size limit.
+  let upload: ReadableStream<Uint8Array>
+  if (c.req.header('Content-Type')?.startsWith('application/epub+zip')) {
+    if (!c.req.raw.body) {
+      return c.json({ error: 'No file provided' }, 400)
+    }
+    upload = c.req.raw.body
+  } else {
+    const body = await c.req.parseBody()
+    const file = body['file']
+    if (!file) {
+      return c.json({ error: 'No file provided' }, 400)
+    }
+    if(!(file instanceof File)) {
+      return c.json({ error: 'Invalid file type' }, 400)
+    }
+    upload = file.stream()
+  }
+
+  // Ingestion runs in the background: clients poll GET /jobs/:id
+  const job = await queueEpubIngestion(upload, user.id, onDuplicate)
+  return c.json({ job: serializeJob(job) }, 202)
 })
 
-export default app
\ No newline at end of file
+export default app
@@ -0,0 +1,459 @@
+import { Hono } from "hono"
+import { and, desc, eq, isNull, sql } from "drizzle-orm"
+import { canManageRole, getGroupRole, hasGroupRole } from "../auth/access"
+import { requireAuth, type AuthVariables } from "../auth/middleware"
+import { books, db, groupBooks, groupInvites, groupMembers, readingGroups, type GroupInvite, type Transaction } from "../db"
+
+const app = new Hono<{ Variables: AuthVariables }>()
+
+app.use('*', requireAuth)
+
+const MAX_NAME_LENGTH = 100
+
+/**
+ * Generate a URL-safe invite code
+ */
+export const generateInviteCode = (): string =>
+  Buffer.from(crypto.getRandomValues(new Uint8Array(12))).toString('base64url')
+
+/**
+ * Check whether an invite can still be redeemed
+ */
+export const isInviteUsable = (invite: Pick<GroupInvite, 'expiresAt' | 'maxUses' | 'uses'>, now = new Date()): boolean =>
+  (invite.expiresAt === null || invite.expiresAt > now) &&
+  (invite.maxUses === null || invite.uses < invite.maxUses)
+
+/**
+ * Lock a group's owners and count them, so that two owners can't both leave
+ * or step down at once
+ */
+const lockOwners = async (tx: Transaction, groupId: string) => {
+  const owners = await tx.select({ userId: groupMembers.userId })
+    .from(groupMembers)
+    .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.role, 'owner')))
+    .for('update')
+  return owners.length
+}
+
+const parseGroupName = (name: unknown): string | null =>
+  typeof name === 'string' && name.trim() && name.trim().length <= MAX_NAME_LENGTH ? name.trim() : null
+
+app.get('/', async (c) => {
+  const user = c.get('user')!
+
+  const memberships = await db
+    .select({
+      id: readingGroups.id,
+      name: readingGroups.name,
+      description: readingGroups.description,
+      role: groupMembers.role,
+      joinedAt: groupMembers.joinedAt,
+    })
+    .from(groupMembers)
+    .innerJoin(readingGroups, eq(groupMembers.groupId, readingGroups.id))
+    .where(eq(groupMembers.userId, user.id))
+    .orderBy(desc(groupMembers.joinedAt))
+
+  return c.json({ groups: memberships })
+})
+
+app.post('/', async (c) => {
+  const user = c.get('user')!
+  const body = await c.req.json().catch(() => null)
+
+  const name = parseGroupName(body?.name)
+  if (!name) {
+    return c.json({ error: `name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters` }, 400)
+  }
+
+  const group = await db.transaction(async (tx) => {
+    const [created] = await tx.insert(readingGroups).values({
+      name,
+      description: typeof body.description === 'string' ? body.description : null,
+    }).returning()
+    await tx.insert(groupMembers).values({ groupId: created!.id, userId: user.id, role: 'owner' })
+    return created!
+  })
+
+  return c.json({ ...group, role: 'owner' }, 201)
+})
+
+app.post('/join', async (c) => {
+  const user = c.get('user')!
+  const body = await c.req.json().catch(() => null)
+
+  if (typeof body?.code !== 'string') {
+    return c.json({ error: 'code is required' }, 400)
+  }
+
+  const invite = await db.query.groupInvites.findFirst({
+    where: eq(groupInvites.code, body.code),
+  })
+  if (!invite || !isInviteUsable(invite)) {
+    return c.json({ error: 'Invite not found or expired' }, 404)
+  }
+
+  const existingRole = await getGroupRole(invite.groupId, user.id)
+  if (existingRole) {
+    return c.json({ groupId: invite.groupId, role: existingRole, alreadyMember: true })
+  }
+
+  const joined = await db.transaction(async (tx) => {
+    // Count the use atomically so a max-uses invite can't be over-redeemed
+    const [counted] = await tx.update(groupInvites)
+      .set({ uses: sql`${groupInvites.uses} + 1` })
+      .where(and(
+        eq(groupInvites.id, invite.id),
+        sql`(${groupInvites.maxUses} is null or ${groupInvites.uses} < ${groupInvites.maxUses})`,
+      ))
+      .returning({ id: groupInvites.id })
+    if (!counted) {
+      return false
+    }
+    await tx.insert(groupMembers).values({ groupId: invite.groupId, userId: user.id, role: invite.role })
+    return true
+  })
+
+  if (!joined) {
+    return c.json({ error: 'Invite not found or expired' }, 404)
+  }
+
+  return c.json({ groupId: invite.groupId, role: invite.role, alreadyMember: false }, 201)
+})
+
+app.get('/:id', async (c) => {
+  const user = c.get('user')!
+  const groupId = c.req.param('id')
+
+  const role = await getGroupRole(groupId, user.id)
+  if (!role) {
+    return c.json({ error: 'Group not found' }, 404)
+  }
+
+  const group = await db.query.readingGroups.findFirst({
+    where: eq(readingGroups.id, groupId),
+    with: {
+      members: {
+        with: {
+          user: {
+            columns: { id: true, name: true, image: true },
+          },
+        },
+      },
+      books: {
+        with: {
+          book: {
+            columns: { id: true, title: true, author: true, coverImagePath: true, deletedAt: true },
+          },
+        },
+      },
+    },
+  })
+
+  if (!group) {
+    return c.json({ error: 'Group not found' }, 404)
+  }
+
+  return c.json({
+    id: group.id,
+    name: group.name,
+    description: group.description,
+    createdAt: group.createdAt,
+    role,
+    members: group.members.map(member => ({ ...member.user, role: member.role, joinedAt: member.joinedAt })),
+    // Books in their owner's trash leave the group until restored
+    books: group.books
+      .filter(shared => !shared.book.deletedAt)
+      .map(({ book: { deletedAt, ...book }, sharedBy, sharedAt }) => ({ ...book, sharedBy, sharedAt })),
+  })
+})
+
+app.patch('/:id', async (c) => {
+  const user = c.get('user')!
+  const groupId = c.req.param('id')
+  const body = await c.req.json().catch(() => null)
+
+  const role = await getGroupRole(groupId, user.id)
+  if (!role) {
+    return c.json({ error: 'Group not found' }, 404)
+  }
+  if (!hasGroupRole(role, 'moderator')) {
+    return c.json({ error: 'Only owners and moderators can edit the group' }, 403)
+  }
+
+  const changes: { name?: string; description?: string | null } = {}
+  if (body?.name !== undefined) {
+    const name = parseGroupName(body.name)
+    if (!name) {
+      return c.json({ error: `name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters` }, 400)
+    }
+    changes.name = name
+  }
+  if (body?.description !== undefined) {
+    changes.description = typeof body.description === 'string' ? body.description : null
+  }
+
+  const [updated] = await db.update(readingGroups)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(eq(readingGroups.id, groupId))
+    .returning()
+
+  return c.json({ ...updated, role })
+})
+
+app.delete('/:id', async (c) => {
+  const user = c.get('user')!
+  const groupId = c.req.param('id')
+
+  const role = await getGroupRole(groupId, user.id)
+  if (!role) {
+    return c.json({ error: 'Group not found' }, 404)
+  }
+  if (role !== 'owner') {
+    return c.json({ error: 'Only owners can delete the group' }, 403)
+  }
+
+  await db.delete(readingGroups).where(eq(readingGroups.id, groupId))
+
+  return c.json({ id: groupId, deleted: true })
+})
+
+app.get('/:id/invites', async (c) => {
+  const user = c.get('user')!
+  const groupId = c.req.param('id')
+
+  const role = await getGroupRole(groupId, user.id)
+  if (!role) {
+    return c.json({ error: 'Group not found' }, 404)
+  }
+  if (!hasGroupRole(role, 'moderator')) {
+    return c.json({ error: 'Only owners and moderators can manage invites' }, 403)
+  }
+
+  const invites = await db.query.groupInvites.findMany({
+    where: eq(groupInvites.groupId, groupId),
+    orderBy: desc(groupInvites.createdAt),
+  })
+
+  return c.json({ invites: invites.map(invite => ({ ...invite, usable: isInviteUsable(invite) })) })
+})
+
+app.post('/:id/invites', async (c) => {
+  const user = c.get('user')!
+  const groupId = c.req.param('id')
+  const body = await c.req.json().catch(() => ({}))
+
+  const role = await getGroupRole(groupId, user.id)
+  if (!role) {
+    return c.json({ error: 'Group not found' }, 404)
+  }
+
+  const inviteRole = body?.role ?? 'reader'
+  if (inviteRole !== 'reader' && inviteRole !== 'moderator') {
+    return c.json({ error: 'role must be reader or moderator' }, 400)
+  }
+  if (!canManageRole(role, inviteRole)) {
+    return c.json({ error: `You can't invite ${inviteRole}s to this group` }, 403)
+  }
+
+  const { expiresInHours, maxUses } = body ?? {}
+  if (expiresInHours !== undefined && (typeof expiresInHours !== 'number' || expiresInHours <= 0)) {
+    return c.json({ error: 'expiresInHours must be a positive number' }, 400)
+  }
+  if (maxUses !== undefined && (!Number.isInteger(maxUses) || maxUses <= 0)) {
+    return c.json({ error: 'maxUses must be a positive integer' }, 400)
+  }
+
+  const [invite] = await db.insert(groupInvites).values({
+    groupId,
+    code: generateInviteCode(),
+    role: inviteRole,
+    createdBy: user.id,
+    expiresAt: expiresInHours ? new Date(Date.now() + expiresInHours * 3600 * 1000) : null,
+    maxUses: maxUses ?? null,
+  }).returning()
+
+  return c.json(invite, 201)
+})
+
+app.delete('/:id/invites/:inviteId', async (c) => {
+  const user = c.get('user')!
+  const groupId = c.req.param('id')
+
+  const role = await getGroupRole(groupId, user.id)
+  if (!role) {
+    return c.json({ error: 'Group not found' }, 404)
+  }
+  if (!hasGroupRole(role, 'moderator')) {
+    return c.json({ error: 'Only owners and moderators can manage invites' }, 403)
+  }
+
+  const [deleted] = await db.delete(groupInvites)
+    .where(and(
+      eq(groupInvites.id, c.req.param('inviteId')),
+      eq(groupInvites.groupId, groupId),
+    ))
+    .returning({ id: groupInvites.id })
+
+  if (!deleted) {
+    return c.json({ error: 'Invite not found' }, 404)
+  }
+
+  return c.json({ id: deleted.id, deleted: true })
+})
+
+app.patch('/:id/members/:userId', async (c) => {
+  const user = c.get('user')!
+  const groupId = c.req.param('id')
+  const memberId = c.req.param('userId')
+  const body = await c.req.json().catch(() => null)
+
+  const role = await getGroupRole(groupId, user.id)
+  if (!role) {
+    return c.json({ error: 'Group not found' }, 404)
+  }
+
+  const newRole = body?.role
+  if (newRole !== 'reader' && newRole !== 'moderator' && newRole !== 'owner') {
+    return c.json({ error: 'role must be reader, moderator or owner' }, 400)
+  }
+
+  const memberRole = await getGroupRole(groupId, memberId)
+  if (!memberRole) {
+    return c.json({ error: 'Member not found' }, 404)
+  }
+
+  // Owners hand the group over by making another member an owner, then stepping down
+  const ownChange = memberId === user.id && memberRole === 'owner'
+  const steppingDown = ownChange && newRole !== 'owner'
+  const allowed = newRole === 'owner'
+    ? role === 'owner'
+    : canManageRole(role, memberRole) && canManageRole(role, newRole)
+  if (!ownChange && !allowed) {
+    return c.json({ error: `You can't change this member's role` }, 403)
+  }
+
+  const updated = await db.transaction(async (tx) => {
+    if (steppingDown && await lockOwners(tx, groupId) <= 1) {
+      return false
+    }
+    await tx.update(groupMembers)
+      .set({ role: newRole })
+      .where(and(
+        eq(groupMembers.groupId, groupId),
+        eq(groupMembers.userId, memberId),
+      ))
+    return true
+  })
+
+  if (!updated) {
+    return c.json({ error: 'The last owner can\'t step down' }, 409)
+  }
+
+  return c.json({ groupId, userId: memberId, role: newRole })
+})
+
+app.delete('/:id/members/:userId', async (c) => {
+  const user = c.get('user')!
+  const groupId = c.req.param('id')
+  const memberId = c.req.param('userId')
+
+  const role = await getGroupRole(groupId, user.id)
+  if (!role) {
+    return c.json({ error: 'Group not found' }, 404)
+  }
+
+  const memberRole = await getGroupRole(groupId, memberId)
+  if (!memberRole) {
+    return c.json({ error: 'Member not found' }, 404)
+  }
+
+  const leaving = memberId === user.id
+  if (!leaving && !canManageRole(role, memberRole)) {
+    return c.json({ error: `You can't remove this member` }, 403)
+  }
+
+  const removed = await db.transaction(async (tx) => {
+    // The last owner has to hand the group over or delete it rather than leave it ownerless
+    if (leaving && memberRole === 'owner' && await lockOwners(tx, groupId) <= 1) {
+      return false
+    }
+    await tx.delete(groupMembers)
+      .where(and(
+        eq(groupMembers.groupId, groupId),
+        eq(groupMembers.userId, memberId),
+      ))
+    return true
+  })
+
+  if (!removed) {
+    return c.json({ error: 'The last owner can\'t leave the group' }, 409)
+  }
+
+  return c.json({ groupId, userId: memberId, removed: true })
+})
+
+app.post('/:id/books', async (c) => {
+  const user = c.get('user')!
+  const groupId = c.req.param('id')
+  const body = await c.req.json().catch(() => null)
+
+  if (typeof body?.bookId !== 'string') {
+    return c.json({ error: 'bookId is required' }, 400)
+  }
+
+  const role = await getGroupRole(groupId, user.id)
+  if (!role) {
+    return c.json({ error: 'Group not found' }, 404)
+  }
+
+  // Members share the books they uploaded
+  const book = await db.query.books.findFirst({
+    where: and(
+      eq(books.id, body.bookId),
+      eq(books.userId, user.id),
+      isNull(books.deletedAt),
+    ),
+    columns: { id: true },
+  })
+  if (!book) {
+    return c.json({ error: 'Book not found' }, 404)
+  }
+
+  const [shared] = await db.insert(groupBooks)
+    .values({ groupId, bookId: book.id, sharedBy: user.id })
+    .onConflictDoNothing()
+    .returning()
+
+  return c.json({ groupId, bookId: book.id, alreadyShared: !shared }, shared ? 201 : 200)
+})
+
+app.delete('/:id/books/:bookId', async (c) => {
+  const user = c.get('user')!
+  const groupId = c.req.param('id')
+  const bookId = c.req.param('bookId')
+
+  const role = await getGroupRole(groupId, user.id)
+  if (!role) {
+    return c.json({ error: 'Group not found' }, 404)
+  }
+
+  const shared = await db.query.groupBooks.findFirst({
+    where: and(
+      eq(groupBooks.groupId, groupId),
+      eq(groupBooks.bookId, bookId),
+    ),
+  })
+  if (!shared) {
+    return c.json({ error: 'Book not found' }, 404)
+  }
+  if (shared.sharedBy !== user.id && !hasGroupRole(role, 'moderator')) {
+    return c.json({ error: 'Only the member who shared the book or a moderator can remove it' }, 403)
+  }
+
+  await db.delete(groupBooks).where(eq(groupBooks.id, shared.id))
+
+  return c.json({ groupId, bookId, removed: true })
+})
+
+export default app
@@ -0,0 +1,41 @@
+import { Hono } from "hono"
+import { and, eq } from "drizzle-orm"
+import { requireAuth, type AuthVariables } from "../auth/middleware"
+import { db, jobs, type Job } from "../db"
+
+const app = new Hono<{ Variables: AuthVariables }>()
+
+app.use('*', requireAuth)
+
+export const serializeJob = (job: Job) => ({
+  id: job.id,
+  type: job.type,
+  status: job.status,
+  progress: job.progress,
+  result: job.result,
+  error: job.error,
+  attempts: job.attempts,
+  maxAttempts: job.maxAttempts,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+  finishedAt: job.finishedAt,
+})
+
+app.get('/:id', async (c) => {
+  const user = c.get('user')!
+
+  const job = await db.query.jobs.findFirst({
+    where: and(
+      eq(jobs.id, c.req.param('id')),
+      eq(jobs.userId, user.id),
+    ),
+  })
+
+  if (!job) {
+    return c.json({ error: 'Job not found' }, 404)
+  }
+
+  return c.json(serializeJob(job))
+})
+
+export default app
@@ -0,0 +1,201 @@
+import { Hono } from "hono"
+import { and, desc, eq, isNull, sql } from "drizzle-orm"
+import { canAccessBook } from "../auth/access"
+import { requireAuth, type AuthVariables } from "../auth/middleware"
+import { books, chapters, db, readingProgress } from "../db"
+
+const app = new Hono<{ Variables: AuthVariables }>()
+
+app.use('*', requireAuth)
+
+/**
+ * Overall progress (0-100) from chapter word counts: every linear chapter
+ * before the current one counts fully, the current one by its read fraction.
+ * Non-linear items (footnotes, covers...) don't count towards the total.
+ */
+export const computeProgressPercent = (
+  bookChapters: Array<{ spineIndex: number; wordCount: number | null; linear: boolean }>,
+  currentSpineIndex: number,
+  chapterProgress: number,
+): number => {
+  const linearChapters = bookChapters.filter(ch => ch.linear)
+  const totalWords = linearChapters.reduce((sum, ch) => sum + (ch.wordCount ?? 0), 0)
+  if (totalWords === 0) {
+    return 0
+  }
+
+  let wordsRead = 0
+  for (const ch of linearChapters) {
+    if (ch.spineIndex < currentSpineIndex) {
+      wordsRead += ch.wordCount ?? 0
+    } else if (ch.spineIndex === currentSpineIndex) {
+      wordsRead += (ch.wordCount ?? 0) * chapterProgress
+    }
+  }
+
+  return Math.min(100, Math.max(0, Math.round((wordsRead / totalWords) * 100)))
+}
+
+/**
+ * Validate a progress update body
+ */
+export const parseProgressUpdate = (body: any) => {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Invalid request body' } as const
+  }
+
+  const { spineIndex, scrollPosition = 0, chapterProgress = 0, clientTimestamp } = body
+  if (!Number.isInteger(spineIndex) || spineIndex < 0) {
+    return { error: 'spineIndex must be a non-negative integer' } as const
+  }
+  if (!Number.isInteger(scrollPosition) || scrollPosition < 0) {
+    return { error: 'scrollPosition must be a non-negative integer' } as const
+  }
+  if (typeof chapterProgress !== 'number' || chapterProgress < 0 || chapterProgress > 1) {
+    return { error: 'chapterProgress must be a number between 0 and 1' } as const
+  }
+
+  const readAt = new Date(clientTimestamp)
+  if (clientTimestamp === undefined || isNaN(readAt.getTime())) {
+    return { error: 'clientTimestamp must be a valid date' } as const
+  }
+
+  return { spineIndex: spineIndex as number, scrollPosition: scrollPosition as number, chapterProgress, readAt } as const
+}
+
+const serializeProgress = (progress: typeof readingProgress.$inferSelect, spineIndex: number | null) => ({
+  bookId: progress.bookId,
+  chapterId: progress.chapterId,
+  spineIndex,
+  scrollPosition: progress.scrollPosition,
+  chapterProgress: progress.chapterProgress,
+  progressPercent: progress.progressPercent,
+  lastReadAt: progress.lastReadAt,
+  updatedAt: progress.updatedAt,
+})
+
+app.get('/continue-reading', async (c) => {
+  const user = c.get('user')!
+  const limit = Math.min(Math.max(parseInt(c.req.query('limit') ?? '10') || 10, 1), 50)
+
+  const recent = await db
+    .select({
+      bookId: books.id,
+      title: books.title,
+      author: books.author,
+      coverImagePath: books.coverImagePath,
+      spineIndex: chapters.spineIndex,
+      chapterTitle: chapters.title,
+      progressPercent: readingProgress.progressPercent,
+      lastReadAt: readingProgress.lastReadAt,
+    })
+    .from(readingProgress)
+    .innerJoin(books, eq(readingProgress.bookId, books.id))
+    .innerJoin(chapters, eq(readingProgress.chapterId, chapters.id))
+    .where(and(eq(readingProgress.userId, user.id), isNull(books.deletedAt)))
+    .orderBy(desc(readingProgress.lastReadAt))
+    .limit(limit)
+
+  return c.json({ books: recent })
+})
+
+app.get('/:id/progress', async (c) => {
+  const user = c.get('user')!
+  const bookId = c.req.param('id')
+
+  if (!(await canAccessBook(bookId, user.id))) {
+    return c.json({ error: 'Book not found' }, 404)
+  }
+
+  const progress = await db.query.readingProgress.findFirst({
+    where: and(
+      eq(readingProgress.userId, user.id),
+      eq(readingProgress.bookId, bookId),
+    ),
+    with: {
+      chapter: {
+        columns: { spineIndex: true },
+      },
+    },
+  })
+
+  if (!progress) {
+    return c.json({ error: 'No reading progress for this book' }, 404)
+  }
+
+  return c.json(serializeProgress(progress, progress.chapter.spineIndex))
+})
+
+app.put('/:id/progress', async (c) => {
+  const user = c.get('user')!
+  const bookId = c.req.param('id')
+
+  const update = parseProgressUpdate(await c.req.json().catch(() => null))
+  if ('error' in update) {
+    return c.json({ error: update.error }, 400)
+  }
+
+  if (!(await canAccessBook(bookId, user.id))) {
+    return c.json({ error: 'Book not found' }, 404)
+  }
+
+  const bookChapters = await db.query.chapters.findMany({
+    where: eq(chapters.bookId, bookId),
+    columns: { id: true, spineIndex: true, wordCount: true, linear: true },
+  })
+  const chapter = bookChapters.find(ch => ch.spineIndex === update.spineIndex)
+  if (!chapter) {
+    return c.json({ error: 'Chapter not found' }, 404)
+  }
+
+  const values = {
+    userId: user.id,
+    bookId,
+    chapterId: chapter.id,
+    scrollPosition: update.scrollPosition,
+    chapterProgress: update.chapterProgress,
+    progressPercent: computeProgressPercent(bookChapters, update.spineIndex, update.chapterProgress),
+    lastReadAt: update.readAt,
+    updatedAt: new Date(),
+  }
+
+  // Last write wins on the client timestamp, so devices can sync in any order
+  const [written] = await db.insert(readingProgress)
+    .values(values)
+    .onConflictDoUpdate({
+      target: [readingProgress.userId, readingProgress.bookId],
+      set: {
+        chapterId: values.chapterId,
+        scrollPosition: values.scrollPosition,
+        chapterProgress: values.chapterProgress,
+        progressPercent: values.progressPercent,
+        lastReadAt: values.lastReadAt,
+        updatedAt: values.updatedAt,
+      },
+      setWhere: sql`${readingProgress.lastReadAt} < excluded.last_read_at`,
+    })
+    .returning()
+
+  if (written) {
+    return c.json({ applied: true, progress: serializeProgress(written, update.spineIndex) })
+  }
+
+  // A newer update from another device is already stored: return it unchanged
+  const current = await db.query.readingProgress.findFirst({
+    where: and(
+      eq(readingProgress.userId, user.id),
+      eq(readingProgress.bookId, bookId),
+    ),
+    with: {
+      chapter: {
+        columns: { spineIndex: true },
+      },
+    },
+  })
+  if (!current) {
+    return c.json({ error: 'Failed to save reading progress' }, 500)
+  }
+  return c.json({ applied: false, progress: serializeProgress(current, current.chapter.spineIndex) })
+})
+
+export default app
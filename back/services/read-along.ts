@@ -0,0 +1,222 @@
+import { Hono } from "hono"
+import { and, desc, eq, isNull, lt } from "drizzle-orm"
+import { getGroupRole, hasGroupRole, isBookSharedWithMember } from "../auth/access"
+import { requireAuth, type AuthVariables } from "../auth/middleware"
+import { chapters, db, readAlongSessions, readingProgress, type ReadAlongSession } from "../db"
+import { broadcastReadAlong, getParticipantCount, toReadAlongState } from "../realtime/read-along"
+import { parseProgressUpdate } from "./progress"
+
+const app = new Hono<{ Variables: AuthVariables }>()
+
+app.use('*', requireAuth)
+
+const serializeSession = (session: ReadAlongSession) => ({
+  ...toReadAlongState(session),
+  participants: getParticipantCount(session.id),
+})
+
+/**
+ * Load a session the user can see (they are a member of its group), with their role
+ */
+const findSessionForMember = async (sessionId: string, userId: string) => {
+  const session = await db.query.readAlongSessions.findFirst({
+    where: eq(readAlongSessions.id, sessionId),
+  })
+  if (!session) {
+    return null
+  }
+  const role = await getGroupRole(session.groupId, userId)
+  return role ? { session, role } : null
+}
+
+app.get('/', async (c) => {
+  const user = c.get('user')!
+  const groupId = c.req.query('groupId')
+
+  if (!groupId) {
+    return c.json({ error: 'groupId is required' }, 400)
+  }
+  if (!(await getGroupRole(groupId, user.id))) {
+    return c.json({ error: 'Group not found' }, 404)
+  }
+
+  const sessions = await db.query.readAlongSessions.findMany({
+    where: and(
+      eq(readAlongSessions.groupId, groupId),
+      isNull(readAlongSessions.endedAt),
+    ),
+    orderBy: desc(readAlongSessions.startedAt),
+  })
+
+  return c.json({ sessions: sessions.map(serializeSession) })
+})
+
+app.post('/', async (c) => {
+  const user = c.get('user')!
+  const body = await c.req.json().catch(() => null)
+
+  if (typeof body?.groupId !== 'string' || typeof body?.bookId !== 'string') {
+    return c.json({ error: 'groupId and bookId are required' }, 400)
+  }
+  if (!(await isBookSharedWithMember(body.groupId, body.bookId, user.id))) {
+    return c.json({ error: 'Book not found in this group' }, 404)
+  }
+
+  // Start where the leader is currently reading
+  const progress = await db.query.readingProgress.findFirst({
+    where: and(
+      eq(readingProgress.userId, user.id),
+      eq(readingProgress.bookId, body.bookId),
+    ),
+    with: {
+      chapter: {
+        columns: { spineIndex: true },
+      },
+    },
+  })
+
+  // The partial unique index allows one running session per group and book
+  const [session] = await db.insert(readAlongSessions)
+    .values({
+      groupId: body.groupId,
+      bookId: body.bookId,
+      leaderId: user.id,
+      spineIndex: progress?.chapter.spineIndex ?? 0,
+      scrollPosition: progress?.scrollPosition ?? 0,
+      chapterProgress: progress?.chapterProgress ?? 0,
+      positionAt: progress?.lastReadAt ?? new Date(),
+    })
+    .onConflictDoNothing()
+    .returning()
+
+  if (!session) {
+    return c.json({ error: 'A read-along session is already running for this book' }, 409)
+  }
+
+  return c.json(serializeSession(session), 201)
+})
+
+app.get('/:id', async (c) => {
+  const user = c.get('user')!
+
+  const found = await findSessionForMember(c.req.param('id'), user.id)
+  if (!found) {
+    return c.json({ error: 'Session not found' }, 404)
+  }
+
+  return c.json(serializeSession(found.session))
+})
+
+app.put('/:id/position', async (c) => {
+  const user = c.get('user')!
+
+  const update = parseProgressUpdate(await c.req.json().catch(() => null))
+  if ('error' in update) {
+    return c.json({ error: update.error }, 400)
+  }
+
+  const found = await findSessionForMember(c.req.param('id'), user.id)
+  if (!found || found.session.endedAt) {
+    return c.json({ error: 'Session not found' }, 404)
+  }
+  if (found.session.leaderId !== user.id) {
+    return c.json({ error: 'Only the leader can move the session' }, 403)
+  }
+
+  const chapter = await db.query.chapters.findFirst({
+    where: and(
+      eq(chapters.bookId, found.session.bookId),
+      eq(chapters.spineIndex, update.spineIndex),
+    ),
+    columns: { id: true },
+  })
+  if (!chapter) {
+    return c.json({ error: 'Chapter not found' }, 404)
+  }
+
+  // Last write wins on the client timestamp, like reading progress
+  const [moved] = await db.update(readAlongSessions)
+    .set({
+      spineIndex: update.spineIndex,
+      scrollPosition: update.scrollPosition,
+      chapterProgress: update.chapterProgress,
+      positionAt: update.readAt,
+    })
+    .where(and(
+      eq(readAlongSessions.id, found.session.id),
+      isNull(readAlongSessions.endedAt),
+      lt(readAlongSessions.positionAt, update.readAt),
+    ))
+    .returning()
+
+  if (!moved) {
+    return c.json({ applied: false, session: serializeSession(found.session) })
+  }
+
+  broadcastReadAlong('position', moved)
+  return c.json({ applied: true, session: serializeSession(moved) })
+})
+
+app.post('/:id/leader', async (c) => {
+  const user = c.get('user')!
+  const body = await c.req.json().catch(() => null)
+
+  if (typeof body?.userId !== 'string') {
+    return c.json({ error: 'userId is required' }, 400)
+  }
+
+  const found = await findSessionForMember(c.req.param('id'), user.id)
+  if (!found || found.session.endedAt) {
+    return c.json({ error: 'Session not found' }, 404)
+  }
+  if (found.session.leaderId !== user.id && !hasGroupRole(found.role, 'moderator')) {
+    return c.json({ error: 'Only the leader or a moderator can hand over the session' }, 403)
+  }
+  if (!(await getGroupRole(found.session.groupId, body.userId))) {
+    return c.json({ error: 'The new leader must be a member of the group' }, 400)
+  }
+
+  const [updated] = await db.update(readAlongSessions)
+    .set({ leaderId: body.userId })
+    .where(and(
+      eq(readAlongSessions.id, found.session.id),
+      isNull(readAlongSessions.endedAt),
+    ))
+    .returning()
+
+  if (!updated) {
+    return c.json({ error: 'Session not found' }, 404)
+  }
+
+  broadcastReadAlong('state', updated)
+  return c.json(serializeSession(updated))
+})
+
+app.post('/:id/end', async (c) => {
+  const user = c.get('user')!
+
+  const found = await findSessionForMember(c.req.param('id'), user.id)
+  if (!found || found.session.endedAt) {
+    return c.json({ error: 'Session not found' }, 404)
+  }
+  if (found.session.leaderId !== user.id && !hasGroupRole(found.role, 'moderator')) {
+    return c.json({ error: 'Only the leader or a moderator can end the session' }, 403)
+  }
+
+  const [ended] = await db.update(readAlongSessions)
+    .set({ endedAt: new Date() })
+    .where(and(
+      eq(readAlongSessions.id, found.session.id),
+      isNull(readAlongSessions.endedAt),
+    ))
+    .returning()
+
+  if (!ended) {
+    return c.json({ error: 'Session not found' }, 404)
+  }
+
+  broadcastReadAlong('ended', ended)
+  return c.json(serializeSession(ended))
+})
+
+export default app
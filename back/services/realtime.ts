@@ -0,0 +1,153 @@
+import { Hono } from "hono"
+import { createBunWebSocket } from "hono/bun"
+import { and, eq, isNull } from "drizzle-orm"
+import { canAccessBook, getGroupRole } from "../auth/access"
+import { requireAuth, type AuthVariables } from "../auth/middleware"
+import { db, readAlongSessions } from "../db"
+import { joinChapter, leaveBook, type RealtimeConnection, type ServerMessage } from "../realtime/hub"
+import { joinReadAlong, leaveReadAlong, setFollowing } from "../realtime/read-along"
+
+const { upgradeWebSocket, websocket } = createBunWebSocket()
+
+const app = new Hono<{ Variables: AuthVariables }>()
+
+// The upgrade request carries the better-auth session cookie
+app.use('*', requireAuth)
+
+/**
+ * Messages clients send over the socket
+ */
+export type ClientMessage =
+  | { type: 'subscribe'; bookId: string; spineIndex: number }
+  | { type: 'unsubscribe' }
+  | { type: 'readalong.join'; sessionId: string }
+  | { type: 'readalong.leave' }
+  | { type: 'readalong.follow'; following: boolean }
+
+// Ids are looked up as uuid columns: anything else would fail the query
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const isUuid = (value: unknown): value is string =>
+  typeof value === 'string' && UUID_PATTERN.test(value)
+
+export const parseClientMessage = (data: unknown): ClientMessage | null => {
+  if (typeof data !== 'string') {
+    return null
+  }
+  let message: any
+  try {
+    message = JSON.parse(data)
+  } catch {
+    return null
+  }
+
+  if (message?.type === 'subscribe' && isUuid(message.bookId) && Number.isInteger(message.spineIndex) && message.spineIndex >= 0) {
+    return { type: 'subscribe', bookId: message.bookId, spineIndex: message.spineIndex }
+  }
+  if (message?.type === 'unsubscribe') {
+    return { type: 'unsubscribe' }
+  }
+  if (message?.type === 'readalong.join' && isUuid(message.sessionId)) {
+    return { type: 'readalong.join', sessionId: message.sessionId }
+  }
+  if (message?.type === 'readalong.leave') {
+    return { type: 'readalong.leave' }
+  }
+  if (message?.type === 'readalong.follow' && typeof message.following === 'boolean') {
+    return { type: 'readalong.follow', following: message.following }
+  }
+  return null
+}
+
+/**
+ * Load a running read-along session
+ */
+const findActiveSession = (sessionId: string) =>
+  db.query.readAlongSessions.findFirst({
+    where: and(
+      eq(readAlongSessions.id, sessionId),
+      isNull(readAlongSessions.endedAt),
+    ),
+  })
+
+app.get('/', upgradeWebSocket((c) => {
+  const user = c.get('user')!
+  const connection: RealtimeConnection = {
+    userId: user.id,
+    name: user.name,
+    bookId: null,
+    spineIndex: null,
+    readAlong: null,
+    send: () => {},
+  }
+  // Set once the socket is gone, so that a message still being checked can't rejoin
+  let closed = false
+
+  const handleMessage = async (message: ClientMessage) => {
+    if (message.type === 'unsubscribe') {
+      leaveBook(connection)
+      return
+    }
+
+    if (message.type === 'readalong.leave') {
+      leaveReadAlong(connection)
+      return
+    }
+
+    if (message.type === 'readalong.join' || message.type === 'readalong.follow') {
+      const sessionId = message.type === 'readalong.join' ? message.sessionId : connection.readAlong?.sessionId
+      const session = sessionId ? await findActiveSession(sessionId) : undefined
+      if (!session || !(await getGroupRole(session.groupId, user.id))) {
+        connection.send({ type: 'error', error: 'Read-along session not found' })
+        return
+      }
+      if (closed) {
+        return
+      }
+      if (message.type === 'readalong.join') {
+        joinReadAlong(connection, session)
+      } else {
+        setFollowing(connection, message.following, session)
+      }
+      return
+    }
+
+    if (!(await canAccessBook(message.bookId, user.id))) {
+      connection.send({ type: 'error', error: 'Book not found' })
+      return
+    }
+    if (closed) {
+      return
+    }
+    connection.send({ type: 'subscribed', bookId: message.bookId, spineIndex: message.spineIndex })
+    joinChapter(connection, message.bookId, message.spineIndex)
+  }
+
+  return {
+    onOpen(_event, ws) {
+      connection.send = (message: ServerMessage) => ws.send(JSON.stringify(message))
+    },
+    async onMessage(event) {
+      const message = parseClientMessage(event.data)
+      if (!message) {
+        connection.send({ type: 'error', error: 'Invalid message' })
+        return
+      }
+
+      try {
+        await handleMessage(message)
+      } catch (error) {
+        console.error('Realtime message failed:', error)
+        connection.send({ type: 'error', error: 'Failed to handle message' })
+      }
+    },
+    onClose() {
+      closed = true
+      leaveBook(connection)
+      leaveReadAlong(connection)
+    },
+  }
+}))
+
+export { websocket }
+export default app
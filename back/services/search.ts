@@ -0,0 +1,139 @@
+import { Hono } from "hono"
+import { and, desc, eq, isNull, sql } from "drizzle-orm"
+import { accessibleBooksFilter } from "../auth/access"
+import { requireAuth, type AuthVariables } from "../auth/middleware"
+import { books, chapters, db } from "../db"
+import { projectText } from "../epub/anchoring"
+import { isLatestVersion } from "../epub/versions"
+
+const app = new Hono<{ Variables: AuthVariables }>()
+
+app.use('*', requireAuth)
+
+const HEADLINE_START = '<mark>'
+const HEADLINE_STOP = '</mark>'
+const HEADLINE_OPTIONS = `StartSel=${HEADLINE_START}, StopSel=${HEADLINE_STOP}, MinWords=15, MaxWords=35, MaxFragments=1`
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 50
+
+export interface SearchOptions {
+  query: string
+  userId: string
+  bookId?: string   // Search a single book instead of the user's whole library (their uploads and group books)
+  limit: number
+  offset: number
+}
+
+/**
+ * Read limit/offset pagination parameters
+ */
+export const parsePagination = (limit?: string, offset?: string) => ({
+  limit: Math.min(Math.max(parseInt(limit ?? '') || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE),
+  offset: Math.max(parseInt(offset ?? '') || 0, 0),
+})
+
+/**
+ * Find where the first highlighted term of a headline occurs in the chapter.
+ * Returns an offset into the chapter HTML (the same coordinates as annotations),
+ * or null if the term can't be found.
+ */
+export const locateMatch = (htmlContent: string, headline: string): number | null => {
+  const start = headline.indexOf(HEADLINE_START)
+  const stop = headline.indexOf(HEADLINE_STOP, start)
+  if (start === -1 || stop === -1) {
+    return null
+  }
+  const term = headline.slice(start + HEADLINE_START.length, stop).toLowerCase()
+
+  const projection = projectText(htmlContent)
+  const index = projection.text.toLowerCase().indexOf(term)
+  return index === -1 ? null : projection.starts[index]!
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+/**
+ * Turn a headline built from plain text into safe HTML: only the highlight
+ * markers are kept as markup
+ */
+export const formatSnippet = (headline: string): string =>
+  headline
+    .split(HEADLINE_START)
+    .map(part => part.split(HEADLINE_STOP).map(escapeHtml).join(HEADLINE_STOP))
+    .join(HEADLINE_START)
+
+/**
+ * Rank chapters matching a web-style query (quotes, OR, -word) with ts_rank
+ * and return highlighted snippets. The query is parsed with each book's own
+ * text search configuration, so it is stemmed the same way as the chapters.
+ */
+export const searchChapters = async ({ query, userId, bookId, limit, offset }: SearchOptions) => {
+  const searchedBooks = and(
+    // Like the library, whole-library search leaves out older versions of re-uploaded books
+    bookId ? eq(books.id, bookId) : and(accessibleBooksFilter(userId), isLatestVersion()),
+    isNull(books.deletedAt),
+  )
+  // Parse the query once per configuration the searched books use: a query
+  // built for each chapter row couldn't use the search_vector index
+  const queries = db.$with('queries').as(
+    db.selectDistinct({
+      searchConfig: books.searchConfig,
+      tsQuery: sql`websearch_to_tsquery(${books.searchConfig}::regconfig, ${query})`.as('ts_query'),
+    })
+      .from(books)
+      .where(searchedBooks)
+  )
+  const searchVector = sql`${chapters}.search_vector`
+  const rank = sql<number>`ts_rank(${searchVector}, ${queries.tsQuery})`
+
+  const rows = await db
+    .with(queries)
+    .select({
+      bookId: chapters.bookId,
+      bookTitle: books.title,
+      spineIndex: chapters.spineIndex,
+      chapterTitle: chapters.title,
+      htmlContent: chapters.htmlContent,
+      rank,
+      // Headlines are built from the chapter text, not its markup
+      snippet: sql<string>`ts_headline(${queries.searchConfig}::regconfig, coalesce(${chapters.plainText}, ''), ${queries.tsQuery}, ${HEADLINE_OPTIONS})`,
+      total: sql<number>`count(*) over()`.mapWith(Number),
+    })
+    .from(queries)
+    .innerJoin(books, eq(books.searchConfig, queries.searchConfig))
+    .innerJoin(chapters, eq(chapters.bookId, books.id))
+    .where(and(
+      sql`${searchVector} @@ ${queries.tsQuery}`,
+      searchedBooks,
+    ))
+    .orderBy(desc(rank), chapters.bookId, chapters.spineIndex)
+    .limit(limit)
+    .offset(offset)
+
+  return {
+    total: rows[0]?.total ?? 0,
+    results: rows.map(({ htmlContent, total, snippet, ...row }) => ({
+      ...row,
+      snippet: formatSnippet(snippet),
+      offset: locateMatch(htmlContent, snippet),
+    })),
+  }
+}
+
+app.get('/', async (c) => {
+  const user = c.get('user')!
+  const query = c.req.query('q')?.trim()
+
+  if (!query) {
+    return c.json({ error: 'Query parameter q is required' }, 400)
+  }
+
+  const { limit, offset } = parsePagination(c.req.query('limit'), c.req.query('offset'))
+  const { total, results } = await searchChapters({ query, userId: user.id, limit, offset })
+
+  return c.json({ query, total, limit, offset, results })
+})
+
+export default app
@@ -0,0 +1,44 @@
+import { Hono } from "hono"
+import { and, eq } from "drizzle-orm"
+import { annotations, db } from "../db"
+
+// Public links: no session required, only the share token
+const app = new Hono()
+
+app.get('/annotations/:token', async (c) => {
+  const annotation = await db.query.annotations.findFirst({
+    where: and(
+      eq(annotations.shareToken, c.req.param('token')),
+      eq(annotations.visibility, 'public'),
+    ),
+    with: {
+      user: {
+        columns: { name: true, image: true },
+      },
+      book: {
+        columns: { id: true, title: true, author: true, deletedAt: true },
+      },
+      chapter: {
+        columns: { spineIndex: true, title: true },
+      },
+    },
+  })
+
+  if (!annotation || annotation.book.deletedAt) {
+    return c.json({ error: 'Annotation not found' }, 404)
+  }
+
+  // The passage and note only: the book itself stays restricted to its readers
+  return c.json({
+    type: annotation.type,
+    selectedText: annotation.selectedText,
+    noteContent: annotation.noteContent,
+    color: annotation.color,
+    author: annotation.user,
+    book: { id: annotation.book.id, title: annotation.book.title, author: annotation.book.author },
+    chapter: annotation.chapter,
+    createdAt: annotation.createdAt,
+  })
+})
+
+export default app
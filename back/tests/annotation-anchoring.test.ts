@@ -0,0 +1,142 @@
+import { describe, test, expect } from "bun:test";
+import { eq } from "drizzle-orm";
+import app from "../app";
+import { annotations, chapters, db } from "../db";
+import { createAnchor, projectText, resolveAnchor } from "../epub/anchoring";
+import { parseEpub } from "../epub/parser";
+import { replaceChapterContent } from "../epub/reprocess";
+import { sanitizeChapterHtml } from "../epub/sanitizer";
+import { createTestUser, uploadTestBook } from "./test-utils";
+
+const rangeOf = (html: string, text: string) => {
+  const start = html.indexOf(text);
+  return [start, start + text.length] as const;
+};
+
+describe("Annotation Anchoring", () => {
+  const html = `<html><head><title>Chapter</title><style>p { color: red; }</style></head>
+<body><p class="a">The quick brown fox jumps over the lazy dog.</p><p>Fish &amp; chips, the lazy dog again.</p></body></html>`;
+
+  describe("projectText", () => {
+    test("should keep body text only and decode character references", () => {
+      const { text } = projectText(html);
+
+      expect(text).not.toContain("Chapter");
+      expect(text).not.toContain("color");
+      expect(text).toContain("The quick brown fox");
+      expect(text).toContain("Fish & chips");
+    });
+
+    test("should map text characters back to their HTML range", () => {
+      const projection = projectText(html);
+      const amp = projection.text.indexOf("&");
+
+      expect(html.slice(projection.starts[amp], projection.ends[amp])).toBe("&amp;");
+    });
+  });
+
+  describe("createAnchor", () => {
+    test("should capture the quote with its context", () => {
+      const [start, end] = rangeOf(html, "brown fox");
+      const anchor = createAnchor(html, start, end);
+
+      expect(anchor.quote.exact).toBe("brown fox");
+      expect(anchor.quote.prefix.endsWith("The quick ")).toBe(true);
+      expect(anchor.quote.suffix.startsWith(" jumps over")).toBe(true);
+      expect(anchor.position.end - anchor.position.start).toBe("brown fox".length);
+    });
+  });
+
+  describe("resolveAnchor", () => {
+    test("should find the quote again after the markup changed", () => {
+      const [start, end] = rangeOf(html, "brown fox");
+      const anchor = createAnchor(html, start, end);
+      const changed = html
+        .replace('<p class="a">', '<p class="a" id="p1"><a id="start"></a>')
+        .replace("<body>", "<body><h1>A new heading</h1>");
+
+      const resolved = resolveAnchor(anchor, changed);
+
+      expect(resolved).not.toBeNull();
+      expect(changed.slice(resolved!.startOffset, resolved!.endOffset)).toBe("brown fox");
+    });
+
+    test("should use the context to pick between repeated quotes", () => {
+      const second = html.lastIndexOf("the lazy dog");
+      const anchor = createAnchor(html, second, second + "the lazy dog".length);
+      const changed = html.replace("<body>", "<body><p>Preface</p>");
+
+      const resolved = resolveAnchor(anchor, changed);
+
+      expect(resolved!.startOffset).toBe(changed.lastIndexOf("the lazy dog"));
+      expect(resolved!.anchor.quote.prefix.endsWith("chips, ")).toBe(true);
+    });
+
+    test("should keep character references inside the range", () => {
+      const [start, end] = rangeOf(html, "Fish &amp; chips");
+      const resolved = resolveAnchor(createAnchor(html, start, end), html);
+
+      expect(html.slice(resolved!.startOffset, resolved!.endOffset)).toBe("Fish &amp; chips");
+    });
+
+    test("should locate collapsed bookmarks by their context", () => {
+      const position = html.indexOf("jumps");
+      const anchor = createAnchor(html, position, position);
+      const changed = html.replace("<body>", "<body><p>Preface</p>");
+
+      const resolved = resolveAnchor(anchor, changed);
+
+      expect(resolved!.startOffset).toBe(changed.indexOf("jumps"));
+      expect(resolved!.endOffset).toBe(resolved!.startOffset);
+    });
+
+    test("should return null when the quote is gone", () => {
+      const [start, end] = rangeOf(html, "brown fox");
+      const anchor = createAnchor(html, start, end);
+
+      expect(resolveAnchor(anchor, html.replace("brown fox", "red panda"))).toBeNull();
+    });
+  });
+
+  describe("Chapter reprocessing", () => {
+    test("should leave sanitized chapters unchanged", async () => {
+      const buffer = await Bun.file("back/epub/test_data/dumas_contes_grands_petits_enfants.epub").arrayBuffer();
+      const { chapters: parsed } = await parseEpub(buffer, "book-1");
+
+      for (const chapter of parsed) {
+        expect(sanitizeChapterHtml(chapter.htmlContent)).toBe(chapter.htmlContent);
+      }
+    });
+
+    test("should backfill anchors and re-anchor annotations when a chapter changes", async () => {
+      const { headers } = await createTestUser();
+      const { bookId } = await uploadTestBook(headers);
+      const bookChapters = await db.query.chapters.findMany({ where: eq(chapters.bookId, bookId), orderBy: chapters.spineIndex });
+      const chapter = bookChapters.find(chapter => projectText(chapter.htmlContent).text.trim().length > 100)!;
+      const projection = projectText(chapter.htmlContent);
+      const start = projection.text.search(/\S/);
+      const startOffset = projection.starts[start]!;
+      const endOffset = projection.ends[start + 9]!;
+      const quote = chapter.htmlContent.slice(startOffset, endOffset);
+
+      const res = await app.request("/annotations", {
+        method: "POST",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: JSON.stringify({ bookId, spineIndex: chapter.spineIndex, type: "highlight", startOffset, endOffset }),
+      });
+      expect(res.status).toBe(201);
+      const { id } = await res.json() as { id: string };
+      // As created before anchors existed
+      await db.update(annotations).set({ anchor: null }).where(eq(annotations.id, id));
+
+      const changed = chapter.htmlContent.replace(/<body([^>]*)>/, "<body$1><p>A new preface</p>");
+      const result = await db.transaction(tx => replaceChapterContent(tx, chapter.id, changed));
+
+      const annotation = await db.query.annotations.findFirst({ where: eq(annotations.id, id) });
+      expect(result.orphaned).toBe(0);
+      expect(annotation!.anchor).not.toBeNull();
+      expect(annotation!.orphaned).toBe(false);
+      expect(changed.slice(annotation!.startOffset, annotation!.endOffset)).toBe(quote);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, test, expect } from "bun:test";
+import * as fflate from "fflate";
+import app from "../app";
+import {
+  annotationDeepLink,
+  annotationsToJson,
+  annotationsToMarkdown,
+  annotationsToReadwiseCsv,
+  attachmentDisposition,
+  exportFilename,
+  zipLibraryAnnotations,
+  type ExportedAnnotation,
+} from "../annotations/export";
+
+const book = { id: "book-1", title: "Contes pour les grands et les petits enfants", author: "Alexandre Dumas" };
+const createdAt = new Date("2026-03-01T10:20:30.456Z");
+
+const annotation = (overrides: Partial<ExportedAnnotation>): ExportedAnnotation => ({
+  id: "a1",
+  type: "highlight",
+  selectedText: "Il était une fois",
+  noteContent: null,
+  color: "yellow",
+  visibility: "private",
+  orphaned: false,
+  anchor: null,
+  createdAt,
+  updatedAt: createdAt,
+  chapter: { spineIndex: 2, title: "Le roi des quilles" },
+  ...overrides,
+});
+
+const annotations = [
+  annotation({ id: "a3", chapter: { spineIndex: 4, title: null }, type: "bookmark", selectedText: null, color: null }),
+  annotation({ id: "a2", type: "note", selectedText: "un roi, \"le plus grand\"", noteContent: "Compare with\nthe preface", color: "#ffcc00", anchor: { quote: { exact: "", prefix: "", suffix: "" }, position: { start: 50, end: 60 } } }),
+  annotation({ id: "a1", anchor: { quote: { exact: "", prefix: "", suffix: "" }, position: { start: 10, end: 27 } } }),
+];
+
+describe("Annotation export", () => {
+  test("should return 401 when not signed in", async () => {
+    expect((await app.request("/annotations/export")).status).toBe(401);
+    expect((await app.request("/annotations/export?bookId=book-1&format=csv")).status).toBe(401);
+  });
+
+  describe("Markdown", () => {
+    const markdown = annotationsToMarkdown(book, annotations, createdAt);
+
+    test("should group annotations by chapter in reading order", () => {
+      expect(markdown.startsWith(`---\ntitle: "Contes pour les grands et les petits enfants"\nauthor: "Alexandre Dumas"\n`)).toBe(true);
+      const headings = markdown.split("\n").filter(line => line.startsWith("#"));
+      expect(headings).toEqual(["# Contes pour les grands et les petits enfants", "## Le roi des quilles", "## Chapter 5"]);
+      expect(markdown.indexOf("> Il était une fois")).toBeLessThan(markdown.indexOf("> un roi"));
+    });
+
+    test("should include notes, colors and deep links", () => {
+      expect(markdown).toContain(`> un roi, "le plus grand"\n\nCompare with\nthe preface\n\n*note, #ffcc00* · [Open in reader](${annotationDeepLink("book-1", 2, "a2")})`);
+      expect(markdown).toContain(`*yellow* · [Open in reader](${annotationDeepLink("book-1", 2, "a1")})`);
+      expect(markdown).toContain(`*bookmark* · [Open in reader](${annotationDeepLink("book-1", 4, "a3")})`);
+    });
+  });
+
+  test("should dump structured JSON", () => {
+    const json = annotationsToJson(book, annotations, createdAt);
+    expect(json.book).toEqual(book);
+    expect(json.annotations.map(entry => entry.id)).toEqual(["a1", "a2", "a3"]);
+    expect(json.annotations[1]).toMatchObject({
+      type: "note",
+      quote: "un roi, \"le plus grand\"",
+      note: "Compare with\nthe preface",
+      chapter: { spineIndex: 2, title: "Le roi des quilles" },
+      position: { start: 50, end: 60 },
+      createdAt: "2026-03-01T10:20:30.456Z",
+    });
+  });
+
+  test("should write Readwise CSV rows for quoted annotations", () => {
+    const csv = annotationsToReadwiseCsv(book, annotations);
+    expect(csv.split("\r\n")).toEqual([
+      "Highlight,Title,Author,URL,Note,Location,Date",
+      `Il était une fois,Contes pour les grands et les petits enfants,Alexandre Dumas,${annotationDeepLink("book-1", 2, "a1")},,1,2026-03-01 10:20:30`,
+      `"un roi, ""le plus grand""",Contes pour les grands et les petits enfants,Alexandre Dumas,${annotationDeepLink("book-1", 2, "a2")},"Compare with\nthe preface",2,2026-03-01 10:20:30`,
+      "",
+    ]);
+  });
+
+  test("should zip one file per book", () => {
+    const archive = fflate.unzipSync(zipLibraryAnnotations("csv", [
+      { book, annotations },
+      { book: { ...book, id: "book-2" }, annotations: [annotation({ id: "b1" })] },
+      { book: { id: "book-3", title: "A/B: notes?", author: null }, annotations: [] },
+    ], createdAt));
+
+    expect(Object.keys(archive).sort()).toEqual([
+      "AB notes.csv",
+      "Contes pour les grands et les petits enfants (2).csv",
+      "Contes pour les grands et les petits enfants.csv",
+      "readwise-import.csv",
+    ]);
+    expect(new TextDecoder().decode(archive["readwise-import.csv"]).trim().split("\r\n")).toHaveLength(4);
+  });
+
+  test("should number long titles that are the same once truncated", () => {
+    const title = "Contes ".repeat(20);
+    const archive = fflate.unzipSync(zipLibraryAnnotations("json", [
+      { book: { ...book, title: `${title}I` }, annotations: [] },
+      { book: { ...book, id: "book-2", title: `${title}II` }, annotations: [] },
+    ], createdAt));
+
+    const base = title.trim().slice(0, 120);
+    expect(Object.keys(archive).sort()).toEqual([`${base} (2).json`, `${base}.json`]);
+  });
+
+  test("should name downloads safely", () => {
+    expect(exportFilename("  Le  \"Grand\" livre ", "md")).toBe("Le Grand livre.md");
+    expect(exportFilename("???", "json")).toBe("book.json");
+    expect(attachmentDisposition("Été.md")).toBe(`attachment; filename="Ete.md"; filename*=UTF-8''%C3%89t%C3%A9.md`);
+  });
+});
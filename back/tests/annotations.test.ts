@@ -0,0 +1,123 @@
+import { describe, test, expect } from "bun:test";
+import app from "../app";
+import { isReactionEmoji, pickAnnotationFields, summarizeReactions, validateAnnotation } from "../services/annotations";
+import { createTestUser, uploadTestBook } from "./test-utils";
+
+describe("Annotations", () => {
+  describe("validateAnnotation", () => {
+    const highlight = { type: "highlight" as const, startOffset: 10, endOffset: 20, selectedText: "some text", noteContent: null, color: "yellow" };
+
+    test("should accept valid annotations", () => {
+      expect(validateAnnotation(highlight, 100)).toBeNull();
+      expect(validateAnnotation({ ...highlight, type: "note", noteContent: "A thought", color: "#ffcc00" }, 100)).toBeNull();
+      expect(validateAnnotation({ type: "bookmark", startOffset: 42, endOffset: 42 }, 100)).toBeNull();
+    });
+
+    test("should reject unknown types", () => {
+      expect(validateAnnotation({ ...highlight, type: "underline" as any }, 100)).toContain("type must be one of");
+      expect(validateAnnotation({ ...highlight, type: undefined }, 100)).toContain("type must be one of");
+    });
+
+    test("should check offsets against the chapter length", () => {
+      expect(validateAnnotation({ ...highlight, endOffset: 101 }, 100)).toContain("Offsets");
+      expect(validateAnnotation({ ...highlight, startOffset: -1 }, 100)).toContain("Offsets");
+      expect(validateAnnotation({ ...highlight, startOffset: 30 }, 100)).toContain("Offsets");
+      expect(validateAnnotation({ ...highlight, startOffset: 1.5 }, 100)).toContain("integers");
+      expect(validateAnnotation({ ...highlight, startOffset: 20 }, 100)).toContain("non-empty range");
+    });
+
+    test("should require note content for notes", () => {
+      expect(validateAnnotation({ ...highlight, type: "note" }, 100)).toBe("A note requires noteContent");
+      expect(validateAnnotation({ ...highlight, type: "note", noteContent: "  " }, 100)).toBe("A note requires noteContent");
+    });
+
+    test("should validate colors", () => {
+      expect(validateAnnotation({ ...highlight, color: "#ffcc00" }, 100)).toBeNull();
+      expect(validateAnnotation({ ...highlight, color: "url(x)" }, 100)).toContain("color");
+    });
+  });
+
+  describe("pickAnnotationFields", () => {
+    test("should ignore fields that can't be edited", () => {
+      expect(pickAnnotationFields({ color: "blue", userId: "someone-else", bookId: "b" })).toEqual({ color: "blue" });
+    });
+  });
+
+  describe("reactions", () => {
+    test("should accept single emojis only", () => {
+      expect(isReactionEmoji("👍")).toBe(true);
+      expect(isReactionEmoji("👍🏽")).toBe(true);
+      expect(isReactionEmoji("❤️")).toBe(true);
+      expect(isReactionEmoji("👩‍💻")).toBe(true);
+      expect(isReactionEmoji("ok")).toBe(false);
+      expect(isReactionEmoji("👍 👍")).toBe(false);
+      expect(isReactionEmoji("<b>")).toBe(false);
+    });
+
+    test("should count reactions by emoji and flag the viewer's", () => {
+      const summary = summarizeReactions([
+        { emoji: "👍", userId: "a" },
+        { emoji: "👍", userId: "b" },
+        { emoji: "🔥", userId: "b" },
+      ], "a");
+
+      expect(summary).toEqual([
+        { emoji: "👍", count: 2, reacted: true },
+        { emoji: "🔥", count: 1, reacted: false },
+      ]);
+    });
+  });
+
+  describe("Group sharing", () => {
+    test("should hide group annotations once the book leaves the group", async () => {
+      const owner = await createTestUser("Club Owner");
+      const member = await createTestUser("Club Member");
+      const json = (headers: Record<string, string>, method: string, body: unknown) =>
+        ({ method, headers: { ...headers, "Content-Type": "application/json" }, body: JSON.stringify(body) });
+      const { bookId } = await uploadTestBook(owner.headers);
+
+      // The member keeps reading the book through a second group
+      const groupIds: string[] = [];
+      for (const name of ["Club", "Other club"]) {
+        const group = await (await app.request("/groups", json(owner.headers, "POST", { name }))).json() as { id: string };
+        await app.request(`/groups/${group.id}/books`, json(owner.headers, "POST", { bookId }));
+        const invite = await (await app.request(`/groups/${group.id}/invites`, json(owner.headers, "POST", {}))).json() as { code: string };
+        await app.request("/groups/join", json(member.headers, "POST", { code: invite.code }));
+        groupIds.push(group.id);
+      }
+
+      const created = await app.request("/annotations", json(owner.headers, "POST", {
+        bookId, spineIndex: 1, type: "highlight", startOffset: 0, endOffset: 10, visibility: "group", groupId: groupIds[0],
+      }));
+      expect(created.status).toBe(201);
+      const { id } = await created.json() as { id: string };
+      const sharedIds = async () => {
+        const res = await app.request(`/annotations/shared?bookId=${bookId}&spineIndex=1`, { headers: member.headers });
+        return ((await res.json()) as { annotations: { id: string }[] }).annotations.map(annotation => annotation.id);
+      };
+      expect(await sharedIds()).toContain(id);
+
+      expect((await app.request(`/groups/${groupIds[0]}/books/${bookId}`, { method: "DELETE", headers: owner.headers })).status).toBe(200);
+      expect(await sharedIds()).not.toContain(id);
+      expect((await app.request(`/annotations/${id}`, { headers: member.headers })).status).toBe(404);
+
+      // Its author can still edit it without sharing it again
+      expect((await app.request(`/annotations/${id}`, json(owner.headers, "PATCH", { color: "#ffcc00" }))).status).toBe(200);
+    });
+  });
+
+  describe("Authentication", () => {
+    test("should reject unauthenticated requests", async () => {
+      const res = await app.request("/annotations?bookId=some-book");
+      expect(res.status).toBe(401);
+
+      const shared = await app.request("/annotations/shared?bookId=some-book&spineIndex=0");
+      expect(shared.status).toBe(401);
+    });
+
+    test("should serve public links without a session", async () => {
+      const res = await app.request("/shared/annotations/unknown-token");
+      expect(res.status).toBe(404);
+    });
+  });
+});
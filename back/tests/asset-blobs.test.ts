@@ -0,0 +1,99 @@
+import { describe, test, expect, beforeAll } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import app from "../app";
+import { assets, blobs, db } from "../db";
+import { blobKey, deleteUnusedBlobs, hashBlob, storeBlob } from "../s3/blobs";
+import { minio } from "../s3/s3";
+import { createTestUser, uploadTestBook } from "./test-utils";
+
+describe("Asset blobs", () => {
+  test("should address blobs by their SHA-256", () => {
+    const hash = hashBlob(new TextEncoder().encode("body { margin: 0 }"));
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashBlob(new TextEncoder().encode("body { margin: 0 }"))).toBe(hash);
+    expect(blobKey(hash)).toBe(`blobs/${hash.slice(0, 2)}/${hash}`);
+  });
+
+  describe("Deduplication", () => {
+    let headers: Record<string, string>;
+
+    beforeAll(async () => {
+      headers = (await createTestUser()).headers;
+    });
+
+    const findStylesheet = (bookId: string) => db.query.assets.findFirst({
+      where: and(eq(assets.bookId, bookId), eq(assets.originalPath, "cover.css")),
+      with: { blob: true },
+    });
+
+    test("should store a file shared by two books once", async () => {
+      // Both books come from the same publisher and ship the same cover.css
+      const first = await uploadTestBook(headers, "back/epub/test_data/dumas_contes_grands_petits_enfants.epub");
+      const second = await uploadTestBook(headers, "back/epub/test_data/dumur_un_coco_de_genie.epub");
+
+      const firstStylesheet = await findStylesheet(first.bookId);
+      const secondStylesheet = await findStylesheet(second.bookId);
+      expect(firstStylesheet?.blobId).toBe(secondStylesheet!.blobId);
+      expect(firstStylesheet!.blob.s3Key).toBe(blobKey(firstStylesheet!.blob.hash!));
+      expect(firstStylesheet!.blob.refCount).toBeGreaterThanOrEqual(2);
+
+      const res = await app.request(`/epub/${second.bookId}/assets/cover.css`, { headers });
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Content-Type")).toBe("text/css");
+    });
+
+    test("should keep a shared blob when one of its books is deleted", async () => {
+      const first = await uploadTestBook(headers, "back/epub/test_data/eliot_moulin_floss_1.epub");
+      const second = await uploadTestBook(headers, "back/epub/test_data/eliot_moulin_floss_2.epub");
+      const stylesheet = await findStylesheet(first.bookId);
+      const refCount = stylesheet!.blob.refCount;
+
+      const res = await app.request(`/epub/${first.bookId}?permanent=true`, { method: "DELETE", headers });
+      expect(res.status).toBe(200);
+
+      const blob = await db.query.blobs.findFirst({ where: eq(blobs.id, stylesheet!.blobId) });
+      expect(blob?.refCount).toBe(refCount - 1);
+      expect((await app.request(`/epub/${second.bookId}/assets/cover.css`, { headers })).status).toBe(200);
+    });
+  });
+
+  describe("Unused blobs", () => {
+    /**
+     * Store distinct content as a blob nothing has used for a day
+     */
+    const storeUnusedBlob = async () => {
+      const data = new TextEncoder().encode(`p::before { content: "${crypto.randomUUID()}" }`);
+      const blob = await storeBlob(data, "text/css");
+      await db.update(blobs).set({ lastUsedAt: new Date(Date.now() - 24 * 60 * 60 * 1000) }).where(eq(blobs.id, blob.id));
+      return { ...blob, data };
+    };
+
+    test("should delete the object, then the row", async () => {
+      const blob = await storeUnusedBlob();
+
+      expect(await deleteUnusedBlobs([blob.id])).toBe(1);
+      expect(await minio.exists(blob.s3Key)).toBe(false);
+      expect(await db.query.blobs.findFirst({ where: eq(blobs.id, blob.id) })).toBeUndefined();
+    });
+
+    test("should skip blobs an ingestion is reusing", async () => {
+      const blob = await storeUnusedBlob();
+
+      // An uncommitted refresh, as storeBlob does before the book's assets rows exist
+      await db.transaction(async (tx) => {
+        await tx.update(blobs).set({ lastUsedAt: new Date() }).where(eq(blobs.id, blob.id));
+        expect(await deleteUnusedBlobs([blob.id])).toBe(0);
+      });
+      expect(await minio.exists(blob.s3Key)).toBe(true);
+    });
+
+    test("should never leave a stored blob without its object", async () => {
+      const blob = await storeUnusedBlob();
+
+      const [, stored] = await Promise.all([deleteUnusedBlobs([blob.id]), storeBlob(blob.data, "text/css")]);
+      const row = await db.query.blobs.findFirst({ where: eq(blobs.id, stored.id) });
+      expect(row).toBeDefined();
+      expect(await minio.exists(stored.s3Key)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, test, expect } from "bun:test";
+import * as fflate from "fflate";
+import { getAssetType } from "../epub/epub.model";
+import { getAssetResponseHeaders, getMimeTypeFromPath, resolveMimeType, sniffMimeType } from "../epub/mime";
+import { getAssetItems } from "../epub/parser";
+
+const bytes = (...values: Array<number | string>) =>
+  new Uint8Array(values.flatMap(value => typeof value === "string" ? [...value].map(char => char.charCodeAt(0)) : [value]));
+
+describe("Asset media types", () => {
+  describe("sniffMimeType", () => {
+    test("should recognize images", () => {
+      expect(sniffMimeType(bytes(0xff, 0xd8, 0xff, 0xe0))).toBe("image/jpeg");
+      expect(sniffMimeType(bytes(0x89, "PNG", 0x0d, 0x0a, 0x1a, 0x0a))).toBe("image/png");
+      expect(sniffMimeType(bytes("GIF89a"))).toBe("image/gif");
+      expect(sniffMimeType(bytes("RIFF", 0, 0, 0, 0, "WEBPVP8 "))).toBe("image/webp");
+    });
+
+    test("should recognize fonts", () => {
+      expect(sniffMimeType(bytes("wOFF", 0, 1))).toBe("font/woff");
+      expect(sniffMimeType(bytes("wOF2", 0, 1))).toBe("font/woff2");
+      expect(sniffMimeType(bytes("OTTO", 0, 9))).toBe("font/otf");
+      expect(sniffMimeType(bytes(0, 1, 0, 0, 0, 9))).toBe("font/ttf");
+    });
+
+    test("should recognize audio and video", () => {
+      expect(sniffMimeType(bytes("ID3", 4, 0))).toBe("audio/mpeg");
+      expect(sniffMimeType(bytes(0, 0, 0, 0x20, "ftypM4A "))).toBe("audio/mp4");
+      expect(sniffMimeType(bytes(0, 0, 0, 0x20, "ftypisom"))).toBe("video/mp4");
+    });
+
+    test("should leave text formats alone", () => {
+      expect(sniffMimeType(bytes("body { margin: 0 }"))).toBeUndefined();
+      expect(sniffMimeType(bytes("<svg xmlns=\"http://www.w3.org/2000/svg\"/>"))).toBeUndefined();
+      expect(sniffMimeType(new Uint8Array(0))).toBeUndefined();
+    });
+  });
+
+  describe("resolveMimeType", () => {
+    test("should correct a wrong manifest media type", () => {
+      expect(resolveMimeType({ sniffed: "image/png", declared: "image/jpeg", path: "cover.jpg" })).toBe("image/png");
+    });
+
+    test("should keep the manifest media type of text formats", () => {
+      expect(resolveMimeType({ declared: "Text/CSS", path: "style.css" })).toBe("text/css");
+      expect(resolveMimeType({ declared: "image/svg+xml", path: "map.svg" })).toBe("image/svg+xml");
+    });
+
+    test("should fall back to the extension", () => {
+      expect(resolveMimeType({ declared: "application/octet-stream", path: "Fonts/Serif.TTF" })).toBe("font/ttf");
+      expect(resolveMimeType({ path: "styles/main.css" })).toBe("text/css");
+      expect(resolveMimeType({ path: "data.bin" })).toBe("application/octet-stream");
+      expect(getMimeTypeFromPath("no-extension")).toBeUndefined();
+    });
+
+    test("should classify the resolved types", () => {
+      expect(getAssetType(resolveMimeType({ sniffed: "font/woff", declared: "application/font-woff", path: "a.woff" }), "a.woff")).toBe("font");
+      expect(getAssetType(resolveMimeType({ declared: "text/css", path: "a.css" }), "a.css")).toBe("stylesheet");
+      expect(getAssetType(resolveMimeType({ sniffed: "image/jpeg", path: "cover.jpg" }), "cover.jpg")).toBe("image");
+    });
+  });
+
+  describe("getAssetResponseHeaders", () => {
+    test("should serve images, fonts, stylesheets and media as is", () => {
+      expect(getAssetResponseHeaders("image/svg+xml")).toEqual({
+        "Content-Type": "image/svg+xml",
+        "X-Content-Type-Options": "nosniff",
+        "Content-Security-Policy": "sandbox; default-src 'none'",
+      });
+      expect(getAssetResponseHeaders("Text/CSS; charset=utf-8")["Content-Type"]).toBe("text/css");
+      expect(getAssetResponseHeaders("font/woff2")["Content-Disposition"]).toBeUndefined();
+    });
+
+    test("should download anything else as opaque bytes", () => {
+      for (const mimeType of ["TEXT/HTML", "application/xml", "application/javascript", "application/smil+xml"]) {
+        expect(getAssetResponseHeaders(mimeType)).toMatchObject({
+          "Content-Type": "application/octet-stream",
+          "Content-Disposition": "attachment",
+          "X-Content-Type-Options": "nosniff",
+        });
+      }
+    });
+  });
+
+  test("should not store HTML documents as assets, whatever the case of their type", () => {
+    const items = getAssetItems([
+      { id: "ch1", href: "ch1.xhtml", mediaType: "Application/XHTML+XML" },
+      { id: "page", href: "page.html", mediaType: "TEXT/HTML" },
+      { id: "css", href: "style.css", mediaType: "text/css" },
+    ], "OEBPS");
+
+    expect(items.map(item => item.path)).toEqual(["OEBPS/style.css"]);
+  });
+
+  test("should sniff the images of the test EPUBs", async () => {
+    const archive = fflate.unzipSync(new Uint8Array(await Bun.file("back/epub/test_data/dumas_contes_grands_petits_enfants.epub").arrayBuffer()));
+    const images = Object.entries(archive).filter(([path]) => /\.(jpe?g|png|gif)$/i.test(path));
+
+    expect(images.length).toBeGreaterThan(0);
+    for (const [path, data] of images) {
+      expect(sniffMimeType(data)).toBe(getMimeTypeFromPath(path)!);
+    }
+  });
+});
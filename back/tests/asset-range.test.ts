@@ -0,0 +1,38 @@
+import { describe, test, expect } from "bun:test";
+import { parseRangeHeader } from "../s3/s3";
+
+describe("Asset Range Requests", () => {
+  describe("parseRangeHeader", () => {
+    test("should parse a closed range", () => {
+      expect(parseRangeHeader("bytes=0-99", 1000)).toEqual({ start: 0, end: 99 });
+    });
+
+    test("should parse an open-ended range", () => {
+      expect(parseRangeHeader("bytes=500-", 1000)).toEqual({ start: 500, end: 999 });
+    });
+
+    test("should parse a suffix range", () => {
+      expect(parseRangeHeader("bytes=-100", 1000)).toEqual({ start: 900, end: 999 });
+      expect(parseRangeHeader("bytes=-5000", 1000)).toEqual({ start: 0, end: 999 });
+    });
+
+    test("should clamp the end of the range to the object size", () => {
+      expect(parseRangeHeader("bytes=900-5000", 1000)).toEqual({ start: 900, end: 999 });
+    });
+
+    test("should report ranges starting past the end as unsatisfiable", () => {
+      expect(parseRangeHeader("bytes=1000-", 1000)).toBe("unsatisfiable");
+      expect(parseRangeHeader("bytes=-0", 1000)).toBe("unsatisfiable");
+      expect(parseRangeHeader("bytes=0-10", 0)).toBe("unsatisfiable");
+      expect(parseRangeHeader("bytes=-10", 0)).toBe("unsatisfiable");
+    });
+
+    test("should ignore malformed and multi-range headers", () => {
+      expect(parseRangeHeader("", 1000)).toBeNull();
+      expect(parseRangeHeader("bytes=-", 1000)).toBeNull();
+      expect(parseRangeHeader("bytes=50-10", 1000)).toBeNull();
+      expect(parseRangeHeader("items=0-10", 1000)).toBeNull();
+      expect(parseRangeHeader("bytes=0-10,20-30", 1000)).toBeNull();
+    });
+  });
+});
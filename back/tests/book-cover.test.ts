@@ -0,0 +1,92 @@
+import { describe, test, expect } from "bun:test";
+import sharp from "sharp";
+import app from "../app";
+import { findCoverItem, findFirstImageReference, isCoverSize, resizeCover } from "../epub/cover";
+import type { EpubManifestItem } from "../epub/epub.model";
+import { parseEpub } from "../epub/parser";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe("Book covers", () => {
+  const manifest: EpubManifestItem[] = [
+    { id: "titlepage", href: "Text/title page.xhtml", mediaType: "application/xhtml+xml" },
+    { id: "ch1", href: "Text/ch1.xhtml", mediaType: "application/xhtml+xml" },
+    { id: "front", href: "Images/front page.jpg", mediaType: "image/jpeg" },
+    { id: "cover-img", href: "Images/cover.png", mediaType: "image/png" },
+    { id: "style", href: "Styles/cover.css", mediaType: "text/css" },
+  ];
+  const spine = [{ idref: "titlepage", linear: false }, { idref: "ch1", linear: true }];
+  const unzipped = {
+    "OEBPS/Text/title page.xhtml": encode(`<html><body><div><img src="../Images/front%20page.jpg" alt="Cover"/></div></body></html>`),
+    "OEBPS/Text/ch1.xhtml": encode(`<html><body><p>One</p></body></html>`),
+  };
+
+  describe("findCoverItem", () => {
+    test("should prefer the EPUB 3 cover-image item", () => {
+      const flagged = manifest.map(item => item.id === "cover-img" ? { ...item, isCoverImage: true } : item);
+      expect(findCoverItem(flagged, { coverImageId: "front" }, spine, "OEBPS", unzipped)?.id).toBe("cover-img");
+    });
+
+    test("should use the EPUB 2 cover meta", () => {
+      expect(findCoverItem(manifest, { coverImageId: "cover-img" }, spine, "OEBPS", unzipped)?.id).toBe("cover-img");
+    });
+
+    test("should ignore a cover meta that doesn't name an image", () => {
+      expect(findCoverItem(manifest, { coverImageId: "style" }, spine, "OEBPS", unzipped)?.id).toBe("front");
+    });
+
+    test("should fall back to the first image of the first spine document", () => {
+      expect(findCoverItem(manifest, {}, spine, "OEBPS", unzipped)?.id).toBe("front");
+    });
+
+    test("should return nothing when the first document has no image", () => {
+      expect(findCoverItem(manifest, {}, [{ idref: "ch1", linear: true }], "OEBPS", unzipped)).toBeUndefined();
+    });
+
+    test("should resolve the cover of the test EPUBs", async () => {
+      const buffer = await Bun.file("back/epub/test_data/flaubert_tentation_saint_antoine.epub").arrayBuffer();
+      const { parsedEpub } = await parseEpub(buffer);
+      expect(parsedEpub.coverItem?.href).toBe("images/cover.jpg");
+    });
+  });
+
+  describe("findFirstImageReference", () => {
+    test("should find HTML and SVG images", () => {
+      expect(findFirstImageReference(`<p>Text</p><img src="a.jpg"/><img src="b.jpg"/>`)).toBe("a.jpg");
+      expect(findFirstImageReference(`<svg><image width="600" xlink:href="cover.jpeg"/></svg>`)).toBe("cover.jpeg");
+      expect(findFirstImageReference(`<svg><image href="cover.svg"/></svg>`)).toBe("cover.svg");
+      expect(findFirstImageReference(`<p>No image</p>`)).toBeUndefined();
+    });
+  });
+
+  describe("resizeCover", () => {
+    test("should make WebP thumbnails without enlarging", async () => {
+      const image = new Uint8Array(await sharp({ create: { width: 400, height: 600, channels: 3, background: "#336699" } }).jpeg().toBuffer());
+
+      const small = await sharp(await resizeCover(image, 160)).metadata();
+      expect(small.format).toBe("webp");
+      expect(small.width).toBe(160);
+      expect(small.height).toBe(240);
+
+      const large = await sharp(await resizeCover(image, 640)).metadata();
+      expect(large.width).toBe(400);
+    });
+
+    test("should reject data that isn't an image", async () => {
+      await expect(resizeCover(encode("not an image"), 160)).rejects.toThrow();
+    });
+  });
+
+  describe("GET /epub/:id/cover", () => {
+    test("should validate sizes", () => {
+      expect(isCoverSize("small")).toBe(true);
+      expect(isCoverSize("huge")).toBe(false);
+      expect(isCoverSize("toString")).toBe(false);
+    });
+
+    test("should require a session", async () => {
+      const res = await app.request(`/epub/${crypto.randomUUID()}/cover?size=small`);
+      expect(res.status).toBe(401);
+    });
+  });
+});
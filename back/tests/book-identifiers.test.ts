@@ -0,0 +1,118 @@
+import { describe, test, expect } from "bun:test";
+import { isValidIsbn10, isValidIsbn13, normalizeIsbn, parseIdentifier } from "../epub/identifiers";
+import { extractMetadata, parseOpfFile } from "../epub/metadata";
+import { mapChapters } from "../epub/versions";
+
+/**
+ * Identifiers of a package document, read the way ingestion reads them
+ */
+const identifiersOf = (metadata: string, uniqueIdentifier: string) => {
+  const opf = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="${uniqueIdentifier}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:opf="http://www.idpf.org/2007/opf">
+<dc:title>Test</dc:title>
+${metadata}
+</metadata>
+<manifest/>
+<spine/>
+</package>`;
+  const { package: pkg } = parseOpfFile({ "OEBPS/content.opf": new TextEncoder().encode(opf) }, "OEBPS/content.opf");
+  return extractMetadata(pkg.metadata, pkg.version, pkg["unique-identifier"]).identifiers;
+};
+
+describe("Book identifiers", () => {
+  describe("ISBN", () => {
+    test("should validate check digits", () => {
+      expect(isValidIsbn13("9780306406157")).toBe(true);
+      expect(isValidIsbn13("9780306406158")).toBe(false);
+      expect(isValidIsbn10("0306406152")).toBe(true);
+      expect(isValidIsbn10("080442957X")).toBe(true);
+      expect(isValidIsbn10("0306406153")).toBe(false);
+    });
+
+    test("should normalize to ISBN-13", () => {
+      expect(normalizeIsbn("urn:isbn:978-0-306-40615-7")).toBe("9780306406157");
+      expect(normalizeIsbn("ISBN 0-306-40615-2")).toBe("9780306406157");
+      expect(normalizeIsbn("080442957X")).toBe("9780804429573");
+      expect(normalizeIsbn("1234567890123")).toBeNull();
+    });
+  });
+
+  describe("parseIdentifier", () => {
+    test("should detect schemes from the value", () => {
+      expect(parseIdentifier("urn:uuid:A1B2C3D4-0000-4000-8000-123456789ABC"))
+        .toEqual({ scheme: "uuid", value: "a1b2c3d4-0000-4000-8000-123456789abc" });
+      expect(parseIdentifier("doi:10.1000/XYZ123")).toEqual({ scheme: "doi", value: "10.1000/xyz123" });
+      expect(parseIdentifier("https://example.com/book/1")).toEqual({ scheme: "uri", value: "https://example.com/book/1" });
+      expect(parseIdentifier("AWP-E1A7F6B4")).toEqual({ scheme: "other", value: "AWP-E1A7F6B4" });
+    });
+
+    test("should only treat valid ISBNs as ISBNs", () => {
+      expect(parseIdentifier("9780306406157", "ISBN")).toEqual({ scheme: "isbn", value: "9780306406157" });
+      expect(parseIdentifier("9780306406158", "ISBN").scheme).toBe("other");
+      expect(parseIdentifier("9780306406157", "calibre").scheme).toBe("other");
+    });
+  });
+
+  describe("extractIdentifiers", () => {
+    test("should resolve EPUB 2 schemes and the unique identifier", () => {
+      const identifiers = identifiersOf(`
+        <dc:identifier id="BookId">urn:uuid:a1b2c3d4-0000-4000-8000-123456789abc</dc:identifier>
+        <dc:identifier opf:scheme="ISBN">0306406152</dc:identifier>
+      `, "BookId");
+
+      expect(identifiers.map(({ scheme, value, raw, isUnique }) => ({ scheme, value, raw, isUnique }))).toEqual([
+        { scheme: "uuid", value: "a1b2c3d4-0000-4000-8000-123456789abc", raw: "urn:uuid:a1b2c3d4-0000-4000-8000-123456789abc", isUnique: true },
+        { scheme: "isbn", value: "9780306406157", raw: "0306406152", isUnique: false },
+      ]);
+    });
+
+    test("should read EPUB 3 identifier-type refinements", () => {
+      const identifiers = identifiersOf(`
+        <dc:identifier id="pub-id">9780306406157</dc:identifier>
+        <dc:identifier id="isbn-10">0306406152</dc:identifier>
+        <dc:identifier id="other-id">9780306406157</dc:identifier>
+        <meta refines="#pub-id" property="identifier-type" scheme="onix:codelist5">15</meta>
+        <meta refines="#isbn-10" property="identifier-type" scheme="onix:codelist5">02</meta>
+        <meta refines="#other-id" property="identifier-type" scheme="onix:codelist5">01</meta>
+      `, "pub-id");
+
+      expect(identifiers.map(({ scheme, value, isUnique }) => ({ scheme, value, isUnique }))).toEqual([
+        { scheme: "isbn", value: "9780306406157", isUnique: true },
+        { scheme: "isbn", value: "9780306406157", isUnique: false },
+        { scheme: "other", value: "9780306406157", isUnique: false },
+      ]);
+    });
+  });
+
+  describe("mapChapters", () => {
+    test("should follow documents, then spine positions", () => {
+      const previous = [
+        { id: "old-1", href: "ch1.xhtml", spineIndex: 0 },
+        { id: "old-2", href: "ch2.xhtml", spineIndex: 1 },
+        { id: "old-3", href: "gone.xhtml", spineIndex: 5 },
+      ];
+      const next = [
+        { id: "new-0", href: "intro.xhtml", spineIndex: 0 },
+        { id: "new-1", href: "ch1.xhtml", spineIndex: 1 },
+        { id: "new-2", href: "ch2-renamed.xhtml", spineIndex: 2 },
+      ];
+
+      expect(Object.fromEntries(mapChapters(previous, next))).toEqual({
+        "old-1": "new-1",
+        "old-2": "new-1",
+        "old-3": "new-2",
+      });
+    });
+
+    test("should match encoded hrefs with decoded ones", () => {
+      const previous = [{ id: "old", href: "Text/title%20page.xhtml", spineIndex: 3 }];
+      const next = [
+        { id: "new-0", href: "Text/cover.xhtml", spineIndex: 0 },
+        { id: "new-1", href: "Text/title page.xhtml", spineIndex: 1 },
+      ];
+
+      expect(mapChapters(previous, next).get("old")).toBe("new-1");
+    });
+  });
+});
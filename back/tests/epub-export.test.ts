@@ -0,0 +1,226 @@
+import { describe, test, expect, beforeAll } from "bun:test";
+import * as fflate from "fflate";
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+import app from "../app";
+import { projectText } from "../epub/anchoring";
+import { buildEpub, embedAnnotations, type ExportedAsset, type ExportedBook, type ExportedChapter } from "../epub/export";
+import { resolveMimeType } from "../epub/mime";
+import { getAssetItems, parseEpubDocuments } from "../epub/parser";
+import { restoreReference } from "../epub/rewriter";
+import { createTestUser, uploadTestBook } from "./test-utils";
+
+const xmlParser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: "" });
+const decode = (data: Uint8Array) => new TextDecoder().decode(data);
+const asArray = <T>(value: T | T[]) => Array.isArray(value) ? value : [value];
+
+/**
+ * HTML offsets of a quote in a chapter, as the annotations API stores them
+ */
+const htmlRangeOf = (html: string, quote: string) => {
+  const projection = projectText(html);
+  const start = projection.text.indexOf(quote);
+  expect(start).toBeGreaterThanOrEqual(0);
+  return { startOffset: projection.starts[start]!, endOffset: projection.ends[start + quote.length - 1]! };
+};
+
+describe("EPUB export", () => {
+  test("should return 401 when not signed in", async () => {
+    const res = await app.request(`/epub/${crypto.randomUUID()}/export`);
+    expect(res.status).toBe(401);
+  });
+
+  test("should stream the archive of a stored book", async () => {
+    const { headers } = await createTestUser();
+    const { bookId } = await uploadTestBook(headers);
+    const res = await app.request(`/epub/${bookId}/export`, { headers });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("application/epub+zip");
+    const files = fflate.unzipSync(new Uint8Array(await res.arrayBuffer()));
+    const reparsed = await parseEpubDocuments(files, crypto.randomUUID());
+    expect(reparsed.chapters.length).toBeGreaterThan(0);
+    expect(reparsed.parsedEpub.coverItem).toBeDefined();
+  });
+
+  describe("restoreReference", () => {
+    const context = {
+      bookId: "book-1",
+      chapterHref: "Text/ch1.xhtml",
+      hrefBySpineIndex: new Map([[0, "Text/ch1.xhtml"], [1, "Text/part 2/ch2.xhtml"]]),
+    };
+
+    test("should point asset URLs back at the archive's files", () => {
+      expect(restoreReference("/epub/book-1/assets/Images/front%20page.jpg", context)).toBe("../Images/front%20page.jpg");
+      expect(restoreReference("/epub/book-1/assets/Text/note.svg", context)).toBe("note.svg");
+    });
+
+    test("should point chapter URLs back at their documents", () => {
+      expect(restoreReference("/epub/book-1/chapters/1#p3", context)).toBe("part%202/ch2.xhtml#p3");
+      expect(restoreReference("/epub/book-1/chapters/0#p3", context)).toBe("#p3");
+    });
+
+    test("should leave other references alone", () => {
+      expect(restoreReference("https://example.org/", context)).toBe("https://example.org/");
+      expect(restoreReference("/epub/book-2/chapters/1", context)).toBe("/epub/book-2/chapters/1");
+      expect(restoreReference("/epub/book-1/chapters/7", context)).toBe("/epub/book-1/chapters/7");
+    });
+  });
+
+  describe("embedAnnotations", () => {
+    const html = `<html xmlns="http://www.w3.org/1999/xhtml"><head><title>T</title></head><body><p>First <em>words</em> here.</p>\n<p>Second paragraph.</p></body></html>`;
+
+    test("should wrap highlights across elements in well-formed marks", () => {
+      const range = htmlRangeOf(html, "words here.\nSecond");
+      const result = embedAnnotations(html, [{ id: "a1", type: "highlight", ...range, color: "#ffeb3b", noteContent: null }]);
+
+      expect(XMLValidator.validate(result)).toBe(true);
+      expect(result).toContain(`<em><mark class="annotation" data-annotation-ids="a1" style="background-color: #ffeb3b">words</mark></em>`);
+      expect(result).toContain(`<p><mark class="annotation" data-annotation-ids="a1" style="background-color: #ffeb3b">Second</mark> paragraph.</p>`);
+      expect(projectText(result).text).toBe(projectText(html).text);
+    });
+
+    test("should add notes as footnotes", () => {
+      const range = htmlRangeOf(html, "Second paragraph");
+      const result = embedAnnotations(html, [
+        { id: "n1", type: "note", ...range, color: null, noteContent: "A <careful> note" },
+        { id: "b1", type: "bookmark", ...range, color: null, noteContent: null },
+      ]);
+
+      expect(XMLValidator.validate(result)).toBe(true);
+      expect(result).toContain(`<html xmlns:epub="http://www.idpf.org/2007/ops"`);
+      expect(result).toContain(`paragraph</mark><a epub:type="noteref" id="annotation-ref-n1" href="#annotation-note-n1">`);
+      expect(result).toContain(`<aside epub:type="footnote" id="annotation-note-n1"><p><a href="#annotation-ref-n1">1</a>. A &lt;careful&gt; note</p></aside>\n</body>`);
+      expect(result).not.toContain("b1");
+    });
+
+    test("should split overlapping highlights", () => {
+      const result = embedAnnotations(html, [
+        { id: "a1", type: "highlight", ...htmlRangeOf(html, "First words"), color: null, noteContent: null },
+        { id: "a2", type: "highlight", ...htmlRangeOf(html, "words here"), color: null, noteContent: null },
+      ]);
+
+      expect(XMLValidator.validate(result)).toBe(true);
+      expect(result).toContain(`<mark class="annotation" data-annotation-ids="a1">First </mark>`);
+      expect(result).toContain(`<em><mark class="annotation" data-annotation-ids="a1 a2">words</mark></em>`);
+      expect(result).toContain(`<mark class="annotation" data-annotation-ids="a2"> here</mark>.`);
+    });
+  });
+
+  describe("buildEpub", () => {
+    let original: Awaited<ReturnType<typeof parseEpubDocuments>>;
+    let archive: Uint8Array;
+    let files: Record<string, Uint8Array>;
+    let concurrentReads = 0;
+    let maxConcurrentReads = 0;
+
+    beforeAll(async () => {
+      const bookId = crypto.randomUUID();
+      const unzipped = fflate.unzipSync(new Uint8Array(await Bun.file("back/epub/test_data/dumas_contes_grands_petits_enfants.epub").arrayBuffer()));
+      original = await parseEpubDocuments(unzipped, bookId);
+      const { parsedEpub, newBook } = original;
+
+      const book: ExportedBook = {
+        id: bookId,
+        title: newBook.title,
+        author: newBook.author ?? null,
+        publisher: newBook.publisher ?? null,
+        language: newBook.language ?? null,
+        description: newBook.description ?? null,
+        isbn: newBook.isbn ?? null,
+        uniqueIdentifier: newBook.uniqueIdentifier ?? null,
+        readingDirection: newBook.readingDirection,
+        toc: original.toc,
+        updatedAt: new Date(),
+      };
+      const chapters: ExportedChapter[] = original.chapters.map(chapter => ({
+        spineIndex: chapter.spineIndex,
+        href: chapter.href,
+        linear: chapter.linear ?? true,
+        title: chapter.title ?? null,
+        htmlContent: chapter.htmlContent,
+      }));
+      const assets: ExportedAsset[] = getAssetItems(parsedEpub.manifest, parsedEpub.opfBasePath)
+        .filter(item => unzipped[item.path])
+        .map(item => ({
+          originalPath: item.href,
+          mimeType: resolveMimeType({ declared: item.mediaType, path: item.href }),
+          read: async () => {
+            maxConcurrentReads = Math.max(maxConcurrentReads, ++concurrentReads);
+            await Bun.sleep(1);
+            concurrentReads--;
+            return unzipped[item.path]!;
+          },
+          isCover: item.href === parsedEpub.coverItem?.href,
+        }));
+
+      // Highlight and annotate the start of the first linear chapter
+      const annotated = chapters.find(chapter => chapter.linear && projectText(chapter.htmlContent).text.trim().length > 40)!;
+      const text = projectText(annotated.htmlContent).text;
+      const quote = text.trim().slice(0, 30).trim();
+      annotated.annotations = [{ id: "note-1", type: "note", ...htmlRangeOf(annotated.htmlContent, quote), color: "yellow", noteContent: "Remember this" }];
+      expect(text).toContain(quote);
+
+      archive = new Uint8Array(await new Response(buildEpub(book, chapters, assets)).arrayBuffer());
+      files = fflate.unzipSync(archive);
+    });
+
+    test("should start with the stored mimetype entry", () => {
+      const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+      expect(view.getUint32(0, true)).toBe(0x04034b50);  // Local file header
+      expect(view.getUint16(8, true)).toBe(0);           // Stored, not deflated
+      expect(view.getUint16(28, true)).toBe(0);          // No extra field
+      expect(decode(archive.slice(30, 38))).toBe("mimetype");
+      expect(decode(archive.slice(38, 58))).toBe("application/epub+zip");
+    });
+
+    test("should read the assets one at a time", () => {
+      expect(maxConcurrentReads).toBe(1);
+    });
+
+    test("should reference only files of the archive", () => {
+      const container = xmlParser.parse(decode(files["META-INF/container.xml"]!));
+      const opfPath: string = container.container.rootfiles.rootfile["full-path"];
+      const opfDir = opfPath.split("/").slice(0, -1).join("/");
+      const opf = decode(files[opfPath]!);
+      expect(XMLValidator.validate(opf)).toBe(true);
+
+      const pkg = xmlParser.parse(opf).package;
+      const items = asArray(pkg.manifest.item) as Array<Record<string, string>>;
+      for (const item of items) {
+        expect(files[`${opfDir}/${decodeURI(item.href!)}`]).toBeDefined();
+      }
+      const ids = new Set(items.map(item => item.id));
+      expect(ids.size).toBe(items.length);
+      for (const itemref of asArray(pkg.spine.itemref) as Array<Record<string, string>>) {
+        expect(ids.has(itemref.idref)).toBe(true);
+      }
+
+      expect(items.filter(item => item.properties?.split(" ").includes("nav"))).toHaveLength(1);
+      expect(items.filter(item => item.properties === "cover-image")).toHaveLength(1);
+      expect(pkg.metadata["meta"]).toContainEqual(expect.objectContaining({ property: "dcterms:modified" }));
+    });
+
+    test("should contain well-formed documents with restored links", () => {
+      const documents = Object.entries(files).filter(([path]) => path.endsWith(".xhtml") || path.endsWith(".html"));
+      expect(documents.length).toBe(original.chapters.length + 1);
+      for (const [, data] of documents) {
+        const html = decode(data);
+        expect(XMLValidator.validate(html)).toBe(true);
+        expect(html).not.toContain("/epub/");
+      }
+    });
+
+    test("should embed the annotations", () => {
+      const html = Object.values(files).map(decode).find(html => html.includes(`<aside epub:type="footnote"`));
+      expect(html).toContain(`style="background-color: yellow"`);
+      expect(html).toContain("Remember this");
+    });
+
+    test("should parse back to the same book", async () => {
+      const reparsed = await parseEpubDocuments(files, crypto.randomUUID());
+      expect(reparsed.newBook.title).toBe(original.newBook.title);
+      expect(reparsed.chapters.map(chapter => chapter.title)).toEqual(original.chapters.map(chapter => chapter.title));
+      expect(reparsed.parsedEpub.coverItem).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, test, expect } from "bun:test";
+import * as fflate from "fflate";
+import { readdir } from "fs/promises";
+import { join } from "path";
+import { EpubTooLargeError, isEpubDocument, streamEpubEntries } from "../epub/ingest";
+import { parseEpub, parseEpubDocuments } from "../epub/parser";
+
+const TEST_DATA_DIR = "back/epub/test_data";
+
+/**
+ * Stream an archive, collecting the assets instead of uploading them
+ */
+const streamEntries = async (stream: ReadableStream<Uint8Array>, maxUncompressedSize?: number) => {
+  const assets: Record<string, Uint8Array> = {};
+  const documents = await streamEpubEntries(stream, async (path, data) => {
+    assets[path] = data;
+  }, maxUncompressedSize);
+  return { documents, assets };
+};
+
+describe("Streaming EPUB ingestion", () => {
+  test("should tell documents from assets", () => {
+    expect(isEpubDocument("META-INF/container.xml")).toBe(true);
+    expect(isEpubDocument("OEBPS/content.opf")).toBe(true);
+    expect(isEpubDocument("OEBPS/Text/ch01.XHTML")).toBe(true);
+    expect(isEpubDocument("OEBPS/Images/cover.jpg")).toBe(false);
+    expect(isEpubDocument("OEBPS/Fonts/serif.otf")).toBe(false);
+  });
+
+  test("should stream every entry of the test EPUBs", async () => {
+    const files = (await readdir(TEST_DATA_DIR)).filter(file => file.endsWith(".epub"));
+
+    for (const file of files) {
+      const epubFile = Bun.file(join(TEST_DATA_DIR, file));
+      const expected = fflate.unzipSync(new Uint8Array(await epubFile.arrayBuffer()));
+      const { documents, assets } = await streamEntries(epubFile.stream());
+
+      const streamed = { ...documents, ...assets };
+      const expectedPaths = Object.keys(expected).filter(path => !path.endsWith("/")).sort();
+      expect(Object.keys(streamed).sort()).toEqual(expectedPaths);
+      for (const path of expectedPaths) {
+        expect(streamed[path]!.byteLength).toBe(expected[path]!.byteLength);
+      }
+    }
+  });
+
+  test("should parse the same chapters from the streamed documents", async () => {
+    const epubFile = Bun.file(join(TEST_DATA_DIR, "dumas_contes_grands_petits_enfants.epub"));
+    const bookId = crypto.randomUUID();
+    const expected = await parseEpub(await epubFile.arrayBuffer(), bookId);
+    const { documents } = await streamEntries(epubFile.stream());
+
+    const parsed = await parseEpubDocuments(documents, bookId);
+    expect(parsed.newBook.title).toBe(expected.newBook.title);
+    expect(parsed.toc).toEqual(expected.toc);
+    expect(parsed.chapters).toEqual(expected.chapters);
+  });
+
+  test("should reject archives that inflate beyond the limit", async () => {
+    const bomb = fflate.zipSync({
+      "META-INF/container.xml": new TextEncoder().encode("<container/>"),
+      "OEBPS/padding.bin": new Uint8Array(4 * 1024 * 1024),
+    }, { level: 9 });
+    expect(bomb.byteLength).toBeLessThan(64 * 1024);
+
+    await expect(streamEntries(new Blob([bomb]).stream(), 1024 * 1024)).rejects.toBeInstanceOf(EpubTooLargeError);
+    const { assets } = await streamEntries(new Blob([bomb]).stream(), 8 * 1024 * 1024);
+    expect(assets["OEBPS/padding.bin"]!.byteLength).toBe(4 * 1024 * 1024);
+  });
+
+  test("should surface asset upload failures", async () => {
+    const archive = fflate.zipSync({ "OEBPS/cover.jpg": new Uint8Array(16) });
+    const failing = streamEpubEntries(new Blob([archive]).stream(), async () => {
+      throw new Error("S3 unavailable");
+    });
+
+    await expect(failing).rejects.toThrow("S3 unavailable");
+  });
+});
@@ -1,9 +1,50 @@
-import { describe, test, expect } from "bun:test";
-import app from "../index";
+import { describe, test, expect, beforeAll } from "bun:test";
+import app from "../app";
+import { and, eq } from "drizzle-orm";
+import { assets, books, db, jobs } from "../db";
+import { MAX_UPLOAD_SIZE } from "../epub/ingest";
+import { processNextJob } from "../jobs/queue";
+import { minio } from "../s3/s3";
+import { createTestUser, uploadTestBook } from "./test-utils";
+
+describe("EPUB API Authentication", () => {
+  test("should return 401 when not signed in", async () => {
+    const formData = new FormData();
+    formData.append("file", Bun.file("back/epub/test_data/dumas_contes_grands_petits_enfants.epub"));
+
+    const res = await app.request("/epub", {
+      method: "PUT",
+      body: formData,
+    });
+
+    expect(res.status).toBe(401);
+  });
+
+  test("should require a session for library and book routes", async () => {
+    const bookId = crypto.randomUUID();
+    for (const path of ["/epub", `/epub/${bookId}`, `/epub/${bookId}/toc`, `/epub/${bookId}/chapters/0`, `/epub/${bookId}/assets`, `/epub/${bookId}/assets/style.css`]) {
+      const res = await app.request(path);
+      expect(res.status).toBe(401);
+    }
+  });
+
+  test("should require a session to delete or restore a book", async () => {
+    const bookId = crypto.randomUUID();
+    expect((await app.request(`/epub/${bookId}`, { method: "DELETE" })).status).toBe(401);
+    expect((await app.request(`/epub/${bookId}/restore`, { method: "POST" })).status).toBe(401);
+    expect((await app.request("/epub/trash")).status).toBe(401);
+  });
+});
 
 describe("EPUB Upload API", () => {
+  let headers: Record<string, string>;
+
+  beforeAll(async () => {
+    headers = (await createTestUser()).headers;
+  });
+
   describe("PUT /epub/", () => {
-    test("should successfully upload and parse a valid EPUB", async () => {
+    test("should queue an ingestion job for a valid EPUB", async () => {
       const epubPath = "back/epub/test_data/dumas_contes_grands_petits_enfants.epub";
       const file = Bun.file(epubPath);
       
@@ -12,18 +53,106 @@ describe("EPUB Upload API", () => {
       
       const res = await app.request("/epub", {
         method: "PUT",
+        headers,
         body: formData,
       });
       
-      expect(res.status).toBe(200);
+      expect(res.status).toBe(202);
       
       const json = await res.json() as any;
-      expect(json.message).toBe("EPUB parsed successfully");
-      expect(json.parsedEpub).toBeDefined();
-      expect(json.parsedEpub.parsedEpub).toBeDefined();
-      expect(json.parsedEpub.newBook).toBeDefined();
-      expect(json.parsedEpub.chapters).toBeDefined();
-      expect(json.parsedEpub.assets).toBeDefined();
+      expect(json.job.id).toBeTruthy();
+      expect(json.job.status).toBe("queued");
+
+      while (await processNextJob()) {}
+      const jobRes = await app.request(`/jobs/${json.job.id}`, { headers });
+      const job = await jobRes.json() as any;
+      expect(job.status).toBe("completed");
+      expect(job.progress.assetsUploaded).toBe(job.progress.assetsTotal);
+
+      const bookRes = await app.request(`/epub/${job.result.bookId}`, { headers });
+      expect(bookRes.status).toBe(200);
+      expect(job.result.chaptersCount).toBeGreaterThan(0);
+    });
+
+    test("should fail the ingestion job of an invalid EPUB", async () => {
+      const formData = new FormData();
+      formData.append("file", new File([new Uint8Array(100)], "broken.epub"));
+      const res = await app.request("/epub", { method: "PUT", headers, body: formData });
+      const { job } = await res.json() as { job: { id: string } };
+
+      // Retries are scheduled with a delay: run attempts until the job gives up
+      for (let attempt = 0; attempt < 3; attempt++) {
+        while (await processNextJob()) {}
+        await db.update(jobs).set({ runAt: new Date(0) }).where(eq(jobs.id, job.id));
+      }
+      const failed = await (await app.request(`/jobs/${job.id}`, { headers })).json() as any;
+      expect(failed.status).toBe("failed");
+      expect(failed.error).toBeTruthy();
+
+      // Giving up deletes the stored upload
+      const { payload } = (await db.query.jobs.findFirst({ where: eq(jobs.id, job.id) }))!;
+      expect(await minio.exists(payload.sourceKey as string)).toBe(false);
+    });
+
+    test("should deduplicate a re-upload of the same file", async () => {
+      const epubPath = "back/epub/test_data/flaubert_tentation_saint_antoine.epub";
+      const first = await uploadTestBook(headers, epubPath);
+      const second = await uploadTestBook(headers, epubPath);
+
+      expect(second.bookId).toBe(first.bookId);
+    });
+
+    test("should reject unknown duplicate handling modes", async () => {
+      const formData = new FormData();
+      formData.append("file", Bun.file("back/epub/test_data/flaubert_tentation_saint_antoine.epub"));
+      const res = await app.request("/epub?onDuplicate=overwrite", { method: "PUT", headers, body: formData });
+
+      expect(res.status).toBe(400);
+    });
+
+    test("should stream a raw EPUB body to storage", async () => {
+      const res = await app.request("/epub?onDuplicate=keep", {
+        method: "PUT",
+        headers: { ...headers, "Content-Type": "application/epub+zip" },
+        body: Bun.file("back/epub/test_data/flaubert_tentation_saint_antoine.epub").stream(),
+      });
+      expect(res.status).toBe(202);
+
+      const { job } = await res.json() as { job: { id: string } };
+      while (await processNextJob()) {}
+      const finished = await (await app.request(`/jobs/${job.id}`, { headers })).json() as any;
+      expect(finished.status).toBe("completed");
+      expect(finished.result.chaptersCount).toBeGreaterThan(0);
+    });
+
+    test("should stop reading a raw EPUB body past the size limit", async () => {
+      let sent = 0;
+      const chunk = new Uint8Array(1024 * 1024);
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (sent > MAX_UPLOAD_SIZE) {
+            controller.close();
+            return;
+          }
+          sent += chunk.length;
+          controller.enqueue(chunk);
+        },
+      });
+
+      const res = await app.request("/epub", {
+        method: "PUT",
+        headers: { ...headers, "Content-Type": "application/epub+zip" },
+        body,
+      });
+
+      expect(res.status).toBe(413);
+    });
+
+    test("should not show other users' jobs", async () => {
+      const { jobId } = await uploadTestBook(headers);
+      const other = await createTestUser("Other Reader");
+
+      expect((await app.request(`/jobs/${jobId}`, { headers: other.headers })).status).toBe(404);
     });
 
     test("should return 400 when no file is provided", async () => {
@@ -31,6 +160,7 @@ describe("EPUB Upload API", () => {
       
       const res = await app.request("/epub", {
         method: "PUT",
+        headers,
         body: formData,
       });
       
@@ -46,6 +176,7 @@ describe("EPUB Upload API", () => {
       
       const res = await app.request("/epub", {
         method: "PUT",
+        headers,
         body: formData,
       });
       
@@ -66,29 +197,153 @@ describe("EPUB Upload API", () => {
       expect(epubFiles.length).toBeGreaterThan(0);
       
       for (const epubFile of epubFiles) {
-        const epubPath = join(TEST_DATA_DIR, epubFile);
-        const file = Bun.file(epubPath);
-        
-        const formData = new FormData();
-        formData.append("file", file);
-        
-        const res = await app.request("/epub", {
-          method: "PUT",
-          body: formData,
-        });
+        const { bookId } = await uploadTestBook(headers, join(TEST_DATA_DIR, epubFile));
         
+        const res = await app.request(`/epub/${bookId}`, { headers });
         expect(res.status).toBe(200);
         
         const json = await res.json() as any;
-        expect(json.message).toBe("EPUB parsed successfully");
-        expect(json.parsedEpub.newBook).toBeDefined();
-        expect(json.parsedEpub.newBook.title).toBeTruthy();
+        expect(json.title).toBeTruthy();
       }
     });
   });
 
+  describe("GET /epub/:id/assets", () => {
+    test("should list assets with their media type and classification", async () => {
+      const { bookId } = await uploadTestBook(headers, "back/epub/test_data/flaubert_tentation_saint_antoine.epub");
+
+      const res = await app.request(`/epub/${bookId}/assets?type=image`, { headers });
+      expect(res.status).toBe(200);
+      const json = await res.json() as { assets: Array<{ originalPath: string; mimeType: string; assetType: string; url: string }> };
+      const cover = json.assets.find(asset => asset.originalPath === "images/cover.jpg");
+      expect(cover).toMatchObject({ mimeType: "image/jpeg", assetType: "image", url: `/epub/${bookId}/assets/images/cover.jpg` });
+      expect(json.assets.every(asset => asset.assetType === "image")).toBe(true);
+
+      const served = await app.request(cover!.url, { headers });
+      expect(served.headers.get("Content-Type")).toBe("image/jpeg");
+      expect(served.headers.get("X-Content-Type-Options")).toBe("nosniff");
+
+      // A file the EPUB claims is HTML is downloaded, never rendered on the API's origin
+      await db.update(assets).set({ mimeType: "TEXT/HTML" }).where(and(eq(assets.bookId, bookId), eq(assets.originalPath, "images/cover.jpg")));
+      const downloaded = await app.request(cover!.url, { headers });
+      expect(downloaded.headers.get("Content-Type")).toBe("application/octet-stream");
+      expect(downloaded.headers.get("Content-Disposition")).toBe("attachment");
+
+      expect((await app.request(`/epub/${bookId}/assets?type=video`, { headers })).status).toBe(400);
+    });
+  });
+
+  describe("GET /epub/:id/cover", () => {
+    test("should serve the cover and its thumbnails", async () => {
+      const { bookId } = await uploadTestBook(headers, "back/epub/test_data/flaubert_tentation_saint_antoine.epub");
+
+      const book = await db.query.books.findFirst({ where: eq(books.id, bookId) });
+      expect(book?.coverImagePath).toMatch(/^blobs\//);
+
+      const thumbnail = await app.request(`/epub/${bookId}/cover?size=small`, { headers });
+      expect(thumbnail.status).toBe(200);
+      expect(thumbnail.headers.get("Content-Type")).toBe("image/webp");
+
+      const original = await app.request(`/epub/${bookId}/cover`, { headers });
+      expect(original.status).toBe(200);
+      expect((await original.arrayBuffer()).byteLength).toBeGreaterThan(0);
+
+      expect((await app.request(`/epub/${bookId}/cover?size=huge`, { headers })).status).toBe(400);
+    });
+  });
+
+  describe("DELETE /epub/:id", () => {
+    test("should move a book to the trash and restore it", async () => {
+      const { bookId } = await uploadTestBook(headers, "back/epub/test_data/flaubert_tentation_saint_antoine.epub");
+
+      const res = await app.request(`/epub/${bookId}`, { method: "DELETE", headers });
+      expect(res.status).toBe(200);
+      const json = await res.json() as { deleted: boolean; purgeAt: string };
+      expect(json.deleted).toBe(true);
+      expect(new Date(json.purgeAt).getTime()).toBeGreaterThan(Date.now());
+
+      expect((await app.request(`/epub/${bookId}`, { headers })).status).toBe(404);
+      const library = await (await app.request("/epub", { headers })).json() as { books: Array<{ id: string }> };
+      expect(library.books.some(b => b.id === bookId)).toBe(false);
+      const trash = await (await app.request("/epub/trash", { headers })).json() as { books: Array<{ id: string }> };
+      expect(trash.books.some(b => b.id === bookId)).toBe(true);
+
+      const purge = await db.query.jobs.findFirst({ where: eq(jobs.type, "purge_book"), orderBy: (jobs, { desc }) => desc(jobs.createdAt) });
+      expect(purge?.payload).toEqual({ bookId });
+      expect(purge!.runAt.getTime()).toBeGreaterThan(Date.now());
+
+      const restore = await app.request(`/epub/${bookId}/restore`, { method: "POST", headers });
+      expect(restore.status).toBe(200);
+      expect((await app.request(`/epub/${bookId}`, { headers })).status).toBe(200);
+      expect((await app.request(`/epub/${bookId}/restore`, { method: "POST", headers })).status).toBe(404);
+    });
+
+    test("should purge the rows and S3 objects of a permanent deletion", async () => {
+      const { bookId } = await uploadTestBook(headers, "back/epub/test_data/flaubert_tentation_saint_antoine.epub");
+
+      const res = await app.request(`/epub/${bookId}?permanent=true`, { method: "DELETE", headers });
+      expect(res.status).toBe(200);
+
+      expect(await db.query.books.findFirst({ where: eq(books.id, bookId) })).toBeUndefined();
+      const objects = await minio.list({ prefix: `books/${bookId}/` });
+      expect(objects.contents ?? []).toHaveLength(0);
+    });
+
+    test("should only let the uploader delete a book", async () => {
+      const { bookId } = await uploadTestBook(headers, "back/epub/test_data/flaubert_tentation_saint_antoine.epub");
+
+      const other = await createTestUser("Other Deleter");
+      const res = await app.request(`/epub/${bookId}`, { method: "DELETE", headers: other.headers });
+      expect(res.status).toBe(404);
+      expect((await app.request(`/epub/${bookId}`, { headers })).status).toBe(200);
+    });
+  });
+
+  describe("Authentication", () => {
+    test("should not expose another user's books", async () => {
+      const { bookId } = await uploadTestBook(headers, "back/epub/test_data/flaubert_tentation_saint_antoine.epub");
+
+      const other = await createTestUser("Other Reader");
+      const res = await app.request(`/epub/${bookId}`, { headers: other.headers });
+      expect(res.status).toBe(404);
+
+      const library = await app.request("/epub", { headers: other.headers });
+      const json = await library.json() as { books: Array<{ id: string }> };
+      expect(json.books.some(b => b.id === bookId)).toBe(false);
+    });
+
+    test("should let group members read books shared into the group", async () => {
+      const { bookId } = await uploadTestBook(headers, "back/epub/test_data/flaubert_tentation_saint_antoine.epub");
+
+      const jsonHeaders = { ...headers, "Content-Type": "application/json" };
+      const groupRes = await app.request("/groups", { method: "POST", headers: jsonHeaders, body: JSON.stringify({ name: "Book club" }) });
+      const group = await groupRes.json() as { id: string };
+      const share = await app.request(`/groups/${group.id}/books`, { method: "POST", headers: jsonHeaders, body: JSON.stringify({ bookId }) });
+      expect(share.status).toBe(201);
+      const inviteRes = await app.request(`/groups/${group.id}/invites`, { method: "POST", headers: jsonHeaders, body: JSON.stringify({}) });
+      const invite = await inviteRes.json() as { code: string };
+
+      const member = await createTestUser("Group Reader");
+      expect((await app.request(`/epub/${bookId}`, { headers: member.headers })).status).toBe(404);
+
+      const join = await app.request("/groups/join", {
+        method: "POST",
+        headers: { ...member.headers, "Content-Type": "application/json" },
+        body: JSON.stringify({ code: invite.code }),
+      });
+      expect(join.status).toBe(201);
+      expect((await app.request(`/epub/${bookId}`, { headers: member.headers })).status).toBe(200);
+      expect((await app.request(`/epub/${bookId}/chapters/0`, { headers: member.headers })).status).toBe(200);
+
+      const library = await (await app.request("/epub", { headers: member.headers })).json() as { books: { id: string }[] };
+      expect(library.books.map(book => book.id)).toContain(bookId);
+      const search = await (await app.request("/search?q=Antoine", { headers: member.headers })).json() as { results: { bookId: string }[] };
+      expect(search.results.map(result => result.bookId)).toContain(bookId);
+    });
+  });
+
   describe("Performance", () => {
-    test("should process EPUB upload within reasonable time", async () => {
+    test("should accept an EPUB upload within reasonable time", async () => {
       const epubPath = "back/epub/test_data/dumas_contes_grands_petits_enfants.epub";
       const file = Bun.file(epubPath);
       
@@ -98,11 +353,12 @@ describe("EPUB Upload API", () => {
       const startTime = performance.now();
       const res = await app.request("/epub", {
         method: "PUT",
+        headers,
         body: formData,
       });
       const endTime = performance.now();
       
-      expect(res.status).toBe(200);
+      expect(res.status).toBe(202);
       expect(endTime - startTime).toBeLessThan(2000);
     });
   });
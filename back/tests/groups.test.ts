@@ -0,0 +1,76 @@
+import { describe, test, expect } from "bun:test";
+import app from "../app";
+import { canManageRole, hasGroupRole } from "../auth/access";
+import { generateInviteCode, isInviteUsable } from "../services/groups";
+import { createTestUser } from "./test-utils";
+
+describe("Reading Groups", () => {
+  describe("roles", () => {
+    test("should rank roles", () => {
+      expect(hasGroupRole("owner", "moderator")).toBe(true);
+      expect(hasGroupRole("moderator", "moderator")).toBe(true);
+      expect(hasGroupRole("reader", "moderator")).toBe(false);
+      expect(hasGroupRole(null, "reader")).toBe(false);
+    });
+
+    test("should let owners manage everyone but owners, and moderators only readers", () => {
+      expect(canManageRole("owner", "moderator")).toBe(true);
+      expect(canManageRole("owner", "owner")).toBe(false);
+      expect(canManageRole("moderator", "reader")).toBe(true);
+      expect(canManageRole("moderator", "moderator")).toBe(false);
+      expect(canManageRole("reader", "reader")).toBe(false);
+    });
+  });
+
+  describe("invites", () => {
+    test("should generate distinct URL-safe codes", () => {
+      const code = generateInviteCode();
+
+      expect(code).toMatch(/^[A-Za-z0-9_-]{16}$/);
+      expect(generateInviteCode()).not.toBe(code);
+    });
+
+    test("should honor expiry and max uses", () => {
+      const now = new Date("2025-06-01T00:00:00Z");
+
+      expect(isInviteUsable({ expiresAt: null, maxUses: null, uses: 40 }, now)).toBe(true);
+      expect(isInviteUsable({ expiresAt: new Date("2025-05-31T00:00:00Z"), maxUses: null, uses: 0 }, now)).toBe(false);
+      expect(isInviteUsable({ expiresAt: new Date("2025-06-02T00:00:00Z"), maxUses: 2, uses: 1 }, now)).toBe(true);
+      expect(isInviteUsable({ expiresAt: null, maxUses: 2, uses: 2 }, now)).toBe(false);
+    });
+  });
+
+  describe("ownership", () => {
+    test("should let the owner hand the group over before leaving", async () => {
+      const owner = await createTestUser("Founder");
+      const member = await createTestUser("Successor");
+      const json = (headers: Record<string, string>, method: string, body: unknown) =>
+        ({ method, headers: { ...headers, "Content-Type": "application/json" }, body: JSON.stringify(body) });
+
+      const group = await (await app.request("/groups", json(owner.headers, "POST", { name: "Book club" }))).json() as { id: string };
+      const invite = await (await app.request(`/groups/${group.id}/invites`, json(owner.headers, "POST", {}))).json() as { code: string };
+      expect((await app.request("/groups/join", json(member.headers, "POST", { code: invite.code }))).status).toBe(201);
+
+      expect((await app.request(`/groups/${group.id}/members/${owner.user.id}`, { method: "DELETE", headers: owner.headers })).status).toBe(409);
+      expect((await app.request(`/groups/${group.id}/members/${owner.user.id}`, json(owner.headers, "PATCH", { role: "moderator" }))).status).toBe(409);
+      expect((await app.request(`/groups/${group.id}/members/${member.user.id}`, json(member.headers, "PATCH", { role: "owner" }))).status).toBe(403);
+
+      expect((await app.request(`/groups/${group.id}/members/${member.user.id}`, json(owner.headers, "PATCH", { role: "owner" }))).status).toBe(200);
+      // Owners can't demote each other, only step down
+      expect((await app.request(`/groups/${group.id}/members/${owner.user.id}`, json(member.headers, "PATCH", { role: "reader" }))).status).toBe(403);
+      expect((await app.request(`/groups/${group.id}/members/${owner.user.id}`, json(owner.headers, "PATCH", { role: "moderator" }))).status).toBe(200);
+
+      expect((await app.request(`/groups/${group.id}/members/${member.user.id}`, { method: "DELETE", headers: member.headers })).status).toBe(409);
+      expect((await app.request(`/groups/${group.id}/members/${owner.user.id}`, { method: "DELETE", headers: owner.headers })).status).toBe(200);
+      const handedOver = await (await app.request(`/groups/${group.id}`, { headers: member.headers })).json() as { role: string; members: unknown[] };
+      expect(handedOver).toMatchObject({ role: "owner", members: [expect.anything()] });
+    });
+  });
+
+  describe("Authentication", () => {
+    test("should reject unauthenticated requests", async () => {
+      expect((await app.request("/groups")).status).toBe(401);
+      expect((await app.request("/groups/join", { method: "POST", body: JSON.stringify({ code: "abc" }) })).status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, test, expect } from "bun:test";
+import { parseChapterData } from "../epub/metadata";
+import { isSafeUrl, sanitizeChapterHtml } from "../epub/sanitizer";
+
+const FIXTURES_DIR = "back/epub/test_data/malicious";
+
+const loadFixture = (name: string) => Bun.file(`${FIXTURES_DIR}/${name}`).text();
+
+describe("HTML Sanitizer", () => {
+  describe("Malicious fixture chapters", () => {
+    test("should remove script elements, including self-closing ones", async () => {
+      const result = sanitizeChapterHtml(await loadFixture("script-injection.xhtml"));
+
+      expect(result).not.toMatch(/<script/i);
+      expect(result).not.toContain("document.cookie");
+      expect(result).not.toContain("alert('svg')");
+      expect(result).not.toMatch(/<noscript|<base|http-equiv/i);
+      // Content after the self-closing <script/> must survive
+      expect(result).toContain("It was a dark and stormy night.");
+      expect(result).toContain("The end of the chapter.");
+      expect(result).toContain("<rect");
+    });
+
+    test("should strip inline event handlers", async () => {
+      const result = sanitizeChapterHtml(await loadFixture("event-handlers.xhtml"));
+
+      expect(result).not.toMatch(/\son[a-z]+=/i);
+      expect(result).not.toContain("expression(");
+      expect(result).not.toMatch(/<animate/i);
+      expect(result).toContain(`class="text"`);
+      expect(result).toContain(`src="../images/plate.png"`);
+      expect(result).toContain(`alt="Plate"`);
+      expect(result).toContain("Hidden text");
+    });
+
+    test("should remove javascript: and other dangerous URLs", async () => {
+      const result = sanitizeChapterHtml(await loadFixture("javascript-urls.xhtml"));
+
+      expect(result).not.toMatch(/javascript/i);
+      expect(result).not.toMatch(/java&#x09;script/i);
+      expect(result).not.toContain("vbscript:");
+      expect(result).not.toContain("data:text/html");
+      expect(result).not.toContain("@import");
+      expect(result).not.toContain("evil.example");
+      expect(result).toContain(`src="data:image/png;base64,iVBORw0KGgo="`);
+      expect(result).toContain(`href="chapter2.xhtml#section"`);
+      expect(result).toContain(`href="https://example.org/"`);
+      expect(result).toContain(".safe { color: red; }");
+    });
+
+    test("should remove remote iframes, embeds and forms", async () => {
+      const result = sanitizeChapterHtml(await loadFixture("remote-iframe.xhtml"));
+
+      expect(result).not.toMatch(/<iframe|<object|<embed|<form|<input|<button/i);
+      expect(result).not.toContain("evil.example");
+      expect(result).not.toContain(`rel="import"`);
+      expect(result).toContain(`href="../styles/book.css"`);
+      expect(result).toContain("Before the embeds.");
+      expect(result).toContain("After the embeds.");
+    });
+  });
+
+  describe("EPUB content preservation", () => {
+    test("should keep the XML declaration, document structure and epub attributes", () => {
+      const html = `<?xml version="1.0" encoding="utf-8"?><html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="fr"><head><title>Titre</title></head><body><section epub:type="chapter"><p>Texte</p><aside epub:type="footnote" id="n1">Note</aside></section></body></html>`;
+      const result = sanitizeChapterHtml(html);
+
+      expect(result).toStartWith(`<?xml version="1.0" encoding="utf-8"?>`);
+      expect(result).toContain(`xml:lang="fr"`);
+      expect(result).toContain(`<section epub:type="chapter">`);
+      expect(result).toContain(`<aside epub:type="footnote" id="n1">`);
+    });
+
+    test("should unwrap unknown elements but keep their text", () => {
+      const result = sanitizeChapterHtml(`<p>Some <blink>unknown</blink> markup</p>`);
+
+      expect(result).toBe(`<p>Some unknown markup</p>`);
+    });
+
+    test("should still extract the chapter title from sanitized HTML", async () => {
+      const sanitized = sanitizeChapterHtml(await loadFixture("script-injection.xhtml"));
+      const chapter = parseChapterData(sanitized, 1, 0, "chapter1.xhtml");
+
+      expect(chapter.title).toBe("Chapter One");
+    });
+  });
+
+  describe("isSafeUrl", () => {
+    test("should accept relative, fragment and web URLs", () => {
+      expect(isSafeUrl("images/x.png")).toBe(true);
+      expect(isSafeUrl("#note")).toBe(true);
+      expect(isSafeUrl("https://example.org/")).toBe(true);
+      expect(isSafeUrl("mailto:author@example.org")).toBe(true);
+    });
+
+    test("should reject script schemes however they are written", () => {
+      expect(isSafeUrl("javascript:alert(1)")).toBe(false);
+      expect(isSafeUrl(" \tjavascript:alert(1)")).toBe(false);
+      expect(isSafeUrl("java\nscript:alert(1)")).toBe(false);
+      expect(isSafeUrl("javascript&colon;alert(1)")).toBe(false);
+      expect(isSafeUrl("&#106;avascript:alert(1)")).toBe(false);
+      expect(isSafeUrl("data:text/html,<script>")).toBe(false);
+      expect(isSafeUrl("//evil.example/x.js")).toBe(false);
+    });
+  });
+});
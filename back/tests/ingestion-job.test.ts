@@ -0,0 +1,83 @@
+import { describe, test, expect, beforeAll, afterEach } from "bun:test";
+import { eq, sql } from "drizzle-orm";
+import { books, chapters, db, jobs } from "../db";
+import { COVER_SIZES, coverThumbnailKey, type CoverSize } from "../epub/cover";
+import { queueEpubIngestion } from "../jobs/ingest-epub";
+import { processNextJob } from "../jobs/queue";
+import { minio } from "../s3/s3";
+import { createTestUser } from "./test-utils";
+
+const EPUB_PATH = "back/epub/test_data/dumas_contes_grands_petits_enfants.epub";
+
+/**
+ * Run due jobs until the queue is empty, then load the given job
+ */
+const runJobs = async (jobId: string) => {
+  while (await processNextJob()) {}
+  return (await db.query.jobs.findFirst({ where: eq(jobs.id, jobId) }))!;
+};
+
+const thumbnailsExist = async (bookId: string) => {
+  const sizes = Object.keys(COVER_SIZES) as CoverSize[];
+  return Promise.all(sizes.map(size => minio.exists(coverThumbnailKey(bookId, size))));
+};
+
+describe("EPUB ingestion job", () => {
+  let userId: string;
+
+  beforeAll(async () => {
+    userId = (await createTestUser()).user.id;
+  });
+
+  afterEach(async () => {
+    await db.execute(sql`drop trigger if exists fail_chapters_insert on chapters`);
+  });
+
+  test("should roll back a failed attempt and start over on retry", async () => {
+    const job = await queueEpubIngestion(Bun.file(EPUB_PATH).stream(), userId, "keep");
+    const { bookId } = job.payload as { bookId: string };
+
+    // Fail the transaction after the book row was inserted
+    await db.execute(sql.raw(`
+      create or replace function fail_chapters_insert() returns trigger as $$
+      begin
+        raise exception 'chapters unavailable';
+      end;
+      $$ language plpgsql
+    `));
+    await db.execute(sql.raw(`
+      create trigger fail_chapters_insert before insert on chapters
+      for each row when (new.book_id = '${bookId}') execute function fail_chapters_insert()
+    `));
+
+    const failed = await runJobs(job.id);
+    expect(failed).toMatchObject({ status: "queued", attempts: 1 });
+    expect(failed.error).toContain("Failed query");
+    expect(await db.query.books.findFirst({ where: eq(books.id, bookId) })).toBeUndefined();
+    expect(await thumbnailsExist(bookId)).not.toContain(true);
+
+    await db.execute(sql`drop trigger fail_chapters_insert on chapters`);
+    await db.update(jobs).set({ runAt: new Date(0) }).where(eq(jobs.id, job.id));
+    const completed = await runJobs(job.id);
+    expect(completed).toMatchObject({ status: "completed", attempts: 2, result: { bookId } });
+    expect(await thumbnailsExist(bookId)).not.toContain(false);
+  });
+
+  test("should complete an attempt whose book an earlier one committed", async () => {
+    const job = await queueEpubIngestion(Bun.file(EPUB_PATH).stream(), userId, "keep");
+    const { bookId, sourceKey } = job.payload as { bookId: string; sourceKey: string };
+    const { result } = await runJobs(job.id);
+
+    // The worker is lost after committing: the job is reclaimed with its upload still around
+    await minio.write(sourceKey, Bun.file(EPUB_PATH));
+    await db.update(jobs)
+      .set({ status: "running", lockedAt: new Date(Date.now() - 60 * 60 * 1000) })
+      .where(eq(jobs.id, job.id));
+
+    const retried = await runJobs(job.id);
+    expect(retried).toMatchObject({ status: "completed", attempts: 2, result: { bookId, chaptersCount: result!.chaptersCount } });
+    expect(await db.$count(chapters, eq(chapters.bookId, bookId))).toBe(result!.chaptersCount as number);
+    expect(await thumbnailsExist(bookId)).not.toContain(false);
+    expect(await minio.exists(sourceKey)).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, test, expect } from "bun:test";
+import { eq } from "drizzle-orm";
+import app from "../app";
+import { db, jobs, type Job } from "../db";
+import { enqueueJob, getRetryDelay, processNextJob, registerJobHandler } from "../jobs/queue";
+
+/**
+ * Run due jobs until the queue is empty, then make the given job due again
+ */
+const drainQueue = async (jobId: string) => {
+  while (await processNextJob()) {}
+  await db.update(jobs).set({ runAt: new Date(0) }).where(eq(jobs.id, jobId));
+  return (await db.query.jobs.findFirst({ where: eq(jobs.id, jobId) }))!;
+};
+
+describe("Jobs", () => {
+  test("should back off exponentially between attempts", () => {
+    expect(getRetryDelay(1)).toBe(5_000);
+    expect(getRetryDelay(2)).toBe(10_000);
+    expect(getRetryDelay(3)).toBe(20_000);
+  });
+
+  describe("Queue", () => {
+    test("should retry a failed attempt", async () => {
+      registerJobHandler("test_flaky", {
+        async run(job) {
+          if (job.attempts < 2) throw new Error("Not yet");
+          return { attempts: job.attempts };
+        },
+      });
+      const job = await enqueueJob("test_flaky", {});
+
+      const retried = await drainQueue(job.id);
+      expect(retried).toMatchObject({ status: "queued", attempts: 1, error: "Not yet" });
+      const completed = await drainQueue(job.id);
+      expect(completed).toMatchObject({ status: "completed", attempts: 2, result: { attempts: 2 } });
+    });
+
+    test("should reclaim a lost job until it runs out of attempts", async () => {
+      const failed: Job[] = [];
+      registerJobHandler("test_lost", {
+        async run() {
+          return {};
+        },
+        async onFailed(job) {
+          failed.push(job);
+        },
+      });
+      const staleLock = new Date(Date.now() - 60 * 60 * 1000);
+      const lose = (job: Job, attempts: number) =>
+        db.update(jobs).set({ status: "running", attempts, lockedAt: staleLock }).where(eq(jobs.id, job.id));
+
+      const reclaimed = await enqueueJob("test_lost", {});
+      await lose(reclaimed, 1);
+      expect(await drainQueue(reclaimed.id)).toMatchObject({ status: "completed", attempts: 2 });
+
+      const abandoned = await enqueueJob("test_lost", {}, { maxAttempts: 2 });
+      await lose(abandoned, 2);
+      expect(await drainQueue(abandoned.id)).toMatchObject({ status: "failed", attempts: 2 });
+      expect(failed.map(job => job.id)).toEqual([abandoned.id]);
+    });
+
+    test("should keep the lock of a job reporting progress", async () => {
+      let lockedAt: Date | null = null;
+      registerJobHandler("test_progress", {
+        async run(job, { reportProgress }) {
+          await db.update(jobs).set({ lockedAt: new Date(0) }).where(eq(jobs.id, job.id));
+          await reportProgress({ step: 1 });
+          lockedAt = (await db.query.jobs.findFirst({ where: eq(jobs.id, job.id) }))!.lockedAt;
+        },
+      });
+      const job = await enqueueJob("test_progress", {});
+
+      expect(await drainQueue(job.id)).toMatchObject({ status: "completed", progress: { step: 1 } });
+      expect(lockedAt!.getTime()).toBeGreaterThan(Date.now() - 60_000);
+    });
+  });
+
+  describe("Authentication", () => {
+    test("should reject unauthenticated requests", async () => {
+      expect((await app.request(`/jobs/${crypto.randomUUID()}`)).status).toBe(401);
+    });
+  });
+});
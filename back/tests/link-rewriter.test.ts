@@ -0,0 +1,114 @@
+import { describe, test, expect } from "bun:test";
+import { extractManifest } from "../epub/metadata";
+import { parseEpub } from "../epub/parser";
+import { resolveEpubPath, rewriteChapterLinks, type LinkRewriteContext } from "../epub/rewriter";
+
+describe("Link Rewriter", () => {
+  const context: LinkRewriteContext = {
+    bookId: "book-1",
+    chapterHref: "Text/ch2.xhtml",
+    opfBasePath: "OEBPS",
+    spineIndexByHref: new Map([
+      ["Text/ch1.xhtml", 0],
+      ["Text/ch2.xhtml", 1],
+      ["Text/ch3.xhtml", 2],
+    ]),
+  };
+
+  describe("resolveEpubPath", () => {
+    test("should resolve parent and current directory segments", () => {
+      expect(resolveEpubPath("OEBPS/Text", "../images/x.png")).toBe("OEBPS/images/x.png");
+      expect(resolveEpubPath("OEBPS/Text", "./ch3.xhtml")).toBe("OEBPS/Text/ch3.xhtml");
+      expect(resolveEpubPath("", "style.css")).toBe("style.css");
+    });
+
+    test("should return null when climbing above the archive root", () => {
+      expect(resolveEpubPath("OEBPS", "../../x.png")).toBeNull();
+    });
+  });
+
+  describe("rewriteChapterLinks", () => {
+    test("should point images and stylesheets at the asset route", () => {
+      const html = `<html><head><link rel="stylesheet" href="../Styles/style.css"/></head><body><img src="../images/x.png"/></body></html>`;
+      const result = rewriteChapterLinks(html, context);
+
+      expect(result).toContain(`href="/epub/book-1/assets/Styles/style.css"`);
+      expect(result).toContain(`src="/epub/book-1/assets/images/x.png"`);
+    });
+
+    test("should turn inter-chapter links into spine-index links keeping the fragment", () => {
+      const html = `<p><a href="ch3.xhtml#sec2">next</a> <a href="ch1.xhtml">first</a></p>`;
+      const result = rewriteChapterLinks(html, context);
+
+      expect(result).toContain(`href="/epub/book-1/chapters/2#sec2"`);
+      expect(result).toContain(`href="/epub/book-1/chapters/0"`);
+    });
+
+    test("should keep same-document links as fragments", () => {
+      const result = rewriteChapterLinks(`<a href="ch2.xhtml#note1">1</a><a href="#note2">2</a>`, context);
+
+      expect(result).toContain(`href="#note1"`);
+      expect(result).toContain(`href="#note2"`);
+    });
+
+    test("should leave external links untouched", () => {
+      const html = `<a href="https://example.com/x.png">x</a><a href="mailto:a@b.c">mail</a><img src="data:image/png;base64,AAAA"/>`;
+      const result = rewriteChapterLinks(html, context);
+
+      expect(result).toContain(`href="https://example.com/x.png"`);
+      expect(result).toContain(`href="mailto:a@b.c"`);
+      expect(result).toContain(`src="data:image/png;base64,AAAA"`);
+    });
+
+    test("should rewrite SVG images and inline style urls", () => {
+      const html = `<svg><image xlink:href="../images/cover.jpg"/></svg><div style="background: url('../images/bg.png')"></div>`;
+      const result = rewriteChapterLinks(html, context);
+
+      expect(result).toContain(`xlink:href="/epub/book-1/assets/images/cover.jpg"`);
+      expect(result).toContain(`url('/epub/book-1/assets/images/bg.png')`);
+    });
+
+    test("should decode and re-encode paths with spaces", () => {
+      const result = rewriteChapterLinks(`<img src="../images/my%20image.png"/>`, context);
+
+      expect(result).toContain(`src="/epub/book-1/assets/images/my%20image.png"`);
+    });
+
+    test("should drop the query of references, with or without a fragment", () => {
+      const result = rewriteChapterLinks(`<img src="../images/a.png?v=2"/><a href="ch3.xhtml?x=1#p3">Next</a>`, context);
+
+      expect(result).toContain(`src="/epub/book-1/assets/images/a.png"`);
+      expect(result).toContain(`href="/epub/book-1/chapters/2#p3"`);
+    });
+  });
+
+  describe("extractManifest", () => {
+    test("should store decoded hrefs, matching the archive's file names and decoded links", () => {
+      const manifest = extractManifest({
+        item: [
+          { id: "img", href: "Images/my%20image%C3%A9.png", "media-type": "image/png" },
+          { id: "ch", href: "./Text/ch1.xhtml", "media-type": "application/xhtml+xml" },
+          { id: "bad", href: "Images/100%.png", "media-type": "image/png" },
+        ],
+      });
+
+      expect(manifest.map(item => item.href)).toEqual(["Images/my imageé.png", "Text/ch1.xhtml", "Images/100%.png"]);
+    });
+  });
+
+  describe("Integration with parseEpub", () => {
+    test("should leave no relative asset references in parsed chapters", async () => {
+      const epubPath = "back/epub/test_data/dumas_contes_grands_petits_enfants.epub";
+      const buffer = await Bun.file(epubPath).arrayBuffer();
+      const result = await parseEpub(buffer, "book-1");
+
+      expect(result.newBook.id).toBe("book-1");
+      for (const chapter of result.chapters) {
+        const references = chapter.htmlContent.match(/(?:src|href)="[^"]*"/g) ?? [];
+        for (const reference of references) {
+          expect(reference).toMatch(/="(\/epub\/book-1\/|#|https?:|mailto:)/);
+        }
+      }
+    });
+  });
+});
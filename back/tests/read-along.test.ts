@@ -0,0 +1,178 @@
+import { describe, test, expect } from "bun:test";
+import app from "../app";
+import type { ReadAlongSession } from "../db";
+import type { RealtimeConnection, ServerMessage } from "../realtime/hub";
+import { broadcastReadAlong, getParticipantCount, joinReadAlong, leaveReadAlong, setFollowing } from "../realtime/read-along";
+import { parseClientMessage } from "../services/realtime";
+import { createTestUser, uploadTestBook } from "./test-utils";
+
+const fakeConnection = (userId: string, messages: ServerMessage[] = []): RealtimeConnection => ({
+  userId,
+  name: userId,
+  bookId: null,
+  spineIndex: null,
+  readAlong: null,
+  send: message => messages.push(message),
+});
+
+const fakeSession = (id: string, overrides: Partial<ReadAlongSession> = {}): ReadAlongSession => ({
+  id,
+  groupId: "group",
+  bookId: "book",
+  leaderId: "leader",
+  spineIndex: 3,
+  scrollPosition: 120,
+  chapterProgress: 0.25,
+  positionAt: new Date("2025-06-01T00:00:00Z"),
+  startedAt: new Date("2025-06-01T00:00:00Z"),
+  endedAt: null,
+  ...overrides,
+});
+
+describe("Read-along", () => {
+  test("should parse read-along client messages", () => {
+    const sessionId = crypto.randomUUID();
+    expect(parseClientMessage(JSON.stringify({ type: "readalong.join", sessionId })))
+      .toEqual({ type: "readalong.join", sessionId });
+    expect(parseClientMessage(JSON.stringify({ type: "readalong.join", sessionId: "s" }))).toBeNull();
+    expect(parseClientMessage(JSON.stringify({ type: "readalong.follow", following: false })))
+      .toEqual({ type: "readalong.follow", following: false });
+    expect(parseClientMessage(JSON.stringify({ type: "readalong.follow", following: "no" }))).toBeNull();
+  });
+
+  test("should send the current position to late joiners", () => {
+    const messages: ServerMessage[] = [];
+    const late = fakeConnection("late", messages);
+
+    joinReadAlong(late, fakeSession("late-session"));
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({ type: "readalong.state", session: { id: "late-session", spineIndex: 3, scrollPosition: 120 } });
+    expect(getParticipantCount("late-session")).toBe(1);
+    leaveReadAlong(late);
+    expect(getParticipantCount("late-session")).toBe(0);
+  });
+
+  test("should only move followers who haven't opted out", () => {
+    const session = fakeSession("position-session");
+    const followerMessages: ServerMessage[] = [];
+    const pausedMessages: ServerMessage[] = [];
+    const follower = fakeConnection("follower", followerMessages);
+    const paused = fakeConnection("paused", pausedMessages);
+    joinReadAlong(follower, session);
+    joinReadAlong(paused, session);
+    setFollowing(paused, false, session);
+
+    const moved = { ...session, spineIndex: 4, scrollPosition: 0, chapterProgress: 0 };
+    broadcastReadAlong("position", moved);
+
+    expect(followerMessages.at(-1)).toEqual({
+      type: "readalong.position",
+      sessionId: "position-session",
+      spineIndex: 4,
+      scrollPosition: 0,
+      chapterProgress: 0,
+    });
+    expect(pausedMessages.filter(message => message.type === "readalong.position")).toHaveLength(0);
+
+    // Resuming jumps to where the leader is now
+    setFollowing(paused, true, moved);
+    expect(pausedMessages.at(-1)).toMatchObject({ type: "readalong.state", session: { spineIndex: 4 } });
+
+    [follower, paused].forEach(leaveReadAlong);
+  });
+
+  test("should tell everyone the session ended and drop them", () => {
+    const session = fakeSession("ended-session");
+    const messages: ServerMessage[] = [];
+    const paused = fakeConnection("paused", messages);
+    joinReadAlong(paused, session);
+    setFollowing(paused, false, session);
+
+    broadcastReadAlong("ended", { ...session, endedAt: new Date() });
+
+    expect(messages.at(-1)).toEqual({ type: "readalong.ended", sessionId: "ended-session" });
+    expect(paused.readAlong).toBeNull();
+    expect(getParticipantCount("ended-session")).toBe(0);
+  });
+
+  describe("HTTP routes", () => {
+    const json = (headers: Record<string, string>, method: string, body: unknown) =>
+      ({ method, headers: { ...headers, "Content-Type": "application/json" }, body: JSON.stringify(body) });
+
+    /**
+     * A group sharing a book, with a moderator and two readers besides its owner
+     */
+    const createReadingGroup = async () => {
+      const owner = await createTestUser("Owner");
+      const { bookId } = await uploadTestBook(owner.headers);
+      const group = await (await app.request("/groups", json(owner.headers, "POST", { name: "Read-along club" }))).json() as { id: string };
+      await app.request(`/groups/${group.id}/books`, json(owner.headers, "POST", { bookId }));
+
+      const join = async (name: string, role: "reader" | "moderator") => {
+        const member = await createTestUser(name);
+        const invite = await (await app.request(`/groups/${group.id}/invites`, json(owner.headers, "POST", { role }))).json() as { code: string };
+        await app.request("/groups/join", json(member.headers, "POST", { code: invite.code }));
+        return member;
+      };
+      return {
+        groupId: group.id,
+        bookId,
+        owner,
+        moderator: await join("Moderator", "moderator"),
+        leader: await join("Leader", "reader"),
+        reader: await join("Reader", "reader"),
+      };
+    };
+
+    test("should let the leader move the session and hand it over", async () => {
+      const { groupId, bookId, leader, reader, moderator } = await createReadingGroup();
+
+      const started = await app.request("/read-along", json(leader.headers, "POST", { groupId, bookId }));
+      expect(started.status).toBe(201);
+      const session = await started.json() as { id: string; leaderId: string };
+      expect(session.leaderId).toBe(leader.user.id);
+      expect((await app.request("/read-along", json(reader.headers, "POST", { groupId, bookId }))).status).toBe(409);
+
+      const position = (clientTimestamp: string) => ({ spineIndex: 2, scrollPosition: 40, chapterProgress: 0.5, clientTimestamp });
+      expect((await app.request(`/read-along/${session.id}/position`, json(reader.headers, "PUT", position(new Date().toISOString())))).status).toBe(403);
+      const moved = await app.request(`/read-along/${session.id}/position`, json(leader.headers, "PUT", position(new Date().toISOString())));
+      expect(await moved.json()).toMatchObject({ applied: true, session: { spineIndex: 2, scrollPosition: 40 } });
+      // An older position from the same leader is ignored
+      const stale = await app.request(`/read-along/${session.id}/position`, json(leader.headers, "PUT", position("2000-01-01T00:00:00Z")));
+      expect(await stale.json()).toMatchObject({ applied: false });
+
+      // Readers can't take the lead, the leader and moderators can give it
+      expect((await app.request(`/read-along/${session.id}/leader`, json(reader.headers, "POST", { userId: reader.user.id }))).status).toBe(403);
+      const handedOver = await app.request(`/read-along/${session.id}/leader`, json(leader.headers, "POST", { userId: reader.user.id }));
+      expect(await handedOver.json()).toMatchObject({ leaderId: reader.user.id });
+      expect((await app.request(`/read-along/${session.id}/position`, json(leader.headers, "PUT", position(new Date().toISOString())))).status).toBe(403);
+      const reclaimed = await app.request(`/read-along/${session.id}/leader`, json(moderator.headers, "POST", { userId: leader.user.id }));
+      expect(await reclaimed.json()).toMatchObject({ leaderId: leader.user.id });
+    });
+
+    test("should let the leader or a moderator end the session", async () => {
+      const { groupId, bookId, leader, reader, moderator } = await createReadingGroup();
+
+      const first = await (await app.request("/read-along", json(leader.headers, "POST", { groupId, bookId }))).json() as { id: string };
+      expect((await app.request(`/read-along/${first.id}/end`, { method: "POST", headers: reader.headers })).status).toBe(403);
+      expect((await app.request(`/read-along/${first.id}/end`, { method: "POST", headers: leader.headers })).status).toBe(200);
+      expect((await app.request(`/read-along/${first.id}/end`, { method: "POST", headers: leader.headers })).status).toBe(404);
+
+      // Once the session is over, another one can start
+      const second = await app.request("/read-along", json(reader.headers, "POST", { groupId, bookId }));
+      expect(second.status).toBe(201);
+      const { id } = await second.json() as { id: string };
+      expect((await app.request(`/read-along/${id}/end`, { method: "POST", headers: moderator.headers })).status).toBe(200);
+      const running = await (await app.request(`/read-along?groupId=${groupId}`, { headers: reader.headers })).json() as { sessions: unknown[] };
+      expect(running.sessions).toEqual([]);
+    });
+  });
+
+  describe("Authentication", () => {
+    test("should reject unauthenticated requests", async () => {
+      expect((await app.request("/read-along?groupId=abc")).status).toBe(401);
+      expect((await app.request("/read-along", { method: "POST", body: JSON.stringify({ groupId: "a", bookId: "b" }) })).status).toBe(401);
+    });
+  });
+});
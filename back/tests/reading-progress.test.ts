@@ -0,0 +1,58 @@
+import { describe, test, expect } from "bun:test";
+import app from "../app";
+import { computeProgressPercent, parseProgressUpdate } from "../services/progress";
+
+describe("Reading Progress", () => {
+  describe("computeProgressPercent", () => {
+    const chapters = [
+      { spineIndex: 0, wordCount: 50, linear: false },
+      { spineIndex: 1, wordCount: 100, linear: true },
+      { spineIndex: 2, wordCount: 300, linear: true },
+      { spineIndex: 3, wordCount: 100, linear: true },
+    ];
+
+    test("should weight chapters by word count", () => {
+      expect(computeProgressPercent(chapters, 1, 0)).toBe(0);
+      expect(computeProgressPercent(chapters, 2, 0)).toBe(20);
+      expect(computeProgressPercent(chapters, 2, 0.5)).toBe(50);
+      expect(computeProgressPercent(chapters, 3, 1)).toBe(100);
+    });
+
+    test("should ignore non-linear chapters", () => {
+      expect(computeProgressPercent(chapters, 0, 1)).toBe(0);
+    });
+
+    test("should return 0 when word counts are unknown", () => {
+      expect(computeProgressPercent([{ spineIndex: 0, wordCount: null, linear: true }], 0, 0.5)).toBe(0);
+    });
+  });
+
+  describe("parseProgressUpdate", () => {
+    test("should accept a valid update", () => {
+      const update = parseProgressUpdate({ spineIndex: 2, scrollPosition: 120, chapterProgress: 0.4, clientTimestamp: "2025-01-01T10:00:00Z" });
+
+      expect(update).toEqual({ spineIndex: 2, scrollPosition: 120, chapterProgress: 0.4, readAt: new Date("2025-01-01T10:00:00Z") });
+    });
+
+    test("should reject invalid fields", () => {
+      expect("error" in parseProgressUpdate(null)).toBe(true);
+      expect("error" in parseProgressUpdate({ spineIndex: -1, clientTimestamp: Date.now() })).toBe(true);
+      expect("error" in parseProgressUpdate({ spineIndex: 1, chapterProgress: 1.5, clientTimestamp: Date.now() })).toBe(true);
+      expect("error" in parseProgressUpdate({ spineIndex: 1 })).toBe(true);
+      expect("error" in parseProgressUpdate({ spineIndex: 1, clientTimestamp: "not a date" })).toBe(true);
+    });
+  });
+
+  describe("Authentication", () => {
+    test("should reject unauthenticated requests", async () => {
+      const res = await app.request("/books/some-book/progress", {
+        method: "PUT",
+        body: JSON.stringify({ spineIndex: 0, clientTimestamp: Date.now() }),
+      });
+      expect(res.status).toBe(401);
+
+      const list = await app.request("/books/continue-reading");
+      expect(list.status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import app from "../app";
+import { getPresence, joinChapter, leaveBook, publishAnnotationEvent, type RealtimeConnection, type ServerMessage } from "../realtime/hub";
+import { parseClientMessage, websocket } from "../services/realtime";
+import { createTestUser, uploadTestBook } from "./test-utils";
+
+const fakeConnection = (userId: string, messages: ServerMessage[] = []): RealtimeConnection => ({
+  userId,
+  name: userId,
+  bookId: null,
+  spineIndex: null,
+  readAlong: null,
+  send: message => messages.push(message),
+});
+
+/**
+ * Open a socket and collect the JSON messages it receives
+ */
+const connect = (url: string, headers?: Record<string, string>) => {
+  const socket = new WebSocket(url, { headers } as any);
+  const messages: any[] = [];
+  socket.addEventListener("message", event => messages.push(JSON.parse(event.data as string)));
+  const opened = new Promise<void>((resolve, reject) => {
+    socket.addEventListener("open", () => resolve());
+    socket.addEventListener("error", () => reject(new Error("WebSocket connection failed")));
+  });
+  const waitFor = async (predicate: (message: any) => boolean, timeout = 2000) => {
+    const start = Date.now();
+    while (Date.now() - start < timeout) {
+      const match = messages.find(predicate);
+      if (match) return match;
+      await Bun.sleep(10);
+    }
+    throw new Error("Timed out waiting for message");
+  };
+  return { socket, messages, opened, waitFor };
+};
+
+describe("Realtime", () => {
+  describe("parseClientMessage", () => {
+    test("should accept subscribe and unsubscribe messages", () => {
+      const bookId = crypto.randomUUID();
+      expect(parseClientMessage(JSON.stringify({ type: "subscribe", bookId, spineIndex: 2 })))
+        .toEqual({ type: "subscribe", bookId, spineIndex: 2 });
+      expect(parseClientMessage(JSON.stringify({ type: "unsubscribe" }))).toEqual({ type: "unsubscribe" });
+    });
+
+    test("should reject malformed messages", () => {
+      expect(parseClientMessage("not json")).toBeNull();
+      expect(parseClientMessage(JSON.stringify({ type: "subscribe", bookId: crypto.randomUUID(), spineIndex: -1 }))).toBeNull();
+      expect(parseClientMessage(JSON.stringify({ type: "subscribe", bookId: "not-a-uuid", spineIndex: 0 }))).toBeNull();
+      expect(parseClientMessage(JSON.stringify({ type: "shout" }))).toBeNull();
+    });
+  });
+
+  describe("hub", () => {
+    test("should track presence per book and chapter", () => {
+      const alice = fakeConnection("alice");
+      const bob = fakeConnection("bob");
+
+      joinChapter(alice, "presence-book", 1);
+      joinChapter(bob, "presence-book", 3);
+      expect(getPresence("presence-book")).toEqual([
+        { userId: "alice", name: "alice", spineIndex: 1 },
+        { userId: "bob", name: "bob", spineIndex: 3 },
+      ]);
+
+      joinChapter(alice, "other-book", 0);
+      leaveBook(bob);
+      expect(getPresence("presence-book")).toEqual([]);
+      expect(getPresence("other-book")).toEqual([{ userId: "alice", name: "alice", spineIndex: 0 }]);
+      leaveBook(alice);
+    });
+
+    test("should broadcast presence changes to the book's readers", () => {
+      const aliceMessages: ServerMessage[] = [];
+      const alice = fakeConnection("alice", aliceMessages);
+      const bob = fakeConnection("bob");
+
+      joinChapter(alice, "broadcast-book", 0);
+      joinChapter(bob, "broadcast-book", 0);
+
+      expect(aliceMessages.at(-1)).toEqual({
+        type: "presence",
+        bookId: "broadcast-book",
+        readers: [{ userId: "alice", name: "alice", spineIndex: 0 }, { userId: "bob", name: "bob", spineIndex: 0 }],
+      });
+      leaveBook(alice);
+      leaveBook(bob);
+    });
+
+    test("should only push annotations to readers of the chapter who can see them", async () => {
+      const authorMessages: ServerMessage[] = [];
+      const readerMessages: ServerMessage[] = [];
+      const otherChapterMessages: ServerMessage[] = [];
+      const author = fakeConnection("author", authorMessages);
+      const reader = fakeConnection("reader", readerMessages);
+      const elsewhere = fakeConnection("elsewhere", otherChapterMessages);
+      joinChapter(author, "events-book", 2);
+      joinChapter(reader, "events-book", 2);
+      joinChapter(elsewhere, "events-book", 5);
+      const isEvent = (message: ServerMessage) => message.type.startsWith("annotation.");
+
+      const annotation = { id: "a1", bookId: "events-book", userId: "author", visibility: "private" as const, groupId: null };
+      await publishAnnotationEvent("created", annotation, 2, { id: "a1" });
+      expect(authorMessages.filter(isEvent)).toHaveLength(1);
+      expect(readerMessages.filter(isEvent)).toHaveLength(0);
+
+      const published = { ...annotation, visibility: "public" as const };
+      await publishAnnotationEvent("updated", published, 2, { id: "a1" }, annotation);
+      expect(readerMessages.filter(isEvent).map(message => message.type)).toEqual(["annotation.updated"]);
+
+      // Made private again: the reader is told to drop it
+      await publishAnnotationEvent("updated", annotation, 2, { id: "a1" }, published);
+      expect(readerMessages.filter(isEvent).map(message => message.type)).toEqual(["annotation.updated", "annotation.deleted"]);
+      expect(otherChapterMessages.filter(isEvent)).toHaveLength(0);
+
+      [author, reader, elsewhere].forEach(leaveBook);
+    });
+
+    test("should only push group annotations while the book is shared with the group", async () => {
+      const owner = await createTestUser("Club Owner");
+      const member = await createTestUser("Club Member");
+      const json = (headers: Record<string, string>, method: string, body: unknown) =>
+        ({ method, headers: { ...headers, "Content-Type": "application/json" }, body: JSON.stringify(body) });
+      const { bookId } = await uploadTestBook(owner.headers);
+      const group = await (await app.request("/groups", json(owner.headers, "POST", { name: "Club" }))).json() as { id: string };
+      await app.request(`/groups/${group.id}/books`, json(owner.headers, "POST", { bookId }));
+      const invite = await (await app.request(`/groups/${group.id}/invites`, json(owner.headers, "POST", {}))).json() as { code: string };
+      await app.request("/groups/join", json(member.headers, "POST", { code: invite.code }));
+
+      const memberMessages: ServerMessage[] = [];
+      const connection = fakeConnection(member.user.id, memberMessages);
+      joinChapter(connection, bookId, 1);
+      const isEvent = (message: ServerMessage) => message.type.startsWith("annotation.");
+
+      const annotation = { id: "a1", bookId, userId: owner.user.id, visibility: "group" as const, groupId: group.id };
+      await publishAnnotationEvent("created", annotation, 1, { id: "a1" });
+      expect(memberMessages.filter(isEvent)).toHaveLength(1);
+
+      await app.request(`/groups/${group.id}/books/${bookId}`, { method: "DELETE", headers: owner.headers });
+      await publishAnnotationEvent("updated", annotation, 1, { id: "a1" }, annotation);
+      expect(memberMessages.filter(isEvent)).toHaveLength(1);
+
+      leaveBook(connection);
+    });
+  });
+
+  describe("WebSocket endpoint", () => {
+    let server: ReturnType<typeof Bun.serve>;
+
+    beforeAll(() => {
+      server = Bun.serve({ port: 0, fetch: app.fetch, websocket });
+    });
+
+    afterAll(() => {
+      server.stop(true);
+    });
+
+    test("should refuse connections without a session", async () => {
+      const { opened } = connect(`ws://localhost:${server.port}/ws`);
+      await expect(opened).rejects.toThrow();
+    });
+
+    test("should push presence and annotation events to other readers of the chapter", async () => {
+      const { headers } = await createTestUser();
+      const { bookId } = await uploadTestBook(headers);
+
+      const first = connect(`ws://localhost:${server.port}/ws`, headers);
+      const second = connect(`ws://localhost:${server.port}/ws`, headers);
+      await Promise.all([first.opened, second.opened]);
+
+      first.socket.send(JSON.stringify({ type: "subscribe", bookId, spineIndex: 1 }));
+      await first.waitFor(message => message.type === "subscribed");
+      second.socket.send(JSON.stringify({ type: "subscribe", bookId, spineIndex: 1 }));
+      const presence = await first.waitFor(message => message.type === "presence" && message.readers.length > 0);
+      expect(presence.readers[0].spineIndex).toBe(1);
+
+      const res = await app.request("/annotations", {
+        method: "POST",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: JSON.stringify({ bookId, spineIndex: 1, type: "bookmark", startOffset: 0, endOffset: 0 }),
+      });
+      const annotation = await res.json() as { id: string };
+
+      const event = await second.waitFor(message => message.type === "annotation.created");
+      expect(event.annotation.id).toBe(annotation.id);
+
+      first.socket.close();
+      second.socket.close();
+    });
+
+    test("should not keep the presence of a socket closed while subscribing", async () => {
+      const { headers } = await createTestUser();
+      const { bookId } = await uploadTestBook(headers);
+
+      const reader = connect(`ws://localhost:${server.port}/ws`, headers);
+      await reader.opened;
+      reader.socket.send(JSON.stringify({ type: "subscribe", bookId, spineIndex: 1 }));
+      reader.socket.close();
+      await Bun.sleep(200);
+
+      expect(getPresence(bookId)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, test, expect } from "bun:test";
+import { extractPlainText } from "../epub/anchoring";
+import { getSearchConfig } from "../epub/metadata";
+import { parseEpub } from "../epub/parser";
+
+describe("Search Indexing", () => {
+  describe("getSearchConfig", () => {
+    test("should map languages to Postgres text search configurations", () => {
+      expect(getSearchConfig("fr")).toBe("french");
+      expect(getSearchConfig("en-US")).toBe("english");
+      expect(getSearchConfig("pt_BR")).toBe("portuguese");
+      expect(getSearchConfig("DE")).toBe("german");
+    });
+
+    test("should fall back to the simple configuration", () => {
+      expect(getSearchConfig("ja")).toBe("simple");
+      expect(getSearchConfig(undefined)).toBe("simple");
+    });
+  });
+
+  describe("extractPlainText", () => {
+    test("should drop markup, head content and decode character references", () => {
+      const html = `<html><head><title>Titre</title><style>p { color: red; }</style></head>
+<body><p class="p1">Fish &amp; <em>chips</em></p>
+<p>à l'abordage</p></body></html>`;
+
+      expect(extractPlainText(html)).toBe("Fish & chips à l'abordage");
+    });
+  });
+
+  describe("Integration with parseEpub", () => {
+    test("should index French books with the french configuration", async () => {
+      const buffer = await Bun.file("back/epub/test_data/dumas_contes_grands_petits_enfants.epub").arrayBuffer();
+      const result = await parseEpub(buffer);
+
+      expect(result.newBook.searchConfig).toBe("french");
+      for (const chapter of result.chapters) {
+        expect(chapter.plainText).not.toContain("<");
+      }
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, test, expect } from "bun:test";
+import * as fflate from "fflate";
+import app from "../app";
+import { processNextJob } from "../jobs/queue";
+import { formatSnippet, locateMatch, parsePagination } from "../services/search";
+import { createTestUser, uploadTestBook } from "./test-utils";
+
+describe("Search", () => {
+  describe("locateMatch", () => {
+    const html = `<html><head><title>Le roi</title></head><body><p class="x">Il était une fois un <em>Roi</em> des taupes.</p></body></html>`;
+
+    test("should return the HTML offset of the first highlighted term", () => {
+      const offset = locateMatch(html, "Il était une fois un <mark>Roi</mark> des taupes");
+
+      expect(offset).toBe(html.indexOf("Roi</em>"));
+    });
+
+    test("should return null without a highlighted term or a match", () => {
+      expect(locateMatch(html, "Il était une fois")).toBeNull();
+      expect(locateMatch(html, "<mark>reine</mark>")).toBeNull();
+    });
+  });
+
+  describe("formatSnippet", () => {
+    test("should escape the chapter text but keep highlights", () => {
+      expect(formatSnippet("if a <b> & <mark>c</mark> <script>")).toBe("if a &lt;b&gt; &amp; <mark>c</mark> &lt;script&gt;");
+    });
+  });
+
+  describe("parsePagination", () => {
+    test("should apply defaults and bounds", () => {
+      expect(parsePagination()).toEqual({ limit: 20, offset: 0 });
+      expect(parsePagination("500", "-3")).toEqual({ limit: 50, offset: 0 });
+      expect(parsePagination("5", "10")).toEqual({ limit: 5, offset: 10 });
+    });
+  });
+
+  describe("Versions", () => {
+    test("should only search the latest version of a re-uploaded book", async () => {
+      const epubPath = "back/epub/test_data/flaubert_tentation_saint_antoine.epub";
+      const { headers } = await createTestUser();
+      const { bookId: previousId } = await uploadTestBook(headers, epubPath);
+
+      // Same book, different file: identical files are always deduplicated
+      const files = fflate.unzipSync(new Uint8Array(await Bun.file(epubPath).arrayBuffer()));
+      files["revision.txt"] = new TextEncoder().encode("Second edition");
+      const upload = await app.request("/epub?onDuplicate=version", {
+        method: "PUT",
+        headers: { ...headers, "Content-Type": "application/epub+zip" },
+        body: fflate.zipSync(files),
+      });
+      const { job } = await upload.json() as { job: { id: string } };
+      while (await processNextJob()) {}
+      const { result } = await (await app.request(`/jobs/${job.id}`, { headers })).json() as { result: { bookId: string; previousVersionId: string } };
+      expect(result.previousVersionId).toBe(previousId);
+
+      const library = await (await app.request("/search?q=Antoine&limit=50", { headers })).json() as { total: number; results: Array<{ bookId: string }> };
+      expect(library.total).toBeGreaterThan(0);
+      expect(library.results.length).toBe(library.total);
+      expect(library.results.every(match => match.bookId === result.bookId)).toBe(true);
+
+      // The previous version can still be searched on its own
+      const previous = await (await app.request(`/epub/${previousId}/search?q=Antoine`, { headers })).json() as { total: number };
+      expect(previous.total).toBe(library.total);
+    });
+  });
+
+  describe("Authentication", () => {
+    test("should reject unauthenticated requests", async () => {
+      expect((await app.request("/search?q=roi")).status).toBe(401);
+      expect((await app.request("/epub/some-book/search?q=roi")).status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, test, expect } from "bun:test";
+import { extractReadingDirection, extractSpine } from "../epub/metadata";
+import { parseChapters, parseEpub } from "../epub/parser";
+import type { EpubManifestItem } from "../epub/epub.model";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const page = (title: string) => encode(`<html><head><title>${title}</title></head><body><p>${title} text</p></body></html>`);
+
+describe("Spine", () => {
+  describe("extractSpine", () => {
+    test("should read linear attributes", () => {
+      const spine = extractSpine({
+        itemref: [{ idref: "cover", linear: "no" }, { idref: "ch1" }, { idref: "ch2", linear: "yes" }],
+      });
+
+      expect(spine.map(item => item.linear)).toEqual([false, true, true]);
+    });
+  });
+
+  describe("extractReadingDirection", () => {
+    test("should use page-progression-direction when declared", () => {
+      expect(extractReadingDirection({ "page-progression-direction": "rtl" }, "ja")).toBe("rtl");
+      expect(extractReadingDirection({ "page-progression-direction": "ltr" }, "ar")).toBe("ltr");
+    });
+
+    test("should fall back to the book language", () => {
+      expect(extractReadingDirection({ "page-progression-direction": "default" }, "ar-EG")).toBe("rtl");
+      expect(extractReadingDirection({}, "he")).toBe("rtl");
+      expect(extractReadingDirection({}, "fr")).toBe("ltr");
+      expect(extractReadingDirection({}, undefined)).toBe("ltr");
+    });
+  });
+
+  describe("parseChapters", () => {
+    const manifest: EpubManifestItem[] = [
+      { id: "cover", href: "cover.xhtml", mediaType: "application/xhtml+xml" },
+      { id: "ch1", href: "ch1.xhtml", mediaType: "application/xhtml+xml" },
+      { id: "notes", href: "notes.xhtml", mediaType: "application/xhtml+xml" },
+      { id: "ch2", href: "ch2.xhtml", mediaType: "application/xhtml+xml" },
+    ];
+    const unzipped = {
+      "OEBPS/cover.xhtml": page("Cover"),
+      "OEBPS/ch1.xhtml": page("One"),
+      "OEBPS/notes.xhtml": page("Notes"),
+      "OEBPS/ch2.xhtml": page("Two"),
+    };
+    const spine = [
+      { idref: "cover", linear: false },
+      { idref: "ch1", linear: true },
+      { idref: "notes", linear: false },
+      { idref: "ch2", linear: true },
+    ];
+
+    test("should flag non-linear items and leave them out of chapter numbering", async () => {
+      const chapters = await parseChapters(spine, manifest, "OEBPS", unzipped, "book-1");
+
+      expect(chapters.map(ch => ch.spineIndex)).toEqual([0, 1, 2, 3]);
+      expect(chapters.map(ch => ch.linear)).toEqual([false, true, false, true]);
+      expect(chapters.map(ch => ch.chapterNumber)).toEqual([null, 1, null, 2]);
+    });
+  });
+
+  describe("Integration with parseEpub", () => {
+    test("should resolve the reading direction of test EPUBs", async () => {
+      const buffer = await Bun.file("back/epub/test_data/dumas_contes_grands_petits_enfants.epub").arrayBuffer();
+      const result = await parseEpub(buffer);
+
+      expect(result.parsedEpub.readingDirection).toBe("ltr");
+      expect(result.newBook.readingDirection).toBe("ltr");
+    });
+  });
+});
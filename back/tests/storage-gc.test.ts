@@ -0,0 +1,45 @@
+import { describe, test, expect } from "bun:test";
+import { eq } from "drizzle-orm";
+import { blobs, db, jobs } from "../db";
+import { enqueueJob } from "../jobs/queue";
+import { collectStorageGarbage, findStorageGarbage } from "../s3/gc";
+import { minio } from "../s3/s3";
+
+// Past the grace period of every object written by the test
+const later = () => new Date(Date.now() + 2 * 60 * 60 * 1000);
+
+describe("Storage garbage collection", () => {
+  test("should report objects and blobs that don't match, and collect them", async () => {
+    const orphanKey = `books/${crypto.randomUUID()}/covers/small.webp`;
+    await minio.write(orphanKey, "orphan");
+    const [missing] = await db.insert(blobs)
+      .values({ hash: null, s3Key: `blobs/00/${crypto.randomUUID()}`, size: 1 })
+      .returning({ id: blobs.id, s3Key: blobs.s3Key });
+
+    const report = await findStorageGarbage(later());
+    expect(report.orphanedObjects).toContain(orphanKey);
+    expect(report.missingObjects).toContainEqual(missing!);
+
+    // Only what this test created: other tests' books share the bucket
+    await collectStorageGarbage({ orphanedObjects: [orphanKey], missingObjects: [missing!], unusedBlobs: [] });
+    expect(await minio.exists(orphanKey)).toBe(false);
+    expect(await db.query.blobs.findFirst({ where: eq(blobs.id, missing!.id) })).toBeUndefined();
+  });
+
+  test("should spare recent objects and books still being ingested", async () => {
+    const recentKey = `books/${crypto.randomUUID()}/covers/small.webp`;
+    await minio.write(recentKey, "recent");
+    const bookId = crypto.randomUUID();
+    const ingestingKey = `books/${bookId}/covers/small.webp`;
+    await minio.write(ingestingKey, "ingesting");
+    const job = await enqueueJob("test_ingesting", { bookId }, { runAt: later() });
+
+    expect((await findStorageGarbage()).orphanedObjects).not.toContain(recentKey);
+    const report = await findStorageGarbage(later());
+    expect(report.orphanedObjects).toContain(recentKey);
+    expect(report.orphanedObjects).not.toContain(ingestingKey);
+
+    await db.delete(jobs).where(eq(jobs.id, job.id));
+    await Promise.all([recentKey, ingestingKey].map(key => minio.delete(key)));
+  });
+});
@@ -0,0 +1,46 @@
+import app from "../app";
+import { processNextJob } from "../jobs/queue";
+
+/**
+ * Sign up a fresh user through the better-auth routes and return
+ * the session cookie to send with authenticated requests
+ */
+export async function createTestUser(name = "Test Reader") {
+  const email = `reader-${crypto.randomUUID()}@example.com`;
+  const res = await app.request("/api/auth/sign-up/email", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ email, password: "correct-horse-battery", name }),
+  });
+
+  if (res.status !== 200) {
+    throw new Error(`Failed to create test user: ${res.status} ${await res.text()}`);
+  }
+
+  const { user } = await res.json() as { user: { id: string; email: string; name: string } };
+  const cookie = res.headers.getSetCookie().map(header => header.split(";")[0]).join("; ");
+  return { user, headers: { cookie } };
+}
+
+/**
+ * Upload an EPUB, run its ingestion job and return the job as seen by the client
+ */
+export async function uploadTestBook(headers: Record<string, string>, epubPath = "back/epub/test_data/dumas_contes_grands_petits_enfants.epub") {
+  const formData = new FormData();
+  formData.append("file", Bun.file(epubPath));
+  const upload = await app.request("/epub", { method: "PUT", headers, body: formData });
+  if (upload.status !== 202) {
+    throw new Error(`Failed to upload test book: ${upload.status} ${await upload.text()}`);
+  }
+
+  const { job } = await upload.json() as { job: { id: string } };
+  while (await processNextJob()) {
+    // Run every queued job, this one included
+  }
+  const res = await app.request(`/jobs/${job.id}`, { headers });
+  const finished = await res.json() as { status: string; error: string | null; result: { bookId: string } | null };
+  if (finished.status !== "completed") {
+    throw new Error(`Ingestion job ${finished.status}: ${finished.error}`);
+  }
+  return { jobId: job.id, bookId: finished.result!.bookId };
+}
@@ -0,0 +1,117 @@
+import { describe, test, expect } from "bun:test";
+import { parseEpub } from "../epub/parser";
+import { getTocTitles, parseNavDocument, parseNcx } from "../epub/toc";
+
+describe("TOC Parser", () => {
+  const spineIndexByHref = new Map([
+    ["Text/cover.xhtml", 0],
+    ["Text/ch1.xhtml", 1],
+    ["Text/ch2.xhtml", 2],
+  ]);
+
+  describe("parseNavDocument", () => {
+    const navHtml = `<?xml version="1.0" encoding="utf-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head><title>Contents</title></head>
+<body>
+<nav epub:type="landmarks"><ol><li><a href="Text/cover.xhtml">Cover landmark</a></li></ol></nav>
+<nav epub:type="toc" id="toc">
+  <h1>Contents</h1>
+  <ol>
+    <li><a href="Text/cover.xhtml">Cover</a></li>
+    <li>
+      <a href="Text/ch1.xhtml">Part <em>One</em> &amp; more</a>
+      <ol>
+        <li><a href="Text/ch1.xhtml#sec1">Section 1</a></li>
+        <li><a href="Text/ch2.xhtml#sec2">Section 2</a></li>
+      </ol>
+    </li>
+    <li><span>Appendices</span>
+      <ol><li><a href="Text/notes.xhtml">Notes</a></li></ol>
+    </li>
+  </ol>
+</nav>
+</body>
+</html>`;
+
+    test("should build a hierarchical tree from the toc nav", () => {
+      const toc = parseNavDocument(navHtml, "nav.xhtml", spineIndexByHref);
+
+      expect(toc.map(entry => entry.label)).toEqual(["Cover", "Part One & more", "Appendices"]);
+      expect(toc[1]!.children.map(entry => entry.label)).toEqual(["Section 1", "Section 2"]);
+      expect(toc[2]!.children[0]!.label).toBe("Notes");
+    });
+
+    test("should resolve hrefs, fragments and spine indexes", () => {
+      const toc = parseNavDocument(navHtml, "nav.xhtml", spineIndexByHref);
+      const section2 = toc[1]!.children[1]!;
+
+      expect(section2.href).toBe("Text/ch2.xhtml");
+      expect(section2.fragment).toBe("sec2");
+      expect(section2.spineIndex).toBe(2);
+      expect(toc[2]!.href).toBe("");
+      expect(toc[2]!.children[0]!.spineIndex).toBeUndefined();
+    });
+
+    test("should resolve hrefs relative to the nav document", () => {
+      const nested = `<html><body><nav epub:type="toc"><ol><li><a href="../Text/ch1.xhtml">One</a></li></ol></nav></body></html>`;
+      const toc = parseNavDocument(nested, "Nav/nav.xhtml", spineIndexByHref);
+
+      expect(toc[0]!.href).toBe("Text/ch1.xhtml");
+      expect(toc[0]!.spineIndex).toBe(1);
+    });
+  });
+
+  describe("parseNcx", () => {
+    test("should build a hierarchical tree from navPoints", () => {
+      const ncxXml = `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+<navMap>
+<navPoint id="n1" playOrder="1"><navLabel><text>I</text></navLabel><content src="Text/ch1.xhtml"/>
+<navPoint id="n2" playOrder="2"><navLabel><text>1</text></navLabel><content src="Text/ch1.xhtml#p5"/></navPoint>
+</navPoint>
+<navPoint id="n3" playOrder="3"><navLabel><text>II</text></navLabel><content src="Text/ch2.xhtml"/></navPoint>
+</navMap>
+</ncx>`;
+      const toc = parseNcx(ncxXml, "toc.ncx", spineIndexByHref);
+
+      expect(toc.map(entry => entry.label)).toEqual(["I", "II"]);
+      expect(toc[0]!.children[0]).toEqual({ label: "1", href: "Text/ch1.xhtml", fragment: "p5", spineIndex: 1, children: [] });
+      expect(toc[1]!.spineIndex).toBe(2);
+    });
+  });
+
+  describe("getTocTitles", () => {
+    test("should use the first label pointing at each spine document", () => {
+      const titles = getTocTitles([
+        { label: "Part One", href: "Text/ch1.xhtml", spineIndex: 1, children: [
+          { label: "Section 1", href: "Text/ch1.xhtml", fragment: "s1", spineIndex: 1, children: [] },
+          { label: "Section 2", href: "Text/ch2.xhtml", fragment: "s2", spineIndex: 2, children: [] },
+        ] },
+      ]);
+
+      expect(titles.get(1)).toBe("Part One");
+      expect(titles.get(2)).toBe("Section 2");
+      expect(titles.has(0)).toBe(false);
+    });
+  });
+
+  describe("Integration with parseEpub", () => {
+    test("should extract the NCX TOC and use its labels as chapter titles", async () => {
+      const epubPath = "back/epub/test_data/dumas_contes_grands_petits_enfants.epub";
+      const buffer = await Bun.file(epubPath).arrayBuffer();
+      const result = await parseEpub(buffer);
+
+      expect(result.toc.length).toBeGreaterThan(0);
+      expect(result.newBook.toc).toBe(result.toc);
+
+      const kingOfMoles = result.toc.find(entry => entry.label === "Le roi des taupes et sa fille");
+      expect(kingOfMoles).toBeDefined();
+      expect(kingOfMoles!.children.map(entry => entry.label)).toEqual(["1", "2"]);
+      expect(kingOfMoles!.children[0]!.fragment).toBe("ncx5");
+
+      const chapter = result.chapters.find(ch => ch.spineIndex === kingOfMoles!.spineIndex);
+      expect(chapter?.title).toBe("Le roi des taupes et sa fille");
+    });
+  });
+});
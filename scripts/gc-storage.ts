@@ -0,0 +1,44 @@
+#!/usr/bin/env bun
+
+/**
+ * Find S3 objects under blobs/ and books/ that nothing points to, blobs
+ * whose S3 object is missing, and blobs no asset references any more
+ *
+ * Usage:
+ *   bun run gc:storage            # report only
+ *   bun run gc:storage --delete   # delete orphaned objects, dangling rows and unused blobs
+ */
+
+import { client } from "../back/db";
+import { collectStorageGarbage, findStorageGarbage } from "../back/s3/gc";
+
+const shouldDelete = process.argv.includes("--delete");
+
+try {
+  const report = await findStorageGarbage();
+
+  console.log(`Orphaned S3 objects: ${report.orphanedObjects.length}`);
+  for (const key of report.orphanedObjects) {
+    console.log(`  ${key}`);
+  }
+  console.log(`Blobs without an S3 object: ${report.missingObjects.length}`);
+  for (const row of report.missingObjects) {
+    console.log(`  ${row.s3Key} (blob ${row.id})`);
+  }
+  console.log(`Unused blobs: ${report.unusedBlobs.length}`);
+  for (const blob of report.unusedBlobs) {
+    console.log(`  ${blob.s3Key}`);
+  }
+
+  if (shouldDelete) {
+    await collectStorageGarbage(report);
+    console.log("Deleted.");
+  } else if (report.orphanedObjects.length > 0 || report.missingObjects.length > 0 || report.unusedBlobs.length > 0) {
+    console.log("Run with --delete to remove them.");
+  }
+} catch (error) {
+  console.error("Storage garbage collection failed:", error);
+  process.exitCode = 1;
+} finally {
+  await client.end();
+}
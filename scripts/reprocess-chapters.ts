@@ -0,0 +1,33 @@
+#!/usr/bin/env bun
+
+/**
+ * Sanitize stored chapters again (e.g. after a sanitizer change) and
+ * re-anchor the annotations of the chapters that changed. Annotations created
+ * before anchors existed are given one first.
+ *
+ * Usage:
+ *   bun run reprocess:chapters             # every book
+ *   bun run reprocess:chapters <bookId>    # a single book
+ */
+
+import { books, client, db } from "../back/db";
+import { reprocessBookChapters } from "../back/epub/reprocess";
+import { backfillAnnotationAnchors } from "../back/annotations/anchors";
+
+const bookId = process.argv[2];
+
+try {
+  const backfilled = await backfillAnnotationAnchors(bookId ? { bookId } : {});
+  console.log(`Anchors backfilled: ${backfilled}`);
+
+  const bookIds = bookId ? [bookId] : (await db.select({ id: books.id }).from(books)).map(book => book.id);
+  for (const id of bookIds) {
+    const result = await reprocessBookChapters(id);
+    console.log(`${id}: ${result.updated}/${result.chapters} chapters updated, ${result.orphanedAnnotations} orphaned annotations`);
+  }
+} catch (error) {
+  console.error("Chapter reprocessing failed:", error);
+  process.exitCode = 1;
+} finally {
+  await client.end();
+}